@@ -0,0 +1,110 @@
+// Regression check for the planner and aesthetic review prompts against captured Gemini
+// responses. Each case in fixtures/gemini/cases.json builds the prompts with the current
+// code, runs them through aiGenerateJson and validates the plan.
+//
+//   npm run gemini:replay             replay offline; fails on errors or invalid plans
+//   npm run gemini:replay -- --record record every case again (needs GEMINI_API_KEY)
+//   npm run gemini:replay -- <case>   only the named cases
+//
+// Fixtures are keyed by case name and call order, so a prompt edit still replays: the
+// runner lists where each request now differs from the recording ("prompt mudou").
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { runGeminiFixtureCase } from "@/lib/ai/gemini_fixtures";
+import { aiGenerateJson } from "@/lib/ai/provider";
+import { buildAestheticReviewPrompt, buildPlannerPrompt } from "@/lib/studio/generation";
+import { plannerOutputSchema, type PlannerOutput } from "@/lib/studio/planner_contract";
+import { BUILTIN_TEMPLATES } from "@/lib/studio/template_shared";
+
+type ReplayCase = {
+  name: string;
+  topicOrPrompt: string;
+  inputMode?: "topic" | "prompt";
+  slidesCount?: number;
+  tone?: string;
+  targetAudience?: string;
+  language?: string;
+  templateId?: string;
+  /** Also runs the aesthetic review on the replayed plan (default true). */
+  review?: boolean;
+};
+
+async function runCase(replayCase: ReplayCase) {
+  const template =
+    BUILTIN_TEMPLATES.find((t) => t.id === replayCase.templateId) ?? BUILTIN_TEMPLATES[0]!;
+  const planner = buildPlannerPrompt({
+    topicOrPrompt: replayCase.topicOrPrompt,
+    slidesCount: replayCase.slidesCount ?? 5,
+    inputMode: replayCase.inputMode ?? "topic",
+    tone: replayCase.tone,
+    targetAudience: replayCase.targetAudience,
+    language: replayCase.language,
+    template,
+    styleReferences: [],
+    contentReferences: []
+  });
+  const gen = await aiGenerateJson("planner", { ...planner, schema: plannerOutputSchema });
+  if (!gen.ok) return { ok: false as const, error: `planner: ${gen.error}` };
+  const plan = plannerOutputSchema.parse(gen.data) as PlannerOutput;
+
+  if (replayCase.review === false) return { ok: true as const, slides: plan.slides.length };
+  const review = await aiGenerateJson("aesthetic_review", {
+    ...buildAestheticReviewPrompt({
+      plan,
+      template,
+      topicOrPrompt: replayCase.topicOrPrompt,
+      tone: replayCase.tone,
+      targetAudience: replayCase.targetAudience,
+      language: replayCase.language
+    }),
+    schema: plannerOutputSchema
+  });
+  if (!review.ok) return { ok: false as const, error: `aesthetic_review: ${review.error}` };
+  return { ok: true as const, slides: (review.data as PlannerOutput).slides.length };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const record = args.includes("--record");
+  const only = new Set(args.filter((arg) => !arg.startsWith("--")));
+
+  process.env.GEMINI_FIXTURE_MODE = record ? "record" : "replay";
+  // Fixtures only cover Gemini; replay never reaches the network, so any key will do.
+  process.env.AI_PLANNER_PROVIDER = "gemini";
+  process.env.AI_AESTHETIC_REVIEW_PROVIDER = "gemini";
+  if (!record) process.env.GEMINI_API_KEY ||= "replay";
+
+  const dir = path.resolve(process.cwd(), process.env.GEMINI_FIXTURE_DIR ?? "fixtures/gemini");
+  const cases = JSON.parse(await readFile(path.join(dir, "cases.json"), "utf8")) as ReplayCase[];
+  const selected = cases.filter((c) => only.size === 0 || only.has(c.name));
+  if (selected.length === 0) {
+    console.error("Nenhum caso selecionado.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let failures = 0;
+  for (const replayCase of selected) {
+    const { result, drift } = await runGeminiFixtureCase(replayCase.name, () =>
+      runCase(replayCase)
+    );
+    if (result.ok) {
+      console.log(`ok    ${replayCase.name} (${result.slides} slides)`);
+    } else {
+      failures++;
+      console.log(`falha ${replayCase.name}: ${result.error}`);
+    }
+    for (const entry of drift) {
+      console.log(`      prompt mudou em ${path.relative(process.cwd(), entry.file)}: ${entry.difference}`);
+    }
+  }
+
+  console.log(
+    `${selected.length - failures}/${selected.length} casos ok (${record ? "gravação" : "replay"}).`
+  );
+  if (failures > 0) process.exitCode = 1;
+}
+
+void main();
@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSignedUrl } from "@/lib/studio/storage";
+import {
+  createGenerationStreamCursor,
+  diffGenerationMeta
+} from "@/lib/studio/generation_events";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Close a bit before maxDuration; EventSource reconnects on its own.
+const STREAM_LIFETIME_MS = 280_000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    return NextResponse.json({ ok: false, error: "UNAUTHENTICATED" }, { status: 401 });
+  }
+
+  // RLS limits this to carousels the user can read.
+  const { data: initial } = await supabase
+    .from("carousels")
+    .select("id")
+    .eq("id", id)
+    .maybeSingle();
+  if (!initial) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const cursor = createGenerationStreamCursor();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const startedAt = Date.now();
+      let lastWriteAt = Date.now();
+      controller.enqueue(encoder.encode("retry: 3000\n\n"));
+
+      try {
+        while (!request.signal.aborted && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+          const { data: carousel } = await supabase
+            .from("carousels")
+            .select("generation_status, generation_error, generation_meta")
+            .eq("id", id)
+            .maybeSingle();
+          if (!carousel) break;
+
+          const events = diffGenerationMeta(cursor, {
+            status: carousel.generation_status,
+            error: carousel.generation_error,
+            meta: carousel.generation_meta
+          });
+
+          let ended = false;
+          for (const event of events) {
+            if (event.type === "image") {
+              const signed =
+                event.status === "ready" && event.path
+                  ? await createSignedUrl({
+                      bucket: "carousel-assets",
+                      path: event.path,
+                      expiresIn: 60 * 60 * 6
+                    })
+                  : null;
+              send("image", {
+                slideIndex: event.slideIndex,
+                slotId: event.slotId,
+                status: event.status,
+                assetId: event.assetId,
+                signedUrl: signed?.signedUrl ?? null
+              });
+            } else {
+              const { type, ...data } = event;
+              send(type, data);
+              if (type === "end") ended = true;
+            }
+            lastWriteAt = Date.now();
+          }
+          if (ended) break;
+
+          if (Date.now() - lastWriteAt >= HEARTBEAT_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(": ping\n\n"));
+            lastWriteAt = Date.now();
+          }
+          await sleep(POLL_INTERVAL_MS);
+        }
+      } catch {
+        // Client went away mid-write; nothing left to do.
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the runtime.
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { runGenerationWorker } from "@/lib/studio/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function isAuthorized(request: Request) {
+  const secret = process.env.GENERATION_WORKER_SECRET;
+  if (!secret) return false;
+  const header = request.headers.get("authorization") ?? "";
+  return header === `Bearer ${secret}`;
+}
+
+async function handle(request: Request) {
+  if (!process.env.GENERATION_WORKER_SECRET) {
+    return NextResponse.json(
+      { ok: false, error: "GENERATION_WORKER_SECRET não configurada." },
+      { status: 503 }
+    );
+  }
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ ok: false, error: "UNAUTHORIZED" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const maxJobsRaw = Number(url.searchParams.get("maxJobs") ?? 1);
+  const maxJobs = Number.isFinite(maxJobsRaw) ? Math.max(1, Math.min(5, maxJobsRaw)) : 1;
+
+  const result = await runGenerationWorker({ maxJobs });
+  return NextResponse.json(result, { status: result.ok ? 200 : 503 });
+}
+
+// GET is what schedulers (e.g. Vercel Cron) call; POST is for manual/queue triggers.
+export async function GET(request: Request) {
+  return await handle(request);
+}
+
+export async function POST(request: Request) {
+  return await handle(request);
+}
@@ -36,6 +36,11 @@ export default async function AdminHomePage() {
             {t(locale, "admin.home.workspaceLink")}
           </Link>
         </li>
+        <li>
+          <Link className="underline" href="/app/admin/usage">
+            {t(locale, "admin.home.usageLink")}
+          </Link>
+        </li>
       </ul>
     </div>
   );
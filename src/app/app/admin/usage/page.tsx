@@ -0,0 +1,149 @@
+import { redirect } from "next/navigation";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
+import { isCurrentUserSuperAdmin } from "@/lib/app/access";
+import { getLocale } from "@/lib/i18n/locale";
+import { t } from "@/lib/i18n/t";
+
+type UsageTotals = {
+  key: string;
+  label: string;
+  calls: number;
+  failed: number;
+  tokens: number;
+  images: number;
+  latencyTotal: number;
+};
+
+function addTo(
+  groups: Map<string, UsageTotals>,
+  key: string,
+  label: string,
+  row: {
+    calls: number;
+    failed_calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    image_count: number;
+    avg_latency_ms: number;
+  }
+) {
+  const current = groups.get(key) ?? {
+    key,
+    label,
+    calls: 0,
+    failed: 0,
+    tokens: 0,
+    images: 0,
+    latencyTotal: 0
+  };
+  const calls = Number(row.calls);
+  current.calls += calls;
+  current.failed += Number(row.failed_calls);
+  current.tokens += Number(row.input_tokens) + Number(row.output_tokens);
+  current.images += Number(row.image_count);
+  current.latencyTotal += Number(row.avg_latency_ms) * calls;
+  groups.set(key, current);
+}
+
+export default async function UsageAdminPage() {
+  const locale = await getLocale();
+  const supabase = await createSupabaseServerClient();
+  const { data } = await supabase.auth.getUser();
+  if (!data.user) redirect("/sign-in");
+
+  const isSuperAdmin = await isCurrentUserSuperAdmin();
+  if (!isSuperAdmin) redirect("/app");
+
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const { data: rows, error } = await supabase.rpc("ai_usage_summary", {
+    p_since: monthStart.toISOString()
+  });
+
+  const { data: workspaces } = await supabase.from("workspaces").select("id, name");
+  const workspaceNames = new Map((workspaces ?? []).map((w) => [w.id, w.name]));
+
+  // Emails need the auth admin API; without the service role we show user ids.
+  const userEmails = new Map<string, string>();
+  const admin = createSupabaseAdminClientIfAvailable();
+  if (admin && rows && rows.length > 0) {
+    const { data: users } = await admin.auth.admin.listUsers({ perPage: 1000 });
+    for (const user of users?.users ?? []) {
+      if (user.email) userEmails.set(user.id, user.email);
+    }
+  }
+
+  const byWorkspace = new Map<string, UsageTotals>();
+  const byUser = new Map<string, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+  for (const row of rows ?? []) {
+    addTo(byWorkspace, row.workspace_id, workspaceNames.get(row.workspace_id) ?? row.workspace_id, row);
+    const userKey = row.user_id ?? "-";
+    addTo(byUser, userKey, userEmails.get(userKey) ?? userKey, row);
+    addTo(byModel, `${row.task}|${row.provider}|${row.model}`, `${row.task} · ${row.provider}/${row.model}`, row);
+  }
+
+  const sections = [
+    { title: t(locale, "admin.usage.byWorkspace"), groups: byWorkspace },
+    { title: t(locale, "admin.usage.byUser"), groups: byUser },
+    { title: t(locale, "admin.usage.byModel"), groups: byModel }
+  ];
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-xl font-semibold">{t(locale, "admin.usage.title")}</h1>
+        <p className="text-sm text-slate-600">{t(locale, "admin.usage.subtitle")}</p>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {error.message}
+        </div>
+      ) : null}
+
+      {!error && (rows ?? []).length === 0 ? (
+        <div className="text-sm text-slate-600">{t(locale, "admin.usage.empty")}</div>
+      ) : null}
+
+      {(rows ?? []).length > 0
+        ? sections.map((section) => (
+            <section key={section.title} className="space-y-2">
+              <h2 className="text-sm font-semibold">{section.title}</h2>
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-left text-xs text-slate-600">
+                    <tr>
+                      <th className="px-3 py-2" />
+                      <th className="px-3 py-2 text-right">{t(locale, "admin.usage.calls")}</th>
+                      <th className="px-3 py-2 text-right">{t(locale, "admin.usage.failed")}</th>
+                      <th className="px-3 py-2 text-right">{t(locale, "admin.usage.tokens")}</th>
+                      <th className="px-3 py-2 text-right">{t(locale, "admin.usage.images")}</th>
+                      <th className="px-3 py-2 text-right">{t(locale, "admin.usage.latency")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...section.groups.values()]
+                      .sort((a, b) => b.tokens - a.tokens || b.images - a.images)
+                      .map((g) => (
+                        <tr key={g.key} className="border-t">
+                          <td className="px-3 py-2 font-mono text-xs">{g.label}</td>
+                          <td className="px-3 py-2 text-right">{g.calls}</td>
+                          <td className="px-3 py-2 text-right">{g.failed}</td>
+                          <td className="px-3 py-2 text-right">{g.tokens.toLocaleString(locale)}</td>
+                          <td className="px-3 py-2 text-right">{g.images}</td>
+                          <td className="px-3 py-2 text-right">
+                            {g.calls > 0 ? Math.round(g.latencyTotal / g.calls) : 0}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          ))
+        : null}
+    </div>
+  );
+}
@@ -2,14 +2,34 @@ import { redirect } from "next/navigation";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { isCurrentUserSuperAdmin } from "@/lib/app/access";
 import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
+import {
+  clampImageConcurrency,
+  MAX_IMAGE_CONCURRENCY
+} from "@/lib/studio/image_scheduler";
 import { getLocale } from "@/lib/i18n/locale";
 import { t } from "@/lib/i18n/t";
 
+const QUOTA_FIELDS = [
+  { name: "aiMonthlyTokenQuota", column: "ai_monthly_token_quota" },
+  { name: "aiMonthlyImageQuota", column: "ai_monthly_image_quota" },
+  { name: "aiUserMonthlyTokenQuota", column: "ai_user_monthly_token_quota" },
+  { name: "aiUserMonthlyImageQuota", column: "ai_user_monthly_image_quota" }
+] as const;
+
+/** Empty input clears the quota (unlimited); anything else must be a non-negative integer. */
+function parseQuota(raw: string): number | null | undefined {
+  if (!raw) return null;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) return undefined;
+  return value;
+}
+
 async function updateWorkspace(formData: FormData) {
   "use server";
 
   const name = String(formData.get("name") ?? "").trim();
   const logoFile = formData.get("logo") as File | null;
+  const concurrencyRaw = String(formData.get("imageConcurrency") ?? "").trim();
 
   const supabase = await createSupabaseServerClient();
   const { data } = await supabase.auth.getUser();
@@ -27,8 +47,26 @@ async function updateWorkspace(formData: FormData) {
 
   if (!workspace?.id) redirect("/app");
 
-  const updates: { name?: string; logo_path?: string | null } = {};
+  const updates: {
+    name?: string;
+    logo_path?: string | null;
+    image_generation_concurrency?: number;
+    ai_monthly_token_quota?: number | null;
+    ai_monthly_image_quota?: number | null;
+    ai_user_monthly_token_quota?: number | null;
+    ai_user_monthly_image_quota?: number | null;
+  } = {};
   if (name) updates.name = name;
+  if (concurrencyRaw) {
+    updates.image_generation_concurrency = clampImageConcurrency(concurrencyRaw);
+  }
+  for (const field of QUOTA_FIELDS) {
+    const quota = parseQuota(String(formData.get(field.name) ?? "").trim());
+    if (quota === undefined) {
+      redirect(`/app/admin/workspace?error=${encodeURIComponent("Invalid quota")}`);
+    }
+    updates[field.column] = quota;
+  }
 
   if (
     logoFile &&
@@ -83,7 +121,9 @@ export default async function WorkspaceAdminPage({
 
   const { data: workspace } = await supabase
     .from("workspaces")
-    .select("id, name, logo_path")
+    .select(
+      "id, name, logo_path, image_generation_concurrency, ai_monthly_token_quota, ai_monthly_image_quota, ai_user_monthly_token_quota, ai_user_monthly_image_quota"
+    )
     .order("created_at", { ascending: true })
     .limit(1)
     .maybeSingle();
@@ -151,6 +191,47 @@ export default async function WorkspaceAdminPage({
             </div>
           </label>
 
+          <label className="block space-y-2">
+            <span className="text-sm font-medium">
+              {t(locale, "admin.workspace.imageConcurrency")}
+            </span>
+            <input
+              className="w-full rounded-md border px-3 py-2"
+              type="number"
+              name="imageConcurrency"
+              min={1}
+              max={MAX_IMAGE_CONCURRENCY}
+              defaultValue={workspace.image_generation_concurrency}
+            />
+            <div className="text-xs text-slate-600">
+              {t(locale, "admin.workspace.imageConcurrencyHint")}
+            </div>
+          </label>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium">
+              {t(locale, "admin.workspace.aiQuotas")}
+            </legend>
+            {QUOTA_FIELDS.map((field) => (
+              <label key={field.name} className="block space-y-1">
+                <span className="text-xs text-slate-700">
+                  {t(locale, `admin.workspace.${field.name}`)}
+                </span>
+                <input
+                  className="w-full rounded-md border px-3 py-2"
+                  type="number"
+                  name={field.name}
+                  min={0}
+                  step={1}
+                  defaultValue={workspace[field.column] ?? ""}
+                />
+              </label>
+            ))}
+            <div className="text-xs text-slate-600">
+              {t(locale, "admin.workspace.aiQuotasHint")}
+            </div>
+          </fieldset>
+
           <button
             className="w-full rounded-md bg-black px-3 py-2 text-white"
             type="submit"
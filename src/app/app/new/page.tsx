@@ -5,7 +5,7 @@ import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
 import { getLocale } from "@/lib/i18n/locale";
 import { t } from "@/lib/i18n/t";
-import { generateFirstDraftForCarousel } from "@/lib/studio/generation";
+import { enqueueFirstDraftJob, scheduleGenerationJob } from "@/lib/studio/jobs";
 import {
   BUILTIN_TEMPLATES,
   extractTemplatePrompt,
@@ -372,7 +372,7 @@ async function createCarousel(formData: FormData) {
     redirect(`/app/new?error=${encodeURIComponent(message)}`);
   }
 
-  const generated = await generateFirstDraftForCarousel({ carouselId: created.id });
+  const generated = await enqueueFirstDraftJob({ carouselId: created.id });
   if (!generated.ok) {
     const message =
       generated.error === "GENERATION_RUNNING"
@@ -383,6 +383,7 @@ async function createCarousel(formData: FormData) {
     redirect(`/app/studio/${created.id}?error=${encodeURIComponent(message)}`);
   }
 
+  await scheduleGenerationJob(generated.jobId);
   redirect(`/app/carousels/${created.id}`);
 }
 
@@ -0,0 +1,349 @@
+"use client";
+
+import * as React from "react";
+import type { CarouselChatMessage } from "@/lib/db/types";
+import { contentSlideIndexes, parseSlideTargets } from "@/lib/studio/slide_targets";
+import { studioEditInline, studioResolveEditPreviewInline } from "./actions";
+import EditPreviewPanel from "./EditPreviewPanel";
+
+type EditSuccess = Extract<Awaited<ReturnType<typeof studioEditInline>>, { ok: true }>;
+type EditApplied = Extract<EditSuccess, { preview: false }>;
+type EditProposal = Extract<EditSuccess, { preview: true }>;
+
+const PREVIEW_LABEL: Record<string, string> = {
+  pending: "Proposta pendente",
+  accepted: "Proposta aceita",
+  partial: "Proposta aceita em parte",
+  discarded: "Proposta descartada"
+};
+
+function ResultLine(props: { message: CarouselChatMessage }) {
+  const result = props.message.result;
+  if (!result) return null;
+  if (result.error) {
+    return <div className="mt-1 text-xs text-red-600">{result.error}</div>;
+  }
+  if (result.preview) {
+    return (
+      <div className="mt-1 text-xs text-muted-foreground">
+        {PREVIEW_LABEL[result.preview]} · Bloqueados (lock):{" "}
+        <span className="font-medium text-foreground">{result.blockedByLock}</span>
+      </div>
+    );
+  }
+  return (
+    <div className="mt-1 text-xs text-muted-foreground">
+      Aplicado: <span className="font-medium text-foreground">{result.applied}</span> · Bloqueados
+      (lock): <span className="font-medium text-foreground">{result.blockedByLock}</span> ·
+      Ignorados: <span className="font-medium text-foreground">{result.skippedPolicy}</span> · Não
+      encontrados: <span className="font-medium text-foreground">{result.skippedMissing}</span>
+    </div>
+  );
+}
+
+export default function ChatPanel(props: {
+  carouselId: string;
+  slideCount: number;
+  initialSlideIndex: number;
+  initialMessages: CarouselChatMessage[];
+  /** Objects selected on the canvas, on the slide shown in the editor. */
+  selection: { slideIndex: number; objectIds: string[] };
+  disabled: boolean;
+  forceNewImage: boolean;
+  onForceNewImageChange: (value: boolean) => void;
+  onApplied: (res: Pick<EditApplied, "nextState" | "newAssets" | "history">) => void;
+  onError: (message: string | null) => void;
+}) {
+  const [messages, setMessages] = React.useState<CarouselChatMessage[]>(props.initialMessages);
+  const [instruction, setInstruction] = React.useState("");
+  // "<n>" one slide, "" all, "content" all but the cover, "custom" the typed set.
+  const [target, setTarget] = React.useState<string>(() => String(props.initialSlideIndex));
+  const [customTargets, setCustomTargets] = React.useState("");
+  const [reviewFirst, setReviewFirst] = React.useState(true);
+  const [scopeToSelection, setScopeToSelection] = React.useState(true);
+  const [proposal, setProposal] = React.useState<EditProposal | null>(null);
+  const [isPending, startTransition] = React.useTransition();
+  const listRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length]);
+
+  const resolveTargets = (): number[] | null => {
+    if (target === "") return [];
+    if (target === "content") return contentSlideIndexes(props.slideCount);
+    if (target === "custom") return parseSlideTargets(customTargets, props.slideCount);
+    const n = Math.trunc(Number(target));
+    return Number.isFinite(n) ? [n] : [];
+  };
+
+  const send = () => {
+    if (isPending || props.disabled || proposal) return;
+    const text = instruction.trim();
+    if (text.length < 2) return;
+    // The selection lives on the slide shown in the editor, which wins over the picker.
+    const scoped = scopeToSelection && props.selection.objectIds.length > 0;
+    const slides = scoped ? [props.selection.slideIndex] : resolveTargets();
+    if (!slides) {
+      props.onError(
+        `Slides inválidos: use números e intervalos entre 1 e ${props.slideCount} (ex.: 2-5, 7).`
+      );
+      return;
+    }
+    const slideIndex = slides.length === 1 ? slides[0] : undefined;
+
+    startTransition(async () => {
+      const res = await studioEditInline({
+        carouselId: props.carouselId,
+        instruction: text,
+        slideIndex,
+        slideIndexes: slides.length > 1 ? slides : undefined,
+        selectedObjectIds: scoped ? props.selection.objectIds : undefined,
+        forceNewImage: props.forceNewImage,
+        dryRun: reviewFirst
+      });
+
+      if (!res.ok) {
+        const message =
+          res.error === "UNAUTHENTICATED"
+            ? "Você precisa entrar novamente."
+            : String(res.error ?? "Falha ao aplicar edição.");
+        props.onError(message);
+        // The server stored the turn too; show it locally until the next reload.
+        const now = new Date().toISOString();
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `local-${now}`,
+            role: "user",
+            content: text,
+            slideIndex: slideIndex ?? null,
+            patch: null,
+            result: null,
+            replyTo: null,
+            createdAt: now
+          },
+          {
+            id: `local-${now}-reply`,
+            role: "assistant",
+            content: "Não consegui aplicar a edição.",
+            slideIndex: slideIndex ?? null,
+            patch: null,
+            result: {
+              applied: 0,
+              skippedLocked: 0,
+              skippedMissing: 0,
+              blockedByLock: 0,
+              skippedPolicy: 0,
+              error: message
+            },
+            replyTo: null,
+            createdAt: now
+          }
+        ]);
+        return;
+      }
+
+      props.onError(null);
+      setMessages((prev) => [...prev, ...res.messages]);
+      setInstruction("");
+      if (res.preview) setProposal(res);
+      else props.onApplied(res);
+    });
+  };
+
+  const resolve = (acceptedOps: number[]) => {
+    const current = proposal;
+    if (!current || isPending) return;
+
+    startTransition(async () => {
+      const res = await studioResolveEditPreviewInline({
+        carouselId: props.carouselId,
+        proposalId: current.proposalId,
+        acceptedOps
+      });
+      if (!res.ok) {
+        props.onError(
+          res.error === "UNAUTHENTICATED"
+            ? "Você precisa entrar novamente."
+            : String(res.error ?? "Falha ao aplicar a proposta.")
+        );
+        return;
+      }
+
+      props.onError(null);
+      const resolution =
+        acceptedOps.length === 0
+          ? ("discarded" as const)
+          : acceptedOps.length === current.patch.ops.length
+            ? ("accepted" as const)
+            : ("partial" as const);
+      setMessages((prev) => [
+        ...prev.map((m) =>
+          m.id === current.proposalId && m.result
+            ? { ...m, result: { ...m.result, preview: resolution } }
+            : m
+        ),
+        ...res.messages
+      ]);
+      setProposal(null);
+      if (acceptedOps.length === 0) return;
+
+      // Images of accepted regenerate_image ops are generated on accept.
+      props.onApplied({
+        nextState: res.nextState,
+        history: res.history,
+        newAssets: res.newAssets
+      });
+    });
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border bg-background px-4 py-3">
+      <div className="flex items-center justify-between">
+        <div className="text-base font-medium">Chat de edição</div>
+        <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">IA</span>
+      </div>
+
+      <div ref={listRef} className="max-h-80 space-y-2 overflow-y-auto pr-1">
+        {messages.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            Peça alterações em linguagem natural. Você pode se referir a pedidos anteriores (ex.:
+            “desfaça a mudança anterior”, “faça o mesmo no slide 3”).
+          </div>
+        ) : null}
+        {messages.map((m) =>
+          m.role === "user" ? (
+            <div key={m.id} className="ml-6 rounded-xl bg-foreground px-3 py-2 text-sm text-background">
+              {m.slideIndex ? (
+                <div className="mb-0.5 text-[10px] uppercase tracking-wide opacity-70">
+                  Slide {m.slideIndex}
+                </div>
+              ) : null}
+              <div className="whitespace-pre-wrap">{m.content}</div>
+            </div>
+          ) : (
+            <div key={m.id} className="mr-6 rounded-xl border bg-background/70 px-3 py-2 text-sm">
+              <div className="whitespace-pre-wrap">{m.content}</div>
+              <ResultLine message={m} />
+              {m.patch && m.patch.ops.length > 0 ? (
+                <details className="mt-1 text-xs text-muted-foreground">
+                  <summary className="cursor-pointer">Patch ({m.patch.ops.length} ops)</summary>
+                  <pre className="mt-1 max-h-40 overflow-auto rounded-lg bg-muted p-2 text-[11px]">
+                    {JSON.stringify(m.patch.ops, null, 2)}
+                  </pre>
+                </details>
+              ) : null}
+            </div>
+          )
+        )}
+        {isPending ? <div className="text-xs text-muted-foreground">Aplicando...</div> : null}
+      </div>
+
+      {proposal ? (
+        <EditPreviewPanel
+          key={proposal.proposalId}
+          summary={proposal.summary}
+          diff={proposal.diff}
+          opCount={proposal.patch.ops.length}
+          disabled={props.disabled || isPending}
+          onResolve={resolve}
+        />
+      ) : null}
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+      >
+        <textarea
+          name="instruction"
+          className="h-20 w-full rounded-xl border bg-background p-3 text-sm disabled:cursor-not-allowed disabled:opacity-60"
+          placeholder='Ex: “Deixe o título mais forte e encurte o texto do corpo.”'
+          required
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          disabled={props.disabled}
+        />
+        <div className="flex items-center gap-2">
+          <select
+            name="slideIndex"
+            className="w-full rounded-xl border bg-background px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-60"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            disabled={props.disabled || (scopeToSelection && props.selection.objectIds.length > 0)}
+          >
+            {Array.from({ length: props.slideCount }, (_, i) => (
+              <option key={i + 1} value={i + 1}>
+                Slide {i + 1}
+              </option>
+            ))}
+            <option value="">Todos</option>
+            <option value="content">Todos exceto a capa</option>
+            <option value="custom">Intervalo…</option>
+          </select>
+          {target === "custom" ? (
+            <input
+              name="slideTargets"
+              className="w-28 rounded-xl border bg-background px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-60"
+              placeholder="2-5, 7"
+              value={customTargets}
+              onChange={(e) => setCustomTargets(e.target.value)}
+              disabled={props.disabled || (scopeToSelection && props.selection.objectIds.length > 0)}
+            />
+          ) : null}
+          <button
+            className="whitespace-nowrap rounded-xl bg-foreground px-3 py-2 text-sm font-medium text-background hover:bg-foreground/90 disabled:cursor-not-allowed disabled:opacity-60"
+            type="submit"
+            disabled={props.disabled || isPending || proposal !== null}
+          >
+            {isPending ? "Enviando..." : "Enviar"}
+          </button>
+        </div>
+        {props.selection.objectIds.length > 0 ? (
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={scopeToSelection}
+              onChange={(e) => setScopeToSelection(e.target.checked)}
+              disabled={props.disabled}
+            />
+            Editar só a seleção ({props.selection.objectIds.length} elemento(s) no slide{" "}
+            {props.selection.slideIndex})
+          </label>
+        ) : null}
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={props.forceNewImage}
+            onChange={(e) => props.onForceNewImageChange(e.target.checked)}
+            disabled={props.disabled}
+          />
+          Forçar nova variação de imagem (ignorar imagens já geradas)
+        </label>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={reviewFirst}
+            onChange={(e) => setReviewFirst(e.target.checked)}
+            disabled={props.disabled}
+          />
+          Revisar alterações antes de aplicar
+        </label>
+      </form>
+
+      <div className="text-xs text-muted-foreground">
+        Use locks para proteger elementos contra alterações automáticas.
+      </div>
+    </section>
+  );
+}
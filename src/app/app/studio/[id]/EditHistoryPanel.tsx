@@ -0,0 +1,85 @@
+"use client";
+
+import * as React from "react";
+import type { EditHistoryItem } from "@/lib/db/types";
+import { studioRevertEditInline } from "./actions";
+
+type RevertSuccess = Extract<Awaited<ReturnType<typeof studioRevertEditInline>>, { ok: true }>;
+
+function formatTime(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ""
+    : date.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function EditHistoryPanel(props: {
+  carouselId: string;
+  history: EditHistoryItem[];
+  disabled: boolean;
+  onReverted: (res: RevertSuccess) => void;
+  onError: (message: string | null) => void;
+}) {
+  const [isPending, startTransition] = React.useTransition();
+  const [notice, setNotice] = React.useState<string | null>(null);
+
+  if (props.history.length === 0) return null;
+
+  const revert = (editId: string) => {
+    if (isPending || props.disabled) return;
+    startTransition(async () => {
+      const res = await studioRevertEditInline({ carouselId: props.carouselId, editId });
+      if (!res.ok) {
+        props.onError(
+          res.error === "UNAUTHENTICATED"
+            ? "Você precisa entrar novamente."
+            : String(res.error ?? "Falha ao reverter a edição.")
+        );
+        return;
+      }
+      props.onError(null);
+      setNotice(res.summary);
+      props.onReverted(res);
+    });
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border bg-background px-4 py-3">
+      <div className="text-base font-medium">Histórico de edições</div>
+      <ul className="max-h-64 space-y-2 overflow-y-auto pr-1">
+        {props.history.map((item, idx) => (
+          <li
+            key={item.id ?? `legacy-${idx}`}
+            className="flex items-start justify-between gap-2 rounded-xl border px-3 py-2 text-xs"
+          >
+            <div className="min-w-0">
+              <div className="text-muted-foreground">
+                {formatTime(item.at)}
+                {item.slideIndex ? ` · Slide ${item.slideIndex}` : ""}
+                {item.kind === "revert" ? " · Reversão" : ""}
+              </div>
+              <div className="truncate text-sm" title={item.instruction}>
+                {item.instruction || "—"}
+              </div>
+              <div className="text-muted-foreground">
+                {item.applied} alteraç{item.applied === 1 ? "ão" : "ões"}
+                {item.revertedAt ? " · Revertida" : ""}
+              </div>
+            </div>
+            {item.revertible && item.id ? (
+              <button
+                type="button"
+                className="whitespace-nowrap rounded-lg border px-2 py-1 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-60"
+                onClick={() => revert(item.id as string)}
+                disabled={props.disabled || isPending}
+              >
+                {item.kind === "revert" ? "Desfazer reversão" : "Reverter"}
+              </button>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+      {notice ? <div className="text-xs text-muted-foreground">{notice}</div> : null}
+    </section>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import * as React from "react";
+import type { EditSlideDiff } from "@/lib/studio/edit_diff";
+
+const OP_LABEL: Record<string, string> = {
+  set_text: "Texto",
+  set_style: "Estilo",
+  set_asset: "Imagem",
+  regenerate_image: "Nova imagem",
+  move: "Posição",
+  resize: "Tamanho",
+  add_object: "Novo elemento",
+  delete_object: "Remover elemento",
+  set_background: "Fundo",
+  add_slide: "Novo slide",
+  delete_slide: "Remover slide",
+  duplicate_slide: "Duplicar slide",
+  reorder_slides: "Reordenar slides",
+  set_global_palette: "Paleta global"
+};
+
+const STATUS_LABEL: Record<string, string> = {
+  locked: "bloqueado por lock",
+  missing: "não aplicável"
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "number") return String(Math.round(value * 100) / 100);
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 159)}…` : text;
+}
+
+export default function EditPreviewPanel(props: {
+  summary: string;
+  diff: EditSlideDiff[];
+  opCount: number;
+  disabled: boolean;
+  onResolve: (acceptedOps: number[]) => void;
+}) {
+  // Ops that cannot apply (locked/missing) start unchecked.
+  const [selected, setSelected] = React.useState<Set<number>>(() => {
+    const initial = new Set<number>();
+    for (const slide of props.diff)
+      for (const object of slide.objects)
+        for (const op of object.ops) if (op.status === "ok") initial.add(op.opIndex);
+    return initial;
+  });
+
+  const toggle = (opIndex: number, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(opIndex);
+      else next.delete(opIndex);
+      return next;
+    });
+
+  return (
+    <div className="space-y-2 rounded-xl border border-amber-300 bg-amber-50/50 px-3 py-2 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">Revisar alterações propostas</div>
+        <span className="text-xs text-muted-foreground">
+          {selected.size}/{props.opCount} selecionadas
+        </span>
+      </div>
+      {props.summary ? <div className="text-xs text-muted-foreground">{props.summary}</div> : null}
+
+      <div className="max-h-72 space-y-2 overflow-y-auto pr-1">
+        {props.diff.map((slide) => (
+          <div key={`${slide.slideIndex}:${slide.slideId}`} className="space-y-1">
+            <div className="text-[10px] uppercase tracking-wide text-muted-foreground">
+              {slide.slideIndex === null ? "Carrossel" : `Slide ${slide.slideIndex}`}
+            </div>
+            {slide.objects.map((object) => (
+              <div
+                key={object.objectId ?? "slide"}
+                className="rounded-lg border bg-background px-2 py-1.5"
+              >
+                <div className="text-xs font-medium">
+                  {object.objectId ?? (slide.slideIndex === null ? "Todos os slides" : "Slide")}
+                  {object.objectType ? (
+                    <span className="ml-1 font-normal text-muted-foreground">
+                      ({object.objectType})
+                    </span>
+                  ) : null}
+                </div>
+                {object.ops.map((op) => (
+                  <label key={op.opIndex} className="mt-1 flex items-start gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5"
+                      checked={selected.has(op.opIndex)}
+                      onChange={(e) => toggle(op.opIndex, e.target.checked)}
+                      disabled={props.disabled || op.status !== "ok"}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-muted-foreground">
+                        {OP_LABEL[op.op] ?? op.op}
+                        {op.status !== "ok" ? (
+                          <span className="ml-1 text-red-600">({STATUS_LABEL[op.status]})</span>
+                        ) : null}
+                      </div>
+                      {op.changes.map((change) => (
+                        <div key={change.field} className="break-words">
+                          <span className="text-muted-foreground">{change.field}: </span>
+                          <span className="line-through opacity-60">{formatValue(change.before)}</span>
+                          {" → "}
+                          <span className="font-medium">{formatValue(change.after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          className="rounded-xl bg-foreground px-3 py-1.5 text-xs font-medium text-background hover:bg-foreground/90 disabled:cursor-not-allowed disabled:opacity-60"
+          onClick={() => props.onResolve(Array.from({ length: props.opCount }, (_, i) => i))}
+          disabled={props.disabled}
+        >
+          Aplicar tudo
+        </button>
+        <button
+          type="button"
+          className="rounded-xl border px-3 py-1.5 text-xs font-medium hover:bg-muted disabled:cursor-not-allowed disabled:opacity-60"
+          onClick={() => props.onResolve(Array.from(selected).sort((a, b) => a - b))}
+          disabled={props.disabled || selected.size === 0}
+        >
+          Aplicar selecionadas ({selected.size})
+        </button>
+        <button
+          type="button"
+          className="rounded-xl border px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-muted disabled:cursor-not-allowed disabled:opacity-60"
+          onClick={() => props.onResolve([])}
+          disabled={props.disabled}
+        >
+          Descartar
+        </button>
+      </div>
+    </div>
+  );
+}
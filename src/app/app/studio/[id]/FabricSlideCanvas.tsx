@@ -14,6 +14,7 @@ import {
   filters,
   type FabricObject
 } from "fabric";
+import type { LockKind } from "@/lib/db/types";
 
 type TextVariant = "title" | "body" | "tagline" | "cta" | "custom";
 
@@ -579,6 +580,23 @@ function getActiveIds(canvas: Canvas): string[] {
   return id ? [id] : [];
 }
 
+// Locked kinds map to Fabric flags: position freezes move/scale/rotate, content freezes text
+// editing. Style and image locks are enforced by the toolbars and by delete/paste.
+function applyLockFlags(obj: FabricObject, kinds: readonly LockKind[] | undefined) {
+  const position = Boolean(kinds?.includes("position"));
+  obj.set({
+    lockMovementX: position,
+    lockMovementY: position,
+    lockScalingX: position,
+    lockScalingY: position,
+    lockRotation: position,
+    hasControls: !position
+  });
+  if ((obj as unknown as { type?: unknown }).type === "textbox") {
+    (obj as unknown as { editable: boolean }).editable = !kinds?.includes("content");
+  }
+}
+
 function isAnyEditing(canvas: Canvas) {
   return canvas
     .getObjects()
@@ -602,6 +620,8 @@ type Props = {
   onSlideChange: (next: SlideV1) => void;
   onSelectionChange?: (ids: string[]) => void;
   styleDefaults?: StyleDefaults;
+  /** Locked kinds per object id on this slide. */
+  lockedKindsById?: Record<string, LockKind[]>;
 };
 
 const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
@@ -614,7 +634,8 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
       layoutKey,
       onSlideChange,
       onSelectionChange,
-      styleDefaults
+      styleDefaults,
+      lockedKindsById
     },
     ref
   ) {
@@ -634,7 +655,10 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     objects: SlideObjectV1[];
     pasteN: number;
     slideKey: string | number | null;
+    /** Copied from locked objects: pasting would duplicate protected content. */
+    locked: boolean;
   } | null>(null);
+  const lockedKindsRef = React.useRef<Record<string, LockKind[]>>({});
   const accentColor = styleDefaults?.palette?.accent ?? "#111827";
   const toolbarAccent = styleDefaults?.palette?.accent ?? "#7c3aed";
   const onSelectionChangeRef = React.useRef<Props["onSelectionChange"]>(null);
@@ -733,6 +757,14 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     onSlideChangeRef.current = onSlideChange;
   }, [onSlideChange]);
 
+  const isObjectLocked = React.useCallback(
+    (id: string, kind?: LockKind) => {
+      const kinds = lockedKindsRef.current[id] ?? [];
+      return kind ? kinds.includes(kind) : kinds.length > 0;
+    },
+    []
+  );
+
   const emit = React.useCallback((next: SlideV1) => {
     // Keep the ref in sync immediately so Fabric event handlers that depend
     // on `slideRef.current` don't "revert" changes between rapid interactions
@@ -851,7 +883,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     }
 
     const id = getObjectId(active);
-    if (!id) {
+    if (!id || isObjectLocked(id, "style")) {
       setTextToolbar(null);
       return;
     }
@@ -1074,7 +1106,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
       markerHeight,
       markerAngle
     });
-  }, []);
+  }, [isObjectLocked]);
 
   const updateImageToolbar = React.useCallback(() => {
     const canvas = fabricRef.current;
@@ -1088,7 +1120,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     }
 
     const id = getObjectId(active);
-    if (!id) {
+    if (!id || isObjectLocked(id, "style")) {
       setImageToolbar(null);
       return;
     }
@@ -1172,7 +1204,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
       filterColor,
       filterOpacity
     });
-  }, [toolbarAccent]);
+  }, [isObjectLocked, toolbarAccent]);
 
   const updateTextToolbarRef = React.useRef<() => void>(() => {});
   const updateImageToolbarRef = React.useRef<() => void>(() => {});
@@ -1991,6 +2023,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     if (isAnyEditing(canvas)) return false;
     const ids = getActiveIds(canvas);
     if (ids.length === 0) return false;
+    if (ids.some((id) => isObjectLocked(id))) return false;
 
     for (const o of canvas.getObjects()) {
       const oid = getObjectId(o as FabricObject);
@@ -2006,6 +2039,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
   }, [
     assetUrlsById,
     emit,
+    isObjectLocked,
     loadImageElement,
     queueFontReflow,
     renderKey,
@@ -2026,10 +2060,11 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     clipboardRef.current = {
       objects: selected.map((o) => ({ ...o })),
       pasteN: 0,
-      slideKey: renderKey ?? null
+      slideKey: renderKey ?? null,
+      locked: ids.some((id) => isObjectLocked(id))
     };
     return true;
-  }, [renderKey]);
+  }, [isObjectLocked, renderKey]);
 
   const paste = React.useCallback(() => {
     const canvas = fabricRef.current;
@@ -2037,7 +2072,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     if (isAnyEditing(canvas)) return false;
 
     const clip = clipboardRef.current;
-    if (!clip || clip.objects.length === 0) return false;
+    if (!clip || clip.objects.length === 0 || clip.locked) return false;
     const sameSlide = clip.slideKey === renderKey;
     clip.pasteN += 1;
     const dx = sameSlide ? 24 * clip.pasteN : 0;
@@ -2384,10 +2419,24 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     const emitSelection = () => {
       const cb = onSelectionChangeRef.current;
       const ids = getActiveIds(canvas);
+      // A multi-selection moves its members together, so it inherits their position locks.
+      const active = canvas.getActiveObject() as FabricObject | null;
+      if (active && ids.length > 1) {
+        const positionLocked = ids.some((id) =>
+          (lockedKindsRef.current[id] ?? []).includes("position")
+        );
+        applyLockFlags(active, positionLocked ? ["position"] : []);
+      }
       cb?.(ids);
       scheduleToolbarUpdate();
     };
 
+    // Covers hydration, paste and async image loads alike.
+    const onObjectAdded = (e: { target?: FabricObject }) => {
+      const id = e.target ? getObjectId(e.target) : null;
+      if (e.target && id) applyLockFlags(e.target, lockedKindsRef.current[id]);
+    };
+
     const onEditingEntered = (e: { target?: FabricObject }) => {
       const target = e.target as unknown as { initDimensions?: () => void } | undefined;
       target?.initDimensions?.();
@@ -2917,6 +2966,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
       canvas.skipTargetFind = false;
     };
 
+    canvas.on("object:added", onObjectAdded);
     canvas.on("selection:created", emitSelection);
     canvas.on("selection:updated", emitSelection);
     canvas.on("selection:cleared", () => {
@@ -3030,6 +3080,7 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
     canvas.on("mouse:down:before", onMouseDownBefore);
     canvas.on("mouse:up", onMouseUp);
     return () => {
+      canvas.off("object:added", onObjectAdded);
       canvas.off("selection:created", emitSelection);
       canvas.off("selection:updated", emitSelection);
       canvas.off("selection:cleared");
@@ -3412,6 +3463,25 @@ const FabricSlideCanvas = React.forwardRef<FabricSlideCanvasHandle, Props>(
       }
   }, [assetUrlsById, fitCanvas, slide]);
 
+  React.useEffect(() => {
+    lockedKindsRef.current = lockedKindsById ?? {};
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+    for (const o of canvas.getObjects()) {
+      const id = getObjectId(o as FabricObject);
+      if (id) applyLockFlags(o as FabricObject, lockedKindsRef.current[id]);
+    }
+    const active = canvas.getActiveObject() as
+      | (FabricObject & { isEditing?: boolean; exitEditing?: () => void })
+      | null;
+    const activeId = active ? getObjectId(active) : null;
+    if (active?.isEditing && activeId && isObjectLocked(activeId, "content")) {
+      active.exitEditing?.();
+    }
+    scheduleToolbarUpdate();
+    canvas.requestRenderAll();
+  }, [isObjectLocked, lockedKindsById, scheduleToolbarUpdate]);
+
   React.useEffect(() => {
     renderSlide();
     // Intentionally only when `renderKey` changes (slide switching / external rehydrate),
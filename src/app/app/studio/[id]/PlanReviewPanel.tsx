@@ -0,0 +1,170 @@
+"use client";
+
+import * as React from "react";
+import { studioApprovePlan, studioCancelGeneration } from "./actions";
+
+export type PendingPlan = {
+  slides: Array<{
+    index: number;
+    text: { tagline?: string; title: string; body?: string; cta?: string };
+    images: Array<{ slotId: string | null; prompt: string }>;
+  }>;
+};
+
+type SlideDraft = {
+  index: number;
+  tagline: string;
+  title: string;
+  body: string;
+  cta: string;
+  imagePrompts: string[];
+};
+
+function toDrafts(plan: PendingPlan): SlideDraft[] {
+  return plan.slides.map((slide) => ({
+    index: slide.index,
+    tagline: slide.text.tagline ?? "",
+    title: slide.text.title,
+    body: slide.text.body ?? "",
+    cta: slide.text.cta ?? "",
+    imagePrompts: slide.images.map((img) => img.prompt)
+  }));
+}
+
+export default function PlanReviewPanel(props: {
+  carouselId: string;
+  currentSlide: number;
+  plan: PendingPlan;
+}) {
+  const [drafts, setDrafts] = React.useState<SlideDraft[]>(() => toDrafts(props.plan));
+  const [openIndex, setOpenIndex] = React.useState<number | null>(
+    props.plan.slides[0]?.index ?? null
+  );
+
+  const update = (index: number, patch: Partial<SlideDraft>) => {
+    setDrafts((prev) => prev.map((d) => (d.index === index ? { ...d, ...patch } : d)));
+  };
+
+  const planEditsJson = React.useMemo(
+    () =>
+      JSON.stringify({
+        slides: drafts.map((d) => ({
+          index: d.index,
+          text: { tagline: d.tagline, title: d.title, body: d.body, cta: d.cta },
+          imagePrompts: d.imagePrompts
+        }))
+      }),
+    [drafts]
+  );
+
+  const missingTitle = drafts.some((d) => d.title.trim().length === 0);
+  const totalImages = drafts.reduce((sum, d) => sum + d.imagePrompts.length, 0);
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-amber-200 bg-amber-50/40 px-4 py-3">
+      <div className="flex items-center justify-between">
+        <div className="text-base font-medium">Revisar plano</div>
+        <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+          {drafts.length} slides • {totalImages} imagens
+        </span>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Ajuste textos e prompts antes de gerar as imagens. Nada é gerado até você aprovar.
+      </div>
+
+      <div className="space-y-2">
+        {drafts.map((d) => {
+          const open = openIndex === d.index;
+          return (
+            <div key={d.index} className="rounded-xl border bg-background">
+              <button
+                type="button"
+                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm"
+                onClick={() => setOpenIndex(open ? null : d.index)}
+              >
+                <span className="truncate">
+                  <span className="text-muted-foreground">Slide {d.index}:</span>{" "}
+                  {d.title || <span className="text-red-700">sem título</span>}
+                </span>
+                <span className="text-xs text-muted-foreground">{open ? "−" : "+"}</span>
+              </button>
+              {open ? (
+                <div className="space-y-2 border-t px-3 py-3">
+                  {(["tagline", "title", "body", "cta"] as const).map((field) => (
+                    <label key={field} className="block space-y-1">
+                      <span className="text-xs font-medium text-muted-foreground">
+                        {field === "tagline"
+                          ? "Tagline"
+                          : field === "title"
+                            ? "Título"
+                            : field === "body"
+                              ? "Corpo"
+                              : "CTA"}
+                      </span>
+                      {field === "body" ? (
+                        <textarea
+                          className="h-20 w-full rounded-xl border bg-background p-2 text-sm"
+                          value={d.body}
+                          onChange={(e) => update(d.index, { body: e.target.value })}
+                        />
+                      ) : (
+                        <input
+                          className="w-full rounded-xl border bg-background px-2 py-1.5 text-sm"
+                          value={d[field]}
+                          onChange={(e) => update(d.index, { [field]: e.target.value })}
+                        />
+                      )}
+                    </label>
+                  ))}
+                  {d.imagePrompts.map((prompt, position) => (
+                    <label key={position} className="block space-y-1">
+                      <span className="text-xs font-medium text-muted-foreground">
+                        Prompt da imagem{" "}
+                        {props.plan.slides.find((s) => s.index === d.index)?.images[position]
+                          ?.slotId ?? "fundo"}
+                      </span>
+                      <textarea
+                        className="h-24 w-full rounded-xl border bg-background p-2 text-sm"
+                        value={prompt}
+                        onChange={(e) =>
+                          update(d.index, {
+                            imagePrompts: d.imagePrompts.map((p, i) =>
+                              i === position ? e.target.value : p
+                            )
+                          })
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      <form action={studioApprovePlan} className="space-y-2">
+        <input type="hidden" name="carouselId" value={props.carouselId} />
+        <input type="hidden" name="currentSlide" value={props.currentSlide} />
+        <input type="hidden" name="planEditsJson" value={planEditsJson} />
+        <button
+          className="w-full rounded-xl bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-60"
+          type="submit"
+          disabled={missingTitle}
+        >
+          Aprovar e gerar imagens
+        </button>
+      </form>
+      <form action={studioCancelGeneration}>
+        <input type="hidden" name="carouselId" value={props.carouselId} />
+        <input type="hidden" name="currentSlide" value={props.currentSlide} />
+        <button
+          className="w-full rounded-xl border bg-background px-3 py-2 text-sm hover:bg-secondary"
+          type="submit"
+        >
+          Descartar plano
+        </button>
+      </form>
+    </section>
+  );
+}
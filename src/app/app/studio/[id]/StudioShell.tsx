@@ -21,12 +21,14 @@ import {
   UserCircle2
 } from "lucide-react";
 import {
+  studioCancelGeneration,
   studioCleanup,
   studioCreatePalette,
   studioCreateTemplate,
   studioDeletePalette,
-  studioEditInline,
   studioGenerate,
+  studioRegenerateSlideInline,
+  studioRerenderWithTemplateInline,
   studioSaveEditorState,
   studioSaveEditorStateInline,
   studioSaveLocksInline,
@@ -34,6 +36,9 @@ import {
   studioUploadReferences
 } from "./actions";
 import { MotionDock, MotionDockItem } from "./MotionDock";
+import ChatPanel from "./ChatPanel";
+import EditHistoryPanel from "./EditHistoryPanel";
+import PlanReviewPanel, { type PendingPlan } from "./PlanReviewPanel";
 import FabricSlideCanvas, {
   type FabricSlideCanvasHandle,
   type SlideV1
@@ -47,7 +52,21 @@ import {
   type TemplateDataV1,
   type TemplateVisualV1
 } from "@/lib/studio/template_shared";
-import type { CarouselEditorState } from "@/lib/db/types";
+import {
+  BACKGROUND_LOCK_ID,
+  LOCK_KINDS,
+  lockedKinds,
+  normalizeElementLocks,
+  setLockedKinds,
+  slideLockKey,
+  type ElementLocks
+} from "@/lib/studio/locks";
+import type {
+  CarouselChatMessage,
+  CarouselEditorState,
+  EditHistoryItem,
+  LockKind
+} from "@/lib/db/types";
 
 type Asset = {
   id: string;
@@ -66,6 +85,19 @@ type CreatorProfile = {
 
 type SlideLike = Record<string, unknown>;
 
+const GENERATION_STAGE_LABELS: Record<string, string> = {
+  queued: "Na fila",
+  text: "Planejando textos",
+  failed_text: "Falha ao gerar os textos",
+  aesthetic_review: "Revisão estética",
+  aesthetic_review_failed: "Revisão estética falhou; seguindo com o plano original",
+  awaiting_approval: "Plano pronto para revisão",
+  plan_approved: "Plano aprovado",
+  images: "Gerando imagens",
+  done: "Concluído",
+  cancelled: "Cancelado"
+};
+
 function clampInt(value: number, min: number, max: number) {
   const v = Number.isFinite(value) ? Math.trunc(value) : min;
   if (v < min) return min;
@@ -73,6 +105,13 @@ function clampInt(value: number, min: number, max: number) {
   return v;
 }
 
+const LOCK_KIND_LABEL: Record<LockKind, string> = {
+  content: "Conteúdo",
+  style: "Estilo",
+  position: "Posição",
+  image: "Imagem"
+};
+
 function safeParseJson<T>(value: string): T | null {
   try {
     return JSON.parse(value) as T;
@@ -103,6 +142,8 @@ function parseBrandingConfig(input: Record<string, unknown>): BrandingConfig {
 type Flash = {
   saved: boolean;
   locksSaved: boolean;
+  cancelled: boolean;
+  planApproved: boolean;
   edited: boolean;
   cleaned: number | null;
   error: string | null;
@@ -124,7 +165,11 @@ type Props = {
     imagesDone: number | null;
     imagesTotal: number | null;
     imagesFailed: number | null;
+    lockedSlides: { kept: number[]; dropped: number[] };
   };
+  pendingPlan: PendingPlan | null;
+  initialMessages: CarouselChatMessage[];
+  initialEditHistory: EditHistoryItem[];
   assets: {
     generated: Asset[];
     reference: Asset[];
@@ -470,19 +515,25 @@ function createStudioId(prefix: string) {
 function Switch({
   checked,
   onCheckedChange,
-  label
+  label,
+  disabled,
+  title
 }: {
   checked: boolean;
   onCheckedChange: (next: boolean) => void;
   label: string;
+  disabled?: boolean;
+  title?: string;
 }) {
   return (
     <button
       type="button"
       role="switch"
       aria-checked={checked}
+      disabled={disabled}
+      title={title}
       onClick={() => onCheckedChange(!checked)}
-      className="flex items-center justify-between gap-3"
+      className="flex items-center justify-between gap-3 disabled:cursor-not-allowed disabled:opacity-60"
     >
       <span className="text-sm text-muted-foreground">{label}</span>
       <span
@@ -502,6 +553,20 @@ function Switch({
   );
 }
 
+/** Slides a rerun kept (or could not keep) because they had locks no fresh slide matched. */
+function describeLockedSlides(lockedSlides: { kept: number[]; dropped: number[] }) {
+  const parts: string[] = [];
+  if (lockedSlides.kept.length > 0) {
+    parts.push(`Slides bloqueados mantidos: ${lockedSlides.kept.join(", ")}.`);
+  }
+  if (lockedSlides.dropped.length > 0) {
+    parts.push(
+      `Slides bloqueados que não couberam no limite de slides: ${lockedSlides.dropped.join(", ")}.`
+    );
+  }
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
 function preventExponentKey(e: React.KeyboardEvent<HTMLInputElement>) {
   if (e.key === "e" || e.key === "E") e.preventDefault();
 }
@@ -638,20 +703,47 @@ export default function StudioShell(props: Props) {
     "generated"
   );
   const [extraGeneratedAssets, setExtraGeneratedAssets] = React.useState<Asset[]>([]);
+  const appendGeneratedAssets = React.useCallback((assets: unknown[]) => {
+    if (assets.length === 0) return;
+    setExtraGeneratedAssets((prev) => {
+      const existing = new Set(prev.map((a) => a.id));
+      const next = [...prev];
+      for (const a of assets) {
+        if (!a || typeof a !== "object") continue;
+        const id =
+          "id" in a && typeof (a as { id?: unknown }).id === "string"
+            ? (a as { id: string }).id
+            : null;
+        const signedUrl =
+          "signedUrl" in a && typeof (a as { signedUrl?: unknown }).signedUrl === "string"
+            ? (a as { signedUrl: string }).signedUrl
+            : null;
+        if (!id || existing.has(id)) continue;
+        existing.add(id);
+        next.push({ id, asset_type: "generated", signedUrl });
+      }
+      return next;
+    });
+  }, []);
   const [extraReferenceAssets, setExtraReferenceAssets] = React.useState<Asset[]>([]);
   const [referenceUploadError, setReferenceUploadError] = React.useState<string | null>(null);
   const [referenceUploading, setReferenceUploading] = React.useState(false);
   const MAX_REFERENCE_UPLOAD_BYTES = 500 * 1024 * 1024;
   const canvasWrapperRef = React.useRef<HTMLDivElement | null>(null);
   const [activeDock, setActiveDock] = React.useState<DockItem>("generate");
-  const [editInstruction, setEditInstruction] = React.useState("");
-  const [editTarget, setEditTarget] = React.useState<string>(() => String(props.initialSlideIndex));
-  const [lastEdit, setLastEdit] = React.useState<{
-    applied: number;
-    blockedByLock: number;
-    ignored: number;
-    missing: number;
-    summary: string | null;
+  const [regenInstruction, setRegenInstruction] = React.useState("");
+  // Skips the workspace image cache on the next edit/regeneration.
+  const [forceNewImage, setForceNewImage] = React.useState(false);
+  const [editHistory, setEditHistory] = React.useState<EditHistoryItem[]>(
+    props.initialEditHistory
+  );
+  const [rerenderTemplateId, setRerenderTemplateId] = React.useState("");
+  const [rerenderStatus, setRerenderStatus] = React.useState<string | null>(null);
+  const [lastRegen, setLastRegen] = React.useState<{
+    slideIndex: number;
+    imagesDone: number;
+    imagesFailed: number;
+    keptLocked: number;
   } | null>(null);
   const [editorState, setEditorState] = React.useState<Record<string, unknown>>(
     () =>
@@ -660,13 +752,38 @@ export default function StudioShell(props: Props) {
         slides: props.slides
       }
   );
-  const [elementLocks, setElementLocks] = React.useState<
-    Record<string, Record<string, boolean>>
-  >(() => {
-    const parsed = safeParseJson<Record<string, unknown>>(props.defaults.elementLocksJson);
-    if (!parsed || typeof parsed !== "object") return {};
-    return parsed as unknown as Record<string, Record<string, boolean>>;
-  });
+  const [elementLocks, setElementLocks] = React.useState<ElementLocks>(() =>
+    normalizeElementLocks(safeParseJson<unknown>(props.defaults.elementLocksJson), props.slides)
+  );
+  // Slide-level lock checks for editors that write outside the canvas (palette, overlay,
+  // asset slots); `slideIndex` is 1-based.
+  const isBackgroundLocked = React.useCallback(
+    (slide: unknown, slideIndex: number) =>
+      lockedKinds({
+        locks: elementLocks,
+        slideId: slideLockKey(slide, slideIndex),
+        objectId: BACKGROUND_LOCK_ID
+      }).length > 0,
+    [elementLocks]
+  );
+  const isImageSlotLocked = React.useCallback(
+    (slide: unknown, slideIndex: number, slotId: string) => {
+      const slideId = slideLockKey(slide, slideIndex);
+      const objects =
+        slide && typeof slide === "object" && Array.isArray((slide as Record<string, unknown>).objects)
+          ? ((slide as Record<string, unknown>).objects as Array<Record<string, unknown>>)
+          : [];
+      const ids = new Set([slotId, `image_${slotId}`]);
+      for (const o of objects) {
+        if (!o || o.type !== "image" || typeof o.id !== "string") continue;
+        if (o.slotId === slotId) ids.add(o.id);
+      }
+      return [...ids].some((objectId) =>
+        lockedKinds({ locks: elementLocks, slideId, objectId }).includes("image")
+      );
+    },
+    [elementLocks]
+  );
   const historyRef = React.useRef<
     Map<number, { past: string[]; future: string[]; lastPushedAt: number }>
   >(new Map());
@@ -820,21 +937,16 @@ export default function StudioShell(props: Props) {
   const selectedSlide =
     slidesFromState.length > 0 ? slidesFromState[selectedSlideIndex - 1] : null;
 
-  const currentSlideKey = React.useMemo(() => {
-    const rawId =
-      selectedSlide && typeof selectedSlide === "object"
-        ? (selectedSlide as Record<string, unknown>).id
-        : null;
-    return typeof rawId === "string" && rawId.trim().length > 0
-      ? rawId
-      : `slide_${selectedSlideIndex}`;
-  }, [selectedSlide, selectedSlideIndex]);
+  const currentSlideKey = React.useMemo(
+    () => slideLockKey(selectedSlide, selectedSlideIndex),
+    [selectedSlide, selectedSlideIndex]
+  );
   const editorStateJson = React.useMemo(
     () => JSON.stringify(editorState, null, 2),
     [editorState]
   );
   const elementLocksJson = React.useMemo(
-    () => JSON.stringify(elementLocks ?? {}, null, 2),
+    () => JSON.stringify(elementLocks, null, 2),
     [elementLocks]
   );
 
@@ -891,6 +1003,15 @@ export default function StudioShell(props: Props) {
     return Array.from(byId.values());
   }, [templateRecords]);
 
+  // Row ids for saved templates: that is what the server resolves against.
+  const rerenderTemplateOptions = React.useMemo(
+    () => [
+      ...BUILTIN_TEMPLATES.map((t) => ({ id: t.id, name: t.name })),
+      ...templateRecords.map((t) => ({ id: t.id, name: t.name }))
+    ],
+    [templateRecords]
+  );
+
   const selectedTemplateId =
     typeof currentGlobal.templateId === "string"
       ? currentGlobal.templateId
@@ -1648,7 +1769,7 @@ export default function StudioShell(props: Props) {
                   unknown
                 >)
               : {};
-          if (shouldApply) {
+          if (shouldApply && !isBackgroundLocked(s, idx + 1)) {
             background.color = palette.background;
           }
           const nextSlide = { ...slideObj, background, objects: nextObjects } as SlideV1;
@@ -1677,7 +1798,7 @@ export default function StudioShell(props: Props) {
       setDirty(true);
       setCanvasRevision((v) => v + 1);
     },
-    [props.slides, selectedSlideIndex]
+    [isBackgroundLocked, props.slides, selectedSlideIndex]
   );
 
   const clearSlidePaletteOverride = React.useCallback(() => {
@@ -1716,7 +1837,7 @@ export default function StudioShell(props: Props) {
               unknown
             >)
           : {};
-      background.color = palette.background;
+      if (!isBackgroundLocked(slide, idx + 1)) background.color = palette.background;
       const nextSlide = { ...slideObj, background, objects: nextObjects };
       delete (nextSlide as Record<string, unknown>).paletteId;
       delete (nextSlide as Record<string, unknown>).paletteData;
@@ -1725,7 +1846,7 @@ export default function StudioShell(props: Props) {
     });
     setDirty(true);
     setCanvasRevision((v) => v + 1);
-  }, [props.slides, selectedSlideIndex]);
+  }, [isBackgroundLocked, props.slides, selectedSlideIndex]);
 
   const applyTypography = React.useCallback(
     (typography: TypographyV1) => {
@@ -1830,6 +1951,7 @@ export default function StudioShell(props: Props) {
         const nextSlides = prevSlides.map((s, idx) => {
           if (!s || typeof s !== "object") return s;
           if (scope === "slide" && idx !== targetIndex) return s;
+          if (isBackgroundLocked(s, idx + 1)) return s;
           const slideObj = s as Record<string, unknown>;
           const background =
             slideObj.background && typeof slideObj.background === "object"
@@ -1869,7 +1991,7 @@ export default function StudioShell(props: Props) {
       setDirty(true);
       setCanvasRevision((v) => v + 1);
     },
-    [props.slides, selectedSlideIndex]
+    [isBackgroundLocked, props.slides, selectedSlideIndex]
   );
 
   const clearSlideOverlayOverride = React.useCallback(() => {
@@ -1880,6 +2002,7 @@ export default function StudioShell(props: Props) {
       const idx = clampInt(selectedSlideIndex - 1, 0, prevSlides.length - 1);
       const slide = idx >= 0 && idx < prevSlides.length ? prevSlides[idx] : null;
       if (!slide || typeof slide !== "object") return prev;
+      if (isBackgroundLocked(slide, idx + 1)) return prev;
       const slideObj = slide as Record<string, unknown>;
       const background =
         slideObj.background && typeof slideObj.background === "object"
@@ -1896,7 +2019,7 @@ export default function StudioShell(props: Props) {
     });
     setDirty(true);
     setCanvasRevision((v) => v + 1);
-  }, [globalOverlay, props.slides, selectedSlideIndex]);
+  }, [globalOverlay, isBackgroundLocked, props.slides, selectedSlideIndex]);
 
   const [customPalette, setCustomPalette] = React.useState<PaletteV1>(() => {
     return parsePaletteV1(currentGlobal.paletteData) ?? DEFAULT_PALETTE;
@@ -2127,11 +2250,81 @@ export default function StudioShell(props: Props) {
     [activePalette, activePaletteKey, applyPaletteColors, paletteOptions, paletteScope]
   );
 
-  const imagesTotal = props.progress.imagesTotal;
-  const imagesDone = props.progress.imagesDone;
-  const imagesFailed = props.progress.imagesFailed;
-  const isGenerating = props.generationStatus === "running";
+  const isGenerating =
+    props.generationStatus === "running" || props.generationStatus === "queued";
+  const [liveProgress, setLiveProgress] = React.useState<{
+    done: number;
+    failed: number;
+    total: number;
+  } | null>(null);
+  const [liveStage, setLiveStage] = React.useState<string | null>(null);
+  const [liveEvents, setLiveEvents] = React.useState<
+    Array<{ key: string; label: string; failed: boolean }>
+  >([]);
+  const imagesTotal = liveProgress?.total ?? props.progress.imagesTotal;
+  const imagesDone = liveProgress?.done ?? props.progress.imagesDone;
+  const imagesFailed = liveProgress?.failed ?? props.progress.imagesFailed;
+
+  // Generation runs in a background job; follow it over SSE and re-render once it ends.
+  React.useEffect(() => {
+    if (!isGenerating) return;
+    setLiveEvents([]);
+    const source = new EventSource(`/api/carousels/${props.carouselId}/generation/events`);
+    let seq = 0;
+    const pushEvent = (label: string, failed = false) => {
+      seq += 1;
+      const key = `${Date.now()}-${seq}`;
+      setLiveEvents((prev) => [{ key, label, failed }, ...prev].slice(0, 8));
+    };
+    const parse = (e: Event) =>
+      safeParseJson<Record<string, unknown>>((e as MessageEvent<string>).data) ?? {};
+
+    source.addEventListener("stage", (e) => {
+      const stage = parse(e).stage;
+      if (typeof stage !== "string") return;
+      setLiveStage(stage);
+      const label = GENERATION_STAGE_LABELS[stage];
+      if (label) pushEvent(label, stage.includes("failed"));
+    });
+    source.addEventListener("progress", (e) => {
+      const data = parse(e);
+      setLiveProgress({
+        done: Number(data.done ?? 0),
+        failed: Number(data.failed ?? 0),
+        total: Number(data.total ?? 0)
+      });
+    });
+    source.addEventListener("image", (e) => {
+      const data = parse(e);
+      const ready = data.status === "ready";
+      const slide = typeof data.slideIndex === "number" ? data.slideIndex : "?";
+      pushEvent(ready ? `Imagem do slide ${slide} pronta` : `Imagem do slide ${slide} falhou`, !ready);
+      if (ready && typeof data.assetId === "string") {
+        appendGeneratedAssets([{ id: data.assetId, signedUrl: data.signedUrl }]);
+      }
+    });
+    source.addEventListener("end", () => {
+      source.close();
+      router.refresh();
+    });
+
+    return () => source.close();
+  }, [appendGeneratedAssets, isGenerating, props.carouselId, router]);
+
+  const lastGenerationStatusRef = React.useRef(props.generationStatus);
+  React.useEffect(() => {
+    const previous = lastGenerationStatusRef.current;
+    lastGenerationStatusRef.current = props.generationStatus;
+    const wasGenerating = previous === "running" || previous === "queued";
+    if (!wasGenerating || props.generationStatus !== "succeeded") return;
+    const next = safeParseJson<Record<string, unknown>>(props.defaults.editorStateJson);
+    if (!next) return;
+    setEditorState(next);
+    setDirty(false);
+    setCanvasRevision((v) => v + 1);
+  }, [props.defaults.editorStateJson, props.generationStatus]);
 
+  const lockedSlidesNote = describeLockedSlides(props.progress.lockedSlides);
   const progressPct =
     typeof imagesTotal === "number" &&
     imagesTotal > 0 &&
@@ -2164,7 +2357,7 @@ export default function StudioShell(props: Props) {
   const saveLocksNow = React.useCallback(() => {
     if (!locksDirty || isPending) return;
     setSaveError(null);
-    const elementLocksJson = JSON.stringify(elementLocks ?? {}, null, 2);
+    const elementLocksJson = JSON.stringify(elementLocks, null, 2);
     startTransition(() => {
       studioSaveLocksInline({
         carouselId: props.carouselId,
@@ -2199,28 +2392,57 @@ export default function StudioShell(props: Props) {
     return () => window.clearTimeout(t);
   }, [locksDirty, elementLocks, saveLocksNow]);
 
+  function kindsOf(objectId: string) {
+    return lockedKinds({ locks: elementLocks, slideId: currentSlideKey, objectId });
+  }
+
   function isLocked(objectId: string) {
-    const bySlide = elementLocks?.[currentSlideKey];
-    return Boolean(bySlide && bySlide[objectId]);
+    return kindsOf(objectId).length > 0;
   }
 
+  // Locks (or unlocks) every kind at once; per-kind toggles live in the locks panel.
   const toggleLocksForSelection = React.useCallback(() => {
     if (selectedObjectIds.length === 0) return;
-    const allLocked = selectedObjectIds.every((id) => isLocked(id));
     setElementLocks((prev) => {
-      const next: Record<string, Record<string, boolean>> = { ...(prev ?? {}) };
-      const slideLocks: Record<string, boolean> = { ...(next[currentSlideKey] ?? {}) };
+      const allLocked = selectedObjectIds.every(
+        (id) => lockedKinds({ locks: prev, slideId: currentSlideKey, objectId: id }).length > 0
+      );
+      let next = prev;
       for (const id of selectedObjectIds) {
-        if (allLocked) delete slideLocks[id];
-        else slideLocks[id] = true;
+        next = setLockedKinds(next, {
+          slideId: currentSlideKey,
+          objectId: id,
+          kinds: allLocked ? [] : [...LOCK_KINDS]
+        });
       }
-      if (Object.keys(slideLocks).length === 0) delete next[currentSlideKey];
-      else next[currentSlideKey] = slideLocks;
       return next;
     });
     setLocksDirty(true);
   }, [currentSlideKey, selectedObjectIds]);
 
+  const toggleLockKindForSelection = React.useCallback(
+    (kind: LockKind) => {
+      if (selectedObjectIds.length === 0) return;
+      setElementLocks((prev) => {
+        const kindsFor = (id: string) =>
+          lockedKinds({ locks: prev, slideId: currentSlideKey, objectId: id });
+        const allHave = selectedObjectIds.every((id) => kindsFor(id).includes(kind));
+        let next = prev;
+        for (const id of selectedObjectIds) {
+          const kinds = kindsFor(id).filter((k) => k !== kind);
+          next = setLockedKinds(next, {
+            slideId: currentSlideKey,
+            objectId: id,
+            kinds: allHave ? kinds : [...kinds, kind]
+          });
+        }
+        return next;
+      });
+      setLocksDirty(true);
+    },
+    [currentSlideKey, selectedObjectIds]
+  );
+
   function getHistoryEntry(index: number) {
     const current = historyRef.current.get(index);
     if (current) return current;
@@ -2316,7 +2538,6 @@ export default function StudioShell(props: Props) {
   const showJson = activeDock === "json";
 
   const generateAction = studioGenerate;
-  const editInlineAction = studioEditInline;
   const saveEditorStateAction = studioSaveEditorState;
 
   const leftShiftPx = leftOpen ? 220 : 0;
@@ -2364,14 +2585,32 @@ export default function StudioShell(props: Props) {
     return (effectiveTemplate.images ?? [])
       .filter((img) => img.kind === "slot")
       .filter((img) => !filled.has(img.id))
-      .map((img) => ({ id: img.id, bounds: img.bounds }));
-  }, [canvasSlide.objects, effectiveTemplate.images]);
+      .map((img) => ({
+        id: img.id,
+        bounds: img.bounds,
+        locked: isImageSlotLocked(selectedSlide, selectedSlideIndex, img.id)
+      }));
+  }, [
+    canvasSlide.objects,
+    effectiveTemplate.images,
+    isImageSlotLocked,
+    selectedSlide,
+    selectedSlideIndex
+  ]);
+
+  const backgroundLocked = isBackgroundLocked(selectedSlide, selectedSlideIndex);
+  const overlayLocked = overlayScope === "slide" && backgroundLocked;
+  const slotPickerLocked = slotPicker
+    ? isImageSlotLocked(
+        slidesFromState[slotPicker.slideIndex - 1],
+        slotPicker.slideIndex,
+        slotPicker.slotId
+      )
+    : false;
 
   const lockedBadges = React.useMemo(() => {
-    const slideLocks = elementLocks?.[currentSlideKey] ?? {};
-    const ids = Object.entries(slideLocks)
-      .filter(([, v]) => Boolean(v))
-      .map(([id]) => id);
+    const slideLocks = elementLocks.slides[currentSlideKey] ?? {};
+    const ids = Object.keys(slideLocks);
     if (ids.length === 0) return [];
     const w = canvasSlide.width || 1080;
     const h = canvasSlide.height || 1080;
@@ -2386,7 +2625,12 @@ export default function StudioShell(props: Props) {
         if (x == null || y == null || width == null) return null;
         const px = Math.min(1, Math.max(0, (x + width) / w));
         const py = Math.min(1, Math.max(0, y / h));
-        return { id, leftPct: px * 100, topPct: py * 100 };
+        const kinds = slideLocks[id] ?? [];
+        const label =
+          kinds.length === LOCK_KINDS.length
+            ? "Travado"
+            : kinds.map((k) => LOCK_KIND_LABEL[k]).join(" · ");
+        return { id, label, leftPct: px * 100, topPct: py * 100 };
       })
       .filter((v): v is NonNullable<typeof v> => Boolean(v));
   }, [canvasSlide.height, canvasSlide.objects, canvasSlide.width, currentSlideKey, elementLocks]);
@@ -2401,6 +2645,7 @@ export default function StudioShell(props: Props) {
         const idx = slideIndex - 1;
         const slide = idx >= 0 && idx < prevSlides.length ? prevSlides[idx] : null;
         if (!slide || typeof slide !== "object") return prev;
+        if (isImageSlotLocked(slide, slideIndex, slotId)) return prev;
 
         // Undo support: snapshot current slide before mutation.
         const entry = getHistoryEntry(slideIndex);
@@ -2454,7 +2699,7 @@ export default function StudioShell(props: Props) {
       setDirty(true);
       setCanvasRevision((v) => v + 1);
     },
-    [effectiveTemplate.images, props.slides]
+    [effectiveTemplate.images, isImageSlotLocked, props.slides]
   );
 
   const assignAssetToSlot = React.useCallback(
@@ -2533,6 +2778,8 @@ export default function StudioShell(props: Props) {
         const idx = slideIndex - 1;
         const slide = idx >= 0 && idx < prevSlides.length ? prevSlides[idx] : null;
         if (!slide || typeof slide !== "object") return prev;
+        if (isBackgroundLocked(slide, slideIndex)) return prev;
+        if (isImageSlotLocked(slide, slideIndex, backgroundImageSlotId)) return prev;
 
         const entry = getHistoryEntry(slideIndex);
         const snapshot = JSON.stringify(slide);
@@ -2559,7 +2806,7 @@ export default function StudioShell(props: Props) {
       setDirty(true);
       setCanvasRevision((v) => v + 1);
     },
-    [backgroundImageSlotId, props.slides]
+    [backgroundImageSlotId, isBackgroundLocked, isImageSlotLocked, props.slides]
   );
 
   const toggleSlideElement = React.useCallback(
@@ -2819,6 +3066,8 @@ export default function StudioShell(props: Props) {
 
         {props.flash.saved ||
         props.flash.locksSaved ||
+        props.flash.cancelled ||
+        props.flash.planApproved ||
         props.flash.edited ||
         props.flash.cleaned !== null ||
         props.flash.error ? (
@@ -2838,6 +3087,16 @@ export default function StudioShell(props: Props) {
                 Locks salvos.
               </div>
             ) : null}
+            {props.flash.planApproved ? (
+              <div className="rounded-2xl border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-900">
+                Plano aprovado. Gerando imagens…
+              </div>
+            ) : null}
+            {props.flash.cancelled ? (
+              <div className="rounded-2xl border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-900">
+                Geração cancelada. Os assets gerados foram removidos e o estado anterior foi restaurado.
+              </div>
+            ) : null}
             {props.flash.cleaned !== null ? (
               <div className="rounded-2xl border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-900">
                 Placeholders removidos: {props.flash.cleaned}.
@@ -3018,7 +3277,9 @@ export default function StudioShell(props: Props) {
                               Geração (IA)
                             </div>
                             <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
-                              {props.statusLabel}
+                              {isGenerating && liveStage && GENERATION_STAGE_LABELS[liveStage]
+                                ? GENERATION_STAGE_LABELS[liveStage]
+                                : props.statusLabel}
                             </span>
                           </div>
 
@@ -3047,6 +3308,21 @@ export default function StudioShell(props: Props) {
                                 Gere um rascunho para preencher os slides.
                               </div>
                             )}
+                            {!isGenerating && lockedSlidesNote ? (
+                              <div className="text-xs text-muted-foreground">{lockedSlidesNote}</div>
+                            ) : null}
+                            {isGenerating && liveEvents.length > 0 ? (
+                              <ul className="space-y-1 pt-1">
+                                {liveEvents.map((ev) => (
+                                  <li
+                                    key={ev.key}
+                                    className={ev.failed ? "text-red-700" : "text-muted-foreground"}
+                                  >
+                                    {ev.label}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : null}
                           </div>
 
                           <form action={generateAction} className="space-y-2">
@@ -3082,15 +3358,41 @@ export default function StudioShell(props: Props) {
                           </div>
                         </div>
 
+                        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <input
+                            type="checkbox"
+                            name="reviewPlan"
+                            disabled={isGenerating || Boolean(props.pendingPlan)}
+                          />
+                          Revisar o plano antes de gerar as imagens
+                        </label>
+
                         <button
                           className="w-full rounded-xl bg-primary px-3 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-60"
                           type="submit"
-                          disabled={isGenerating}
+                          disabled={isGenerating || Boolean(props.pendingPlan)}
                         >
                           {isGenerating ? "Gerando..." : "Gerar rascunho"}
                         </button>
                       </form>
 
+                      {isGenerating ? (
+                        <form action={studioCancelGeneration}>
+                          <input type="hidden" name="carouselId" value={props.carouselId} />
+                          <input
+                            type="hidden"
+                            name="currentSlide"
+                            value={selectedSlideIndex}
+                          />
+                          <button
+                            className="mt-2 w-full rounded-xl border border-red-200 bg-background px-3 py-2 text-sm text-red-700 hover:bg-red-50"
+                            type="submit"
+                          >
+                            Cancelar geração
+                          </button>
+                        </form>
+                      ) : null}
+
                       {props.placeholderCount > 0 ? (
                         <form action={studioCleanup}>
                           <input type="hidden" name="carouselId" value={props.carouselId} />
@@ -3109,9 +3411,54 @@ export default function StudioShell(props: Props) {
                       ) : null}
                     </section>
 
+                    {props.pendingPlan ? (
+                      <PlanReviewPanel
+                        carouselId={props.carouselId}
+                        currentSlide={selectedSlideIndex}
+                        plan={props.pendingPlan}
+                      />
+                    ) : null}
+
+                    <ChatPanel
+                      carouselId={props.carouselId}
+                      slideCount={slideCount}
+                      initialSlideIndex={props.initialSlideIndex}
+                      initialMessages={props.initialMessages}
+                      selection={{ slideIndex: selectedSlideIndex, objectIds: selectedObjectIds }}
+                      disabled={isGenerating}
+                      forceNewImage={forceNewImage}
+                      onForceNewImageChange={setForceNewImage}
+                      onError={setSaveError}
+                      onApplied={(res) => {
+                        setEditorState(res.nextState as unknown as Record<string, unknown>);
+                        setDirty(false);
+                        setLastSavedAt(new Date().toISOString());
+                        setCanvasRevision((v) => v + 1);
+                        setForceNewImage(false);
+                        appendGeneratedAssets(Array.isArray(res.newAssets) ? res.newAssets : []);
+                        setEditHistory(res.history);
+                      }}
+                    />
+
+                    <EditHistoryPanel
+                      carouselId={props.carouselId}
+                      history={editHistory}
+                      disabled={isGenerating}
+                      onError={setSaveError}
+                      onReverted={(res) => {
+                        setEditorState(res.nextState as unknown as Record<string, unknown>);
+                        setDirty(false);
+                        setLastSavedAt(new Date().toISOString());
+                        setCanvasRevision((v) => v + 1);
+                        setEditHistory(res.history);
+                      }}
+                    />
+
                     <section className="space-y-3 rounded-2xl border bg-background px-4 py-3">
                       <div className="flex items-center justify-between">
-                        <div className="text-base font-medium">Edição por comando</div>
+                        <div className="text-base font-medium">
+                          Regenerar slide {selectedSlideIndex}
+                        </div>
                         <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
                           IA
                         </span>
@@ -3122,129 +3469,84 @@ export default function StudioShell(props: Props) {
                         onSubmit={(e) => {
                           e.preventDefault();
                           if (isPending) return;
-                          const instruction = editInstruction.trim();
-                          if (instruction.length < 2) return;
-                          const raw = editTarget.trim();
-                          const slideIndex =
-                            raw.length === 0 ? undefined : Number.isFinite(Number(raw)) ? Math.trunc(Number(raw)) : undefined;
+                          const slideIndex = selectedSlideIndex;
+                          const instruction = regenInstruction.trim();
 
                           startTransition(async () => {
-                            const res = await editInlineAction({
+                            const res = await studioRegenerateSlideInline({
                               carouselId: props.carouselId,
-                              instruction,
-                              slideIndex
+                              slideIndex,
+                              instruction: instruction || undefined,
+                              forceNewImage
                             });
 
                             if (!res.ok) {
                               const message =
                                 res.error === "UNAUTHENTICATED"
                                   ? "Você precisa entrar novamente."
-                                  : String(res.error ?? "Falha ao aplicar edição.");
+                                  : res.error === "GENERATION_RUNNING"
+                                    ? "Geração já em andamento."
+                                    : res.error === "SLIDE_NOT_FOUND"
+                                      ? "Slide não encontrado."
+                                      : String(res.error ?? "Falha ao regenerar o slide.");
                               setSaveError(message);
                               return;
                             }
 
                             setSaveError(null);
-                            setLastEdit({
-                              applied: res.applied,
-                              blockedByLock:
-                                typeof (res as { blockedByLock?: unknown }).blockedByLock ===
-                                "number"
-                                  ? ((res as { blockedByLock: number }).blockedByLock as number)
-                                  : res.skippedLocked,
-                              ignored:
-                                typeof (res as { skippedPolicy?: unknown }).skippedPolicy ===
-                                "number"
-                                  ? ((res as { skippedPolicy: number }).skippedPolicy as number)
-                                  : 0,
-                              missing: res.skippedMissing,
-                              summary: res.summary ?? null
+                            setLastRegen({
+                              slideIndex: res.slideIndex,
+                              imagesDone: res.imagesDone,
+                              imagesFailed: res.imagesFailed,
+                              keptLocked: res.keptLocked
                             });
                             setEditorState(res.nextState as unknown as Record<string, unknown>);
                             setDirty(false);
                             setLastSavedAt(new Date().toISOString());
                             setCanvasRevision((v) => v + 1);
-                            setEditInstruction("");
-
-                            const newAssets = Array.isArray(res.newAssets) ? res.newAssets : [];
-                            if (newAssets.length > 0) {
-                              setExtraGeneratedAssets((prev) => {
-                                const existing = new Set(prev.map((a) => a.id));
-                                const next = [...prev];
-                                for (const a of newAssets) {
-                                  if (!a || typeof a !== "object") continue;
-                                  const id =
-                                    "id" in a && typeof (a as { id?: unknown }).id === "string"
-                                      ? (a as { id: string }).id
-                                      : null;
-                                  const signedUrl =
-                                    "signedUrl" in a &&
-                                    typeof (a as { signedUrl?: unknown }).signedUrl === "string"
-                                      ? (a as { signedUrl: string }).signedUrl
-                                      : null;
-                                  if (!id || existing.has(id)) continue;
-                                  existing.add(id);
-                                  next.push({ id, asset_type: "generated", signedUrl });
-                                }
-                                return next;
-                              });
-                            }
+                            setRegenInstruction("");
+                            setForceNewImage(false);
+                            appendGeneratedAssets(res.newAssets);
                           });
                         }}
                       >
-                        <textarea
-                          name="instruction"
-                          className="h-24 w-full rounded-xl border bg-background p-3 text-sm disabled:cursor-not-allowed disabled:opacity-60"
-                          placeholder='Ex: “Deixe o título mais forte e encurte o texto do corpo.”'
-                          required
-                          value={editInstruction}
-                          onChange={(e) => setEditInstruction(e.target.value)}
+                        <input
+                          className="w-full rounded-xl border bg-background px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-60"
+                          placeholder="Direção opcional (ex: “foque em um exemplo prático”)"
+                          value={regenInstruction}
+                          onChange={(e) => setRegenInstruction(e.target.value)}
                           disabled={isGenerating}
                         />
-                        <div className="flex items-center gap-2">
-                          <select
-                            name="slideIndex"
-                            className="w-full rounded-xl border bg-background px-3 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-60"
-                            value={editTarget}
-                            onChange={(e) => setEditTarget(e.target.value)}
-                            disabled={isGenerating}
-                          >
-                            {Array.from({ length: slideCount }, (_, i) => (
-                              <option key={i + 1} value={i + 1}>
-                                Slide {i + 1}
-                              </option>
-                            ))}
-                            <option value="">Todos</option>
-                          </select>
-                          <button
-                            className="whitespace-nowrap rounded-xl bg-foreground px-3 py-2 text-sm font-medium text-background hover:bg-foreground/90 disabled:cursor-not-allowed disabled:opacity-60"
-                            type="submit"
+                        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <input
+                            type="checkbox"
+                            checked={forceNewImage}
+                            onChange={(e) => setForceNewImage(e.target.checked)}
                             disabled={isGenerating}
-                          >
-                            {isPending ? "Aplicando..." : "Aplicar"}
-                          </button>
-                        </div>
+                          />
+                          Forçar nova variação de imagem (ignorar imagens já geradas)
+                        </label>
+                        <button
+                          className="w-full rounded-xl border bg-background px-3 py-2 text-sm hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-60"
+                          type="submit"
+                          disabled={isGenerating || isPending}
+                        >
+                          {isPending ? "Regenerando..." : "Regenerar texto e imagens"}
+                        </button>
                       </form>
 
-                      {lastEdit ? (
+                      {lastRegen ? (
                         <div className="rounded-xl border bg-background/70 p-3 text-xs text-muted-foreground">
-                          <div>
-                            Aplicado: <span className="font-medium text-foreground">{lastEdit.applied}</span>{" "}
-                            · Bloqueados (lock):{" "}
-                            <span className="font-medium text-foreground">{lastEdit.blockedByLock}</span>{" "}
-                            · Ignorados:{" "}
-                            <span className="font-medium text-foreground">{lastEdit.ignored}</span>{" "}
-                            · Não encontrados:{" "}
-                            <span className="font-medium text-foreground">{lastEdit.missing}</span>
-                          </div>
-                          {lastEdit.summary ? (
-                            <div className="mt-1 text-muted-foreground">{lastEdit.summary}</div>
-                          ) : null}
+                          Slide {lastRegen.slideIndex} regenerado · Imagens:{" "}
+                          <span className="font-medium text-foreground">{lastRegen.imagesDone}</span>
+                          {lastRegen.imagesFailed > 0 ? ` (${lastRegen.imagesFailed} falharam)` : null}
+                          {" "}· Mantidos (lock):{" "}
+                          <span className="font-medium text-foreground">{lastRegen.keptLocked}</span>
                         </div>
                       ) : null}
 
                       <div className="text-xs text-muted-foreground">
-                        Use locks para proteger elementos contra alterações automáticas.
+                        Elementos com lock são mantidos sem alteração.
                       </div>
                     </section>
                   </div>
@@ -3334,6 +3636,16 @@ export default function StudioShell(props: Props) {
                               })
                             )}
                             onCheckedChange={(next) => toggleBackgroundImageVisibility(selectedSlideIndex, next)}
+                            disabled={
+                              backgroundLocked ||
+                              (backgroundImageSlotId != null &&
+                                isImageSlotLocked(
+                                  selectedSlide,
+                                  selectedSlideIndex,
+                                  backgroundImageSlotId
+                                ))
+                            }
+                            title={backgroundLocked ? "Fundo bloqueado" : undefined}
                           />
                         ) : null}
                       </div>
@@ -3509,7 +3821,9 @@ export default function StudioShell(props: Props) {
                           </button>
                         </div>
                         <div className="mt-2 text-muted-foreground">
-                          Clique em uma imagem abaixo para preencher o slot.
+                          {slotPickerLocked
+                            ? "A imagem deste slot está bloqueada."
+                            : "Clique em uma imagem abaixo para preencher o slot."}
                         </div>
                       </div>
                     ) : (
@@ -3562,7 +3876,7 @@ export default function StudioShell(props: Props) {
 	                                  );
 	                                  e.dataTransfer.effectAllowed = "copy";
 	                                }}
-	                                disabled={!a.signedUrl}
+	                                disabled={!a.signedUrl || slotPickerLocked}
 	                                onClick={() => {
 	                                  if (slotPicker) {
 	                                    assignAssetToSlot(a.id);
@@ -3609,7 +3923,7 @@ export default function StudioShell(props: Props) {
 	                                  );
 	                                  e.dataTransfer.effectAllowed = "copy";
 	                                }}
-	                                disabled={!a.signedUrl}
+	                                disabled={!a.signedUrl || slotPickerLocked}
 	                                onClick={() => {
 	                                  if (slotPicker) {
 	                                    assignAssetToSlot(a.id);
@@ -3959,6 +4273,7 @@ export default function StudioShell(props: Props) {
                           <input
                             type="checkbox"
                             checked={activeOverlay.enabled}
+                            disabled={overlayLocked}
                             onChange={(e) => {
                               applyOverlay(
                                 { ...activeOverlay, enabled: e.target.checked },
@@ -3976,6 +4291,7 @@ export default function StudioShell(props: Props) {
                           <button
                             type="button"
                             onClick={() => handleOverlayScopeChange("global")}
+                            disabled={backgroundLocked}
                             className={`rounded-md px-2 py-1 transition ${
                               overlayScope === "global"
                                 ? "bg-primary text-primary-foreground shadow-sm"
@@ -3987,6 +4303,7 @@ export default function StudioShell(props: Props) {
                           <button
                             type="button"
                             onClick={() => handleOverlayScopeChange("slide")}
+                            disabled={backgroundLocked}
                             className={`rounded-md px-2 py-1 transition ${
                               overlayScope === "slide"
                                 ? "bg-primary text-primary-foreground shadow-sm"
@@ -4011,7 +4328,7 @@ export default function StudioShell(props: Props) {
                               )
                             }
                             className="h-9 w-16 cursor-pointer rounded-lg border bg-background p-1"
-                            disabled={!activeOverlay.enabled}
+                            disabled={!activeOverlay.enabled || overlayLocked}
                           />
                         </label>
                         <label className="space-y-1">
@@ -4036,7 +4353,7 @@ export default function StudioShell(props: Props) {
                               );
                             }}
                             className="w-full"
-                            disabled={!activeOverlay.enabled}
+                            disabled={!activeOverlay.enabled || overlayLocked}
                           />
                         </label>
                       </div>
@@ -4050,12 +4367,12 @@ export default function StudioShell(props: Props) {
                               onClick={() =>
                                 applyOverlay({ ...activeOverlay, mode: "solid" }, overlayScope)
                               }
-                              disabled={!activeOverlay.enabled}
+                              disabled={!activeOverlay.enabled || overlayLocked}
                               className={`rounded-lg border px-2 py-1 text-xs font-medium transition ${
                                 activeOverlay.mode === "solid"
                                   ? "border-foreground bg-foreground text-background"
                                   : "border-border bg-muted/30 text-foreground"
-                              } ${activeOverlay.enabled ? "hover:bg-muted/60" : "cursor-not-allowed opacity-60"}`}
+                              } ${activeOverlay.enabled && !overlayLocked ? "hover:bg-muted/60" : "cursor-not-allowed opacity-60"}`}
                             >
                               Sólido
                             </button>
@@ -4070,12 +4387,12 @@ export default function StudioShell(props: Props) {
                                   overlayScope
                                 )
                               }
-                              disabled={!activeOverlay.enabled}
+                              disabled={!activeOverlay.enabled || overlayLocked}
                               className={`rounded-lg border px-2 py-1 text-xs font-medium transition ${
                                 activeOverlay.mode === "bottom-gradient"
                                   ? "border-foreground bg-foreground text-background"
                                   : "border-border bg-muted/30 text-foreground"
-                              } ${activeOverlay.enabled ? "hover:bg-muted/60" : "cursor-not-allowed opacity-60"}`}
+                              } ${activeOverlay.enabled && !overlayLocked ? "hover:bg-muted/60" : "cursor-not-allowed opacity-60"}`}
                             >
                               Gradiente baixo
                             </button>
@@ -4105,14 +4422,16 @@ export default function StudioShell(props: Props) {
                                 );
                               }}
                               className="w-full"
-                              disabled={!activeOverlay.enabled}
+                              disabled={!activeOverlay.enabled || overlayLocked}
                             />
                           </label>
                         ) : null}
                       </div>
 
                       <div className="mt-2 text-[11px] text-muted-foreground">
-                        Útil quando você usa imagem de fundo e quer garantir contraste do texto.
+                        {backgroundLocked
+                          ? "Fundo bloqueado neste slide: o overlay dele não muda."
+                          : "Útil quando você usa imagem de fundo e quer garantir contraste do texto."}
                       </div>
                     </div>
                   </div>
@@ -4605,6 +4924,84 @@ export default function StudioShell(props: Props) {
                       )}
                     </section>
 
+                    <section className="space-y-3 rounded-2xl border bg-background px-4 py-3">
+                      <div className="text-sm font-semibold">Re-renderizar a partir do plano</div>
+                      <div className="text-xs text-muted-foreground">
+                        Reaplica o último plano gerado (textos atuais + imagens já geradas) em outro template, sem chamar a IA.
+                      </div>
+                      <form
+                        className="space-y-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          if (isPending || !rerenderTemplateId) return;
+                          const templateId = rerenderTemplateId;
+
+                          startTransition(async () => {
+                            const res = await studioRerenderWithTemplateInline({
+                              carouselId: props.carouselId,
+                              templateId
+                            });
+
+                            if (!res.ok) {
+                              const message =
+                                res.error === "UNAUTHENTICATED"
+                                  ? "Você precisa entrar novamente."
+                                  : res.error === "GENERATION_RUNNING"
+                                    ? "Geração já em andamento."
+                                    : res.error === "NO_PLAN"
+                                      ? "Este carrossel ainda não tem um plano salvo."
+                                      : res.error === "TEMPLATE_NOT_FOUND"
+                                        ? "Template não encontrado."
+                                        : String(res.error ?? "Falha ao re-renderizar.");
+                              setSaveError(message);
+                              setRerenderStatus(null);
+                              return;
+                            }
+
+                            setSaveError(null);
+                            setRerenderStatus(
+                              [
+                                `Re-renderizado · ${res.reusedImages} imagens reaproveitadas.`,
+                                describeLockedSlides(res.lockedSlides)
+                              ]
+                                .filter(Boolean)
+                                .join(" ")
+                            );
+                            setEditorState(res.nextState as unknown as Record<string, unknown>);
+                            setDirty(false);
+                            setLastSavedAt(new Date().toISOString());
+                            setCanvasRevision((v) => v + 1);
+                          });
+                        }}
+                      >
+                        <select
+                          className="w-full rounded-xl border bg-background px-3 py-2 text-sm"
+                          value={rerenderTemplateId}
+                          onChange={(e) => setRerenderTemplateId(e.target.value)}
+                          disabled={isGenerating}
+                        >
+                          <option value="">Escolha um template…</option>
+                          {rerenderTemplateOptions.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          className="w-full rounded-xl border bg-background px-3 py-2 text-sm hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-60"
+                          type="submit"
+                          disabled={isGenerating || isPending || !rerenderTemplateId}
+                        >
+                          {isPending ? "Re-renderizando..." : "Re-renderizar"}
+                        </button>
+                      </form>
+                      {rerenderStatus ? (
+                        <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-700">
+                          {rerenderStatus}
+                        </div>
+                      ) : null}
+                    </section>
+
                     <section className="space-y-3">
                       <div className="text-sm font-semibold">Templates de layout</div>
                       <div className="text-xs text-muted-foreground">
@@ -4702,7 +5099,7 @@ export default function StudioShell(props: Props) {
                   <div className="space-y-3 rounded-2xl border bg-background px-4 py-3">
                     <div className="text-base font-medium">Locks</div>
                     <div className="text-xs text-muted-foreground">
-                      Locks protegem elementos contra alterações automáticas da IA (não impedem edição manual).
+                      Locks protegem elementos contra a IA, a regeneração e a edição no canvas: posição trava mover/redimensionar, conteúdo trava o texto, estilo trava a barra de formatação. Elementos com lock não podem ser apagados nem copiados.
                     </div>
 
                     <div className="rounded-xl border bg-muted/30 p-3 text-xs">
@@ -4726,12 +5123,24 @@ export default function StudioShell(props: Props) {
                               ? "Desbloquear seleção"
                               : "Bloquear seleção"}
                           </button>
+                          <div className="mt-2 grid grid-cols-2 gap-1">
+                            {LOCK_KINDS.map((kind) => (
+                              <label key={kind} className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedObjectIds.every((id) => kindsOf(id).includes(kind))}
+                                  onChange={() => toggleLockKindForSelection(kind)}
+                                />
+                                {LOCK_KIND_LABEL[kind]}
+                              </label>
+                            ))}
+                          </div>
                         </div>
                       )}
                     </div>
 
                     <div className="text-xs text-muted-foreground">
-                      Dica: o ícone “IA” aparece no canto do elemento bloqueado.
+                      Dica: o cadeado aparece no canto do elemento bloqueado.
                     </div>
 
                     <details className="rounded-xl border bg-background p-3">
@@ -4739,7 +5148,8 @@ export default function StudioShell(props: Props) {
                         Avançado (JSON)
                       </summary>
                       <div className="mt-2 text-xs text-muted-foreground">
-                        Formato esperado: <span className="font-mono">{`{"slide_1":{"title":true}}`}</span>
+                        Formato esperado:{" "}
+                        <span className="font-mono">{`{"version":2,"slides":{"slide_1":{"title":["content","style"]}}}`}</span>
                       </div>
                       <div className="mt-2 space-y-2">
                         <textarea
@@ -4821,8 +5231,8 @@ export default function StudioShell(props: Props) {
                     selectedObjectIds.length === 0
                       ? "Selecione um elemento para bloquear/desbloquear"
                       : selectedObjectIds.every((id) => isLocked(id))
-                        ? "Desbloquear seleção (somente IA)"
-                        : "Bloquear seleção (somente IA)"
+                        ? "Desbloquear seleção"
+                        : "Bloquear seleção"
                   }
                   className="hidden items-center gap-2 rounded-xl border bg-background/70 px-3 py-2 text-sm shadow-sm hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-40 sm:inline-flex"
                 >
@@ -4884,9 +5294,10 @@ export default function StudioShell(props: Props) {
                   layoutKey={leftShiftPx}
                   onSlideChange={onCanvasSlideChange}
                   onSelectionChange={setSelectedObjectIds}
+                  lockedKindsById={elementLocks.slides[currentSlideKey]}
                   styleDefaults={{ typography: globalTypography, palette: activePalette }}
                 />
-                {/* Locked indicator badges (AI lock) */}
+                {/* Locked indicator badges */}
                 {lockedBadges.map((b) => (
                   <div
                     key={b.id}
@@ -4896,7 +5307,7 @@ export default function StudioShell(props: Props) {
                     <div className="-translate-x-full -translate-y-2 rounded-full border bg-background/90 px-2 py-1 shadow-sm">
                       <div className="flex items-center gap-1 text-[10px] font-medium text-muted-foreground">
                         <Lock className="h-3 w-3" />
-                        IA
+                        {b.label}
                       </div>
                     </div>
                   </div>
@@ -4906,9 +5317,12 @@ export default function StudioShell(props: Props) {
 	                  <button
 	                    key={slot.id}
 	                    type="button"
-	                    className="absolute z-20"
+	                    className="absolute z-20 disabled:cursor-not-allowed"
 	                    style={rectToPct(slot.bounds)}
+	                    disabled={slot.locked}
+	                    title={slot.locked ? "Imagem bloqueada" : undefined}
 	                    onDragOver={(e) => {
+	                      if (slot.locked) return;
 	                      e.preventDefault();
 	                      e.dataTransfer.dropEffect = "copy";
 	                    }}
@@ -4929,7 +5343,7 @@ export default function StudioShell(props: Props) {
 	                    }}
 	                  >
                     <div className="flex h-full w-full items-center justify-center rounded-2xl border-2 border-dashed border-emerald-400/70 bg-emerald-50/10 text-[11px] font-medium text-emerald-700">
-                      Clique para adicionar imagem
+                      {slot.locked ? "Imagem bloqueada" : "Clique para adicionar imagem"}
                     </div>
                   </button>
                 ))}
@@ -7,11 +7,17 @@ import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
 import { createSignedUrl } from "@/lib/studio/storage";
 import {
   applyNaturalLanguageEdit,
+  approveGenerationPlan,
+  cancelGeneration,
   cleanupPlaceholderGeneratedAssets,
   createCarouselTemplate,
   createUserPalette,
   deleteUserPalette,
   generateFirstDraft,
+  regenerateSlide,
+  rerenderWithTemplate,
+  resolveNaturalLanguageEditPreview,
+  revertNaturalLanguageEdit,
   saveCarouselElementLocksFromForm,
   saveCarouselEditorStateFromForm,
   updateCarouselTemplate
@@ -202,7 +208,8 @@ export async function studioGenerate(formData: FormData) {
   const imageModel = formData.get("imageModel")
     ? String(formData.get("imageModel"))
     : undefined;
-  const result = await generateFirstDraft({ carouselId, imageModel });
+  const reviewPlan = formData.get("reviewPlan") === "on";
+  const result = await generateFirstDraft({ carouselId, imageModel, reviewPlan });
   if (!result.ok) {
     const message =
       result.error === "GENERATION_RUNNING"
@@ -215,6 +222,36 @@ export async function studioGenerate(formData: FormData) {
   redirectBack(carouselId, formData, { error: null });
 }
 
+export async function studioApprovePlan(formData: FormData) {
+  const carouselId = getCarouselId(formData);
+  const result = await approveGenerationPlan(formData);
+  if (!result.ok) {
+    const message =
+      result.error === "NO_PLAN_TO_APPROVE"
+        ? "Nenhum plano aguardando aprovação."
+        : result.error === "UNAUTHENTICATED"
+        ? "Você precisa entrar novamente."
+        : String(result.error ?? "Falha ao aprovar o plano.");
+    redirectBack(carouselId, formData, { error: message });
+  }
+  redirectBack(carouselId, formData, { planApproved: "1", error: null });
+}
+
+export async function studioCancelGeneration(formData: FormData) {
+  const carouselId = getCarouselId(formData);
+  const result = await cancelGeneration({ carouselId });
+  if (!result.ok) {
+    const message =
+      result.error === "NO_ACTIVE_GENERATION"
+        ? "Nenhuma geração em andamento."
+        : result.error === "UNAUTHENTICATED"
+        ? "Você precisa entrar novamente."
+        : String(result.error ?? "Falha ao cancelar.");
+    redirectBack(carouselId, formData, { error: message });
+  }
+  redirectBack(carouselId, formData, { cancelled: "1", error: null });
+}
+
 export async function studioCleanup(formData: FormData) {
   const carouselId = getCarouselId(formData);
   const result = await cleanupPlaceholderGeneratedAssets({ carouselId });
@@ -252,7 +289,8 @@ export async function studioEdit(formData: FormData) {
   const result = await applyNaturalLanguageEdit({
     carouselId,
     instruction,
-    slideIndex: Number.isFinite(slideIndex) ? slideIndex : undefined
+    slideIndex: Number.isFinite(slideIndex) ? slideIndex : undefined,
+    forceNewImage: formData.get("forceNewImage") === "on"
   });
 
   if (!result.ok) {
@@ -273,10 +311,43 @@ export async function studioEdit(formData: FormData) {
   });
 }
 
+export async function studioRegenerateSlideInline(input: {
+  carouselId: string;
+  slideIndex: number;
+  imageModel?: string;
+  instruction?: string;
+  forceNewImage?: boolean;
+}) {
+  return await regenerateSlide(input);
+}
+
+export async function studioRerenderWithTemplateInline(input: {
+  carouselId: string;
+  templateId: string;
+}) {
+  return await rerenderWithTemplate(input);
+}
+
 export async function studioEditInline(input: {
   carouselId: string;
   instruction: string;
   slideIndex?: number;
+  slideIndexes?: number[];
+  selectedObjectIds?: string[];
+  forceNewImage?: boolean;
+  dryRun?: boolean;
 }) {
   return await applyNaturalLanguageEdit(input);
 }
+
+export async function studioResolveEditPreviewInline(input: {
+  carouselId: string;
+  proposalId: string;
+  acceptedOps: number[];
+}) {
+  return await resolveNaturalLanguageEditPreview(input);
+}
+
+export async function studioRevertEditInline(input: { carouselId: string; editId: string }) {
+  return await revertNaturalLanguageEdit(input);
+}
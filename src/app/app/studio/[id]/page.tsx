@@ -1,14 +1,19 @@
 import { notFound, redirect } from "next/navigation";
 import { getStudioProject } from "@/lib/studio/queries";
+import { toEditHistory } from "@/lib/studio/edit_history";
 import { GEMINI_IMAGE_MODELS } from "@/lib/ai/gemini_image";
+import { normalizeElementLocks } from "@/lib/studio/locks";
 import { createSignedUrl } from "@/lib/studio/storage";
 import StudioShell from "./StudioShell";
+import type { PendingPlan } from "./PlanReviewPanel";
 
 type SearchParams = {
   slide?: string;
   saved?: string;
   cleaned?: string;
   locksSaved?: string;
+  cancelled?: string;
+  planApproved?: string;
   edited?: string;
   applied?: string;
   locked?: string;
@@ -64,6 +69,8 @@ export default async function StudioPage({
   const saved = sp?.saved === "1";
   const cleaned = sp?.cleaned ? Number(sp.cleaned) : null;
   const locksSaved = sp?.locksSaved === "1";
+  const cancelled = sp?.cancelled === "1";
+  const planApproved = sp?.planApproved === "1";
   const edited = sp?.edited === "1";
   const applied = sp?.applied ? Number(sp.applied) : null;
   const locked = sp?.locked ? Number(sp.locked) : null;
@@ -108,6 +115,56 @@ export default async function StudioPage({
     typeof imagesMeta?.total === "number" ? imagesMeta.total : null;
   const imagesFailed =
     typeof imagesMeta?.failed === "number" ? imagesMeta.failed : null;
+  const lockedSlidesMeta =
+    generationMeta && typeof generationMeta === "object"
+      ? ((generationMeta as Record<string, unknown>).lockedSlides as
+          | Record<string, unknown>
+          | undefined)
+      : undefined;
+  const slideNumbers = (value: unknown) =>
+    Array.isArray(value) ? value.filter((n): n is number => typeof n === "number") : [];
+  const lockedSlides = {
+    kept: slideNumbers(lockedSlidesMeta?.kept),
+    dropped: slideNumbers(lockedSlidesMeta?.dropped)
+  };
+
+  const pendingPlan: PendingPlan | null = (() => {
+    if (project.carousel.generation_status !== "awaiting_approval") return null;
+    const raw =
+      generationMeta && typeof generationMeta === "object"
+        ? (generationMeta as Record<string, unknown>).plan
+        : null;
+    const slides =
+      raw && typeof raw === "object" && Array.isArray((raw as Record<string, unknown>).slides)
+        ? ((raw as Record<string, unknown>).slides as Array<Record<string, unknown>>)
+        : [];
+    if (slides.length === 0) return null;
+    return {
+      slides: slides.map((slide, idx) => {
+        const text =
+          slide.text && typeof slide.text === "object"
+            ? (slide.text as Record<string, unknown>)
+            : {};
+        const str = (v: unknown) => (typeof v === "string" ? v : undefined);
+        const images = Array.isArray(slide.images)
+          ? (slide.images as Array<Record<string, unknown>>)
+          : [];
+        return {
+          index: typeof slide.index === "number" ? slide.index : idx + 1,
+          text: {
+            tagline: str(text.tagline),
+            title: str(text.title) ?? "",
+            body: str(text.body),
+            cta: str(text.cta)
+          },
+          images: images.map((img) => ({
+            slotId: str(img.slotId) ?? null,
+            prompt: str(img.prompt) ?? ""
+          }))
+        };
+      })
+    };
+  })();
 
   async function withSignedUrls(
     assets: Array<(typeof projectData.assets)[number]>,
@@ -170,7 +227,11 @@ export default async function StudioPage({
       ? "Pronto"
       : projectData.carousel.generation_status === "running"
         ? "Gerando"
-        : "MVP";
+        : projectData.carousel.generation_status === "queued"
+          ? "Na fila"
+          : projectData.carousel.generation_status === "awaiting_approval"
+            ? "Aguardando aprovação"
+            : "MVP";
   const generationStatus = projectData.carousel.generation_status ?? "idle";
 
   return (
@@ -182,7 +243,10 @@ export default async function StudioPage({
       placeholderCount={placeholderCount}
       statusLabel={statusLabel}
       generationStatus={generationStatus}
-      progress={{ imagesDone, imagesTotal, imagesFailed }}
+      progress={{ imagesDone, imagesTotal, imagesFailed, lockedSlides }}
+      pendingPlan={pendingPlan}
+      initialMessages={projectData.messages}
+      initialEditHistory={toEditHistory(projectData.carousel.generation_meta)}
       assets={{ generated: signedGeneratedAssets, reference: signedReferenceAssets }}
       palettes={projectData.palettes as unknown as StudioPalette[]}
       templates={projectData.templates as unknown as StudioTemplate[]}
@@ -198,6 +262,8 @@ export default async function StudioPage({
       flash={{
         saved,
         locksSaved,
+        cancelled,
+        planApproved,
         edited,
         cleaned,
         error,
@@ -209,7 +275,12 @@ export default async function StudioPage({
       imageModels={Object.values(GEMINI_IMAGE_MODELS)}
       defaults={{
         elementLocksJson: JSON.stringify(
-          projectData.carousel.element_locks ?? {},
+          normalizeElementLocks(
+            projectData.carousel.element_locks,
+            Array.isArray(projectData.carousel.editor_state?.slides)
+              ? projectData.carousel.editor_state.slides
+              : []
+          ),
           null,
           2
         ),
@@ -1,18 +1,11 @@
 import "server-only";
 
 import { z } from "zod";
-import { extractFirstJson } from "@/lib/ai/json";
-
-const geminiModelsSchema = z.object({
-  models: z
-    .array(
-      z.object({
-        name: z.string(),
-        supportedGenerationMethods: z.array(z.string()).optional()
-      })
-    )
-    .optional()
-});
+import { geminiFetch } from "@/lib/ai/gemini_fixtures";
+import { listGeminiModels, normalizeGeminiModelId } from "@/lib/ai/gemini_models";
+import { isCircuitOpenError, resilientFetch } from "@/lib/ai/http";
+import { parseJsonWithSchema, type JsonGenerationResult } from "@/lib/ai/json";
+import { isResponseSchemaRejection, type JsonSchema } from "@/lib/ai/json_schema";
 
 const geminiResponseSchema = z.object({
   candidates: z
@@ -33,28 +26,22 @@ function getTextFromGeminiResponse(body: unknown): string {
   return parts.map((p) => p.text ?? "").join("");
 }
 
-function normalizeModelId(model: string): string {
-  return model.startsWith("models/") ? model.slice("models/".length) : model;
-}
-
-async function listModels(apiKey: string) {
-  const versions = ["v1beta", "v1"] as const;
-
-  for (const version of versions) {
-    const res = await fetch(
-      `https://generativelanguage.googleapis.com/${version}/models?key=${encodeURIComponent(apiKey)}`,
-      { method: "GET" }
-    );
-    const json = (await res.json().catch(() => null)) as unknown;
-    const parsed = geminiModelsSchema.safeParse(json);
-    if (!res.ok || !parsed.success) continue;
-    return (parsed.data.models ?? []).map((m) => ({
-      name: normalizeModelId(m.name),
-      supportedGenerationMethods: m.supportedGenerationMethods ?? []
-    }));
-  }
+const geminiUsageSchema = z.object({
+  usageMetadata: z
+    .object({
+      promptTokenCount: z.number().optional(),
+      candidatesTokenCount: z.number().optional()
+    })
+    .optional()
+});
 
-  return [];
+function getUsageFromGeminiResponse(body: unknown, model: string) {
+  const usage = geminiUsageSchema.safeParse(body).data?.usageMetadata;
+  return {
+    model,
+    inputTokens: usage?.promptTokenCount,
+    outputTokens: usage?.candidatesTokenCount
+  };
 }
 
 function isModelError(body: unknown): boolean {
@@ -81,7 +68,7 @@ function isModelError(body: unknown): boolean {
 }
 
 async function pickFallbackModel(apiKey: string): Promise<string | null> {
-  const models = await listModels(apiKey);
+  const models = await listGeminiModels(apiKey);
   const eligible = models.filter((m) =>
     m.supportedGenerationMethods.length === 0
       ? true
@@ -112,9 +99,10 @@ async function callGenerateContent(input: {
   system: string;
   user: string;
   images?: Array<{ mimeType: string; data: string }>;
+  responseSchema?: JsonSchema;
   version?: "v1beta" | "v1";
 }) {
-  const model = normalizeModelId(input.model);
+  const model = normalizeGeminiModelId(input.model);
   const version = input.version ?? "v1beta";
   const url = `https://generativelanguage.googleapis.com/${version}/models/${encodeURIComponent(
     model
@@ -143,23 +131,27 @@ async function callGenerateContent(input: {
     }
   }
 
-  return await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [
-        {
-          role: "user",
-          parts
-        }
-      ],
-      generationConfig: {
-        temperature: 0.7,
-        topP: 0.95,
-        maxOutputTokens: 4096
+  const body = JSON.stringify({
+    contents: [
+      {
+        role: "user",
+        parts
       }
-    })
+    ],
+    generationConfig: {
+      temperature: 0.7,
+      topP: 0.95,
+      maxOutputTokens: 4096,
+      // Native structured output is only available on v1beta.
+      ...(input.responseSchema && version === "v1beta"
+        ? { responseMimeType: "application/json", responseJsonSchema: input.responseSchema }
+        : {})
+    }
   });
+
+  return await resilientFetch({ key: `gemini:${model}` }, (signal) =>
+    geminiFetch({ url, model, method: "POST", body, signal })
+  );
 }
 
 async function callGenerateContentAnyVersion(input: {
@@ -168,6 +160,7 @@ async function callGenerateContentAnyVersion(input: {
   system: string;
   user: string;
   images?: Array<{ mimeType: string; data: string }>;
+  responseSchema?: JsonSchema;
 }): Promise<{ res: Response; json: unknown }> {
   const versions: Array<"v1beta" | "v1"> = ["v1beta", "v1"];
   for (const version of versions) {
@@ -194,27 +187,45 @@ export async function geminiGenerateJson<T>(input: {
   schema: z.ZodType<T>;
   model?: string;
   images?: Array<{ mimeType: string; data: string }>;
-}): Promise<{ ok: true; data: T } | { ok: false; error: string; raw?: string }> {
+  responseSchema?: JsonSchema;
+}): Promise<JsonGenerationResult<T>> {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
     return { ok: false, error: "GEMINI_API_KEY não configurada." };
   }
 
-  const preferredModel = normalizeModelId(
+  const preferredModel = normalizeGeminiModelId(
     input.model ?? process.env.GEMINI_MODEL ?? "gemini-3.0-flash"
   );
 
+  let responseSchema = input.responseSchema;
   let { res, json } = await callGenerateContentAnyVersion({
     apiKey,
     model: preferredModel,
     system: input.system,
     user: input.user,
-    images: input.images
+    images: input.images,
+    responseSchema
   });
 
+  // Older models reject responseJsonSchema (INVALID_ARGUMENT); fall back to prose-only JSON.
+  // Other 400s (prompt, images, parameters) are returned as they are.
+  if (!res.ok && res.status === 400 && responseSchema && isResponseSchemaRejection(json)) {
+    responseSchema = undefined;
+    ({ res, json } = await callGenerateContentAnyVersion({
+      apiKey,
+      model: preferredModel,
+      system: input.system,
+      user: input.user,
+      images: input.images
+    }));
+  }
+
   let rawText = getTextFromGeminiResponse(json);
+  let usedModel = preferredModel;
 
-  if (!res.ok && isModelError(json)) {
+  // Unknown model, or the preferred model's circuit is open after repeated failures.
+  if (!res.ok && (isModelError(json) || isCircuitOpenError(json))) {
     const fallback = await pickFallbackModel(apiKey);
     if (fallback && fallback !== preferredModel) {
       const second = await callGenerateContentAnyVersion({
@@ -222,11 +233,13 @@ export async function geminiGenerateJson<T>(input: {
         model: fallback,
         system: input.system,
         user: input.user,
-        images: input.images
+        images: input.images,
+        responseSchema
       });
       res = second.res;
       json = second.json;
       rawText = getTextFromGeminiResponse(json);
+      usedModel = fallback;
     }
   }
 
@@ -235,22 +248,16 @@ export async function geminiGenerateJson<T>(input: {
       typeof json === "object" && json && "error" in json
         ? JSON.stringify(json)
         : rawText || `HTTP ${res.status}`;
-    return { ok: false, error: `Gemini falhou: ${errMsg}`, raw: rawText };
+    return {
+      ok: false,
+      error: `Gemini falhou: ${errMsg}`,
+      raw: rawText,
+      usage: { model: usedModel }
+    };
   }
 
-  const extracted = extractFirstJson(rawText) ?? rawText.trim();
-  try {
-    const parsedJson = JSON.parse(extracted) as unknown;
-    const validated = input.schema.safeParse(parsedJson);
-    if (!validated.success) {
-      return {
-        ok: false,
-        error: "Resposta do Gemini não bateu com o schema esperado.",
-        raw: extracted
-      };
-    }
-    return { ok: true, data: validated.data };
-  } catch {
-    return { ok: false, error: "Resposta do Gemini não é JSON válido.", raw: rawText };
-  }
+  return {
+    ...parseJsonWithSchema(rawText, input.schema, "Gemini"),
+    usage: getUsageFromGeminiResponse(json, usedModel)
+  };
 }
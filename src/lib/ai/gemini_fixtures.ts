@@ -0,0 +1,187 @@
+import "server-only";
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Record/replay for Gemini HTTP calls (GEMINI_FIXTURE_MODE=record|replay).
+// Fixtures live in GEMINI_FIXTURE_DIR (default fixtures/gemini), one JSON file per
+// request keyed by sha256(model + request body). Inside runGeminiFixtureCase they are
+// keyed by case name and call order instead, so an edited prompt still replays the
+// captured response (see scripts/gemini-replay.ts). API keys are never written.
+
+type FixtureMode = "record" | "replay" | "off";
+
+type GeminiFixture = {
+  key: string;
+  model: string;
+  url: string;
+  request: unknown;
+  response: { status: number; body: unknown };
+  recordedAt: string;
+};
+
+/** A replayed request whose body differs from the one recorded. */
+export type GeminiFixtureDrift = {
+  file: string;
+  model: string;
+  difference: string;
+};
+
+type FixtureCase = {
+  name: string;
+  calls: Map<string, number>;
+  drift: GeminiFixtureDrift[];
+};
+
+const caseStorage = new AsyncLocalStorage<FixtureCase>();
+
+function fixtureMode(): FixtureMode {
+  const raw = process.env.GEMINI_FIXTURE_MODE?.trim().toLowerCase();
+  return raw === "record" || raw === "replay" ? raw : "off";
+}
+
+function fixtureDir() {
+  return path.resolve(process.cwd(), process.env.GEMINI_FIXTURE_DIR ?? "fixtures/gemini");
+}
+
+export function geminiFixtureKey(model: string, body: string) {
+  return createHash("sha256").update(model).update("\n").update(body).digest("hex");
+}
+
+function safeFileName(value: string) {
+  return value.replace(/[^a-zA-Z0-9._-]+/g, "_").slice(0, 120) || "_";
+}
+
+/** Case fixtures: `cases/<case>/<model>-<n>.json`, n counting the case's calls per model. */
+function caseFixtureFile(scope: FixtureCase, model: string) {
+  const n = (scope.calls.get(model) ?? 0) + 1;
+  scope.calls.set(model, n);
+  return path.join(fixtureDir(), "cases", safeFileName(scope.name), `${safeFileName(model)}-${n}.json`);
+}
+
+/** First position where two request bodies differ, with a little context on each side. */
+export function describeFixtureDifference(recorded: string, current: string) {
+  let at = 0;
+  while (at < recorded.length && at < current.length && recorded[at] === current[at]) at++;
+  if (at === recorded.length && at === current.length) return null;
+  const excerpt = (text: string) => JSON.stringify(text.slice(Math.max(0, at - 40), at + 80));
+  return `posição ${at}: gravado ${excerpt(recorded)} / atual ${excerpt(current)}`;
+}
+
+/** Recorded hash-keyed fixture for the same model whose request shares the longest prefix. */
+async function nearestFixture(model: string, body: string) {
+  const files = await readdir(fixtureDir()).catch(() => [] as string[]);
+  let best: { file: string; shared: number; difference: string | null } | null = null;
+  for (const name of files) {
+    if (!name.endsWith(".json")) continue;
+    const file = path.join(fixtureDir(), name);
+    const stored = await readFile(file, "utf8").catch(() => null);
+    if (!stored) continue;
+    const fixture = JSON.parse(stored) as GeminiFixture;
+    if (fixture.model !== model) continue;
+    const recorded = fixture.request === null ? "" : JSON.stringify(fixture.request);
+    let shared = 0;
+    while (shared < recorded.length && shared < body.length && recorded[shared] === body[shared]) {
+      shared++;
+    }
+    if (!best || shared > best.shared) {
+      best = { file, shared, difference: describeFixtureDifference(recorded, body) };
+    }
+  }
+  return best;
+}
+
+/**
+ * Runs `fn` with its Gemini calls keyed by `name` and call order instead of the request
+ * body. In replay, requests that no longer match their recording are still served and
+ * listed in `drift`.
+ */
+export async function runGeminiFixtureCase<T>(name: string, fn: () => Promise<T>) {
+  const scope: FixtureCase = { name, calls: new Map(), drift: [] };
+  const result = await caseStorage.run(scope, fn);
+  return { result, drift: scope.drift };
+}
+
+function redactUrl(url: string) {
+  return url.replace(/([?&]key=)[^&]*/, "$1REDACTED");
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Drop-in `fetch` for Gemini endpoints. `model` and `body` form the fixture key; list calls
+ * pass a pseudo model such as "models:list" with an empty body.
+ */
+export async function geminiFetch(input: {
+  url: string;
+  model: string;
+  method: "GET" | "POST";
+  body?: string;
+  signal?: AbortSignal;
+}): Promise<Response> {
+  const init: RequestInit = {
+    method: input.method,
+    signal: input.signal,
+    ...(input.body !== undefined
+      ? { headers: { "Content-Type": "application/json" }, body: input.body }
+      : {})
+  };
+  const mode = fixtureMode();
+  if (mode === "off") return await fetch(input.url, init);
+
+  const body = input.body ?? "";
+  const key = geminiFixtureKey(input.model, body);
+  const scope = caseStorage.getStore();
+  const file = scope ? caseFixtureFile(scope, input.model) : path.join(fixtureDir(), `${key}.json`);
+
+  if (mode === "replay") {
+    const stored = await readFile(file, "utf8").catch(() => null);
+    if (!stored) {
+      const nearest = scope ? null : await nearestFixture(input.model, body);
+      const hint = nearest
+        ? ` Mais próxima: ${path.relative(process.cwd(), nearest.file)} (${nearest.difference ?? "mesmo corpo"}).`
+        : "";
+      // Not shaped like a model error, so callers don't fall back to another model.
+      return Response.json(
+        {
+          error: {
+            code: 599,
+            status: "FIXTURE_MISSING",
+            message: `Sem fixture gravada para ${input.model} (${path.relative(process.cwd(), file)}). Grave com GEMINI_FIXTURE_MODE=record.${hint}`
+          }
+        },
+        { status: 599 }
+      );
+    }
+    const fixture = JSON.parse(stored) as GeminiFixture;
+    if (scope) {
+      const recorded = fixture.request === null ? "" : JSON.stringify(fixture.request);
+      const difference = describeFixtureDifference(recorded, body);
+      if (difference) scope.drift.push({ file, model: input.model, difference });
+    }
+    return Response.json(fixture.response.body, { status: fixture.response.status });
+  }
+
+  const res = await fetch(input.url, init);
+  const text = await res.text();
+  const fixture: GeminiFixture = {
+    key,
+    model: input.model,
+    url: redactUrl(input.url),
+    request: input.body !== undefined ? parseBody(input.body) : null,
+    response: { status: res.status, body: parseBody(text) },
+    recordedAt: new Date().toISOString()
+  };
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+
+  return new Response(text, { status: res.status, headers: res.headers });
+}
@@ -1,17 +1,9 @@
 import "server-only";
 
 import { z } from "zod";
-
-const modelsResponseSchema = z.object({
-  models: z
-    .array(
-      z.object({
-        name: z.string(),
-        supportedGenerationMethods: z.array(z.string()).optional()
-      })
-    )
-    .optional()
-});
+import { geminiFetch } from "@/lib/ai/gemini_fixtures";
+import { listGeminiModels, normalizeGeminiModelId } from "@/lib/ai/gemini_models";
+import { aiHttpTimeoutMs, isCircuitOpenError, resilientFetch } from "@/lib/ai/http";
 
 const generateResponseSchema = z.object({
   candidates: z
@@ -34,10 +26,6 @@ const generateResponseSchema = z.object({
     .optional()
 });
 
-function normalizeModelId(model: string): string {
-  return model.startsWith("models/") ? model.slice("models/".length) : model;
-}
-
 function isModelError(body: unknown): boolean {
   if (!body || typeof body !== "object") return false;
   if (!("error" in body)) return false;
@@ -62,28 +50,8 @@ function isModelError(body: unknown): boolean {
   );
 }
 
-async function listModels(apiKey: string) {
-  const versions = ["v1beta", "v1"] as const;
-
-  for (const version of versions) {
-    const res = await fetch(
-      `https://generativelanguage.googleapis.com/${version}/models?key=${encodeURIComponent(apiKey)}`,
-      { method: "GET" }
-    );
-    const json = (await res.json().catch(() => null)) as unknown;
-    const parsed = modelsResponseSchema.safeParse(json);
-    if (!res.ok || !parsed.success) continue;
-    return (parsed.data.models ?? []).map((m) => ({
-      name: normalizeModelId(m.name),
-      supportedGenerationMethods: m.supportedGenerationMethods ?? []
-    }));
-  }
-
-  return [];
-}
-
 async function pickImageModelFallback(apiKey: string): Promise<string | null> {
-  const models = await listModels(apiKey);
+  const models = await listGeminiModels(apiKey);
   const eligible = models.filter((m) =>
     m.supportedGenerationMethods.length === 0
       ? true
@@ -115,23 +83,24 @@ async function callGenerateContent(input: {
   prompt: string;
   version: "v1beta" | "v1";
 }) {
-  const model = normalizeModelId(input.model);
+  const model = normalizeGeminiModelId(input.model);
   const url = `https://generativelanguage.googleapis.com/${input.version}/models/${encodeURIComponent(
     model
   )}:generateContent?key=${encodeURIComponent(input.apiKey)}`;
 
-  return await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: input.prompt }]
-        }
-      ]
-    })
+  const body = JSON.stringify({
+    contents: [
+      {
+        role: "user",
+        parts: [{ text: input.prompt }]
+      }
+    ]
   });
+
+  return await resilientFetch(
+    { key: `gemini:${model}`, timeoutMs: aiHttpTimeoutMs("image") },
+    (signal) => geminiFetch({ url, model, method: "POST", body, signal })
+  );
 }
 
 function getInlineData(body: unknown): { data: string; mimeType: string } | null {
@@ -172,12 +141,12 @@ export async function geminiNanoBananaGenerateImage(input: {
       provider: "gemini";
       model: string;
     }
-  | { ok: false; error: string }
+  | { ok: false; error: string; retryable?: boolean }
 > {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) return { ok: false, error: "GEMINI_API_KEY não configurada." };
 
-  const preferred = normalizeModelId(
+  const preferred = normalizeGeminiModelId(
     input.model ?? process.env.GEMINI_IMAGE_MODEL ?? "gemini-2.5-flash-image"
   );
 
@@ -194,7 +163,7 @@ export async function geminiNanoBananaGenerateImage(input: {
     const json = (await res.json().catch(() => null)) as unknown;
     if (!res.ok) {
       lastErr = json;
-      if (isModelError(json)) continue;
+      if (isModelError(json) || isCircuitOpenError(json)) continue;
       return { ok: false, error: `Gemini image falhou (HTTP ${res.status}).` };
     }
 
@@ -205,23 +174,23 @@ export async function geminiNanoBananaGenerateImage(input: {
     const mimeType = inline.mimeType;
 
     if (bytes.length < 128) {
-      return { ok: false, error: "Imagem gerada muito pequena (provável erro)." };
+      return { ok: false, error: "Imagem gerada muito pequena (provável erro).", retryable: true };
     }
 
     if (
       (mimeType.includes("png") && !seemsLikePng(bytes)) ||
       (mimeType.includes("jpeg") && !seemsLikeJpeg(bytes))
     ) {
-      return { ok: false, error: "Imagem gerada com formato inválido." };
+      return { ok: false, error: "Imagem gerada com formato inválido.", retryable: true };
     }
 
     return { ok: true, bytes, mimeType, provider: "gemini", model: preferred };
   }
 
-  // If model seems unsupported, pick a fallback image model and retry.
-  if (lastErr && isModelError(lastErr)) {
+  // If model seems unsupported (or its circuit is open), pick a fallback image model and retry.
+  if (lastErr && (isModelError(lastErr) || isCircuitOpenError(lastErr))) {
     const fallback = await pickImageModelFallback(apiKey);
-    if (fallback) {
+    if (fallback && fallback !== preferred) {
       for (const version of versions) {
         const res = await callGenerateContent({
           apiKey,
@@ -0,0 +1,68 @@
+import "server-only";
+
+import { z } from "zod";
+import { geminiFetch } from "@/lib/ai/gemini_fixtures";
+import { resilientFetch } from "@/lib/ai/http";
+
+const modelsResponseSchema = z.object({
+  models: z
+    .array(
+      z.object({
+        name: z.string(),
+        supportedGenerationMethods: z.array(z.string()).optional()
+      })
+    )
+    .optional()
+});
+
+export type GeminiModelInfo = { name: string; supportedGenerationMethods: string[] };
+
+// The catalog rarely changes; fallback pickers read it from here instead of re-listing on
+// every failure. Empty results (list call failed) are kept briefly to avoid hammering.
+const CATALOG_TTL_MS = 10 * 60_000;
+const EMPTY_CATALOG_TTL_MS = 60_000;
+
+let cached: { apiKey: string; expiresAt: number; models: Promise<GeminiModelInfo[]> } | null =
+  null;
+
+export function normalizeGeminiModelId(model: string): string {
+  return model.startsWith("models/") ? model.slice("models/".length) : model;
+}
+
+async function fetchModels(apiKey: string): Promise<GeminiModelInfo[]> {
+  const versions = ["v1beta", "v1"] as const;
+
+  for (const version of versions) {
+    const res = await resilientFetch({ key: "gemini:models.list" }, (signal) =>
+      geminiFetch({
+        url: `https://generativelanguage.googleapis.com/${version}/models?key=${encodeURIComponent(apiKey)}`,
+        model: `models:list:${version}`,
+        method: "GET",
+        signal
+      })
+    );
+    const json = (await res.json().catch(() => null)) as unknown;
+    const parsed = modelsResponseSchema.safeParse(json);
+    if (!res.ok || !parsed.success) continue;
+    return (parsed.data.models ?? []).map((m) => ({
+      name: normalizeGeminiModelId(m.name),
+      supportedGenerationMethods: m.supportedGenerationMethods ?? []
+    }));
+  }
+
+  return [];
+}
+
+export async function listGeminiModels(apiKey: string): Promise<GeminiModelInfo[]> {
+  if (cached && cached.apiKey === apiKey && Date.now() < cached.expiresAt) {
+    return await cached.models;
+  }
+
+  // Concurrent callers share the in-flight request.
+  const models = fetchModels(apiKey);
+  const entry = { apiKey, expiresAt: Date.now() + CATALOG_TTL_MS, models };
+  cached = entry;
+  const list = await models;
+  if (list.length === 0) entry.expiresAt = Date.now() + EMPTY_CATALOG_TTL_MS;
+  return list;
+}
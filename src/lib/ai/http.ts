@@ -0,0 +1,162 @@
+import "server-only";
+
+// Shared HTTP layer for provider calls: a process-wide concurrency limit, a per-attempt
+// timeout, jittered retries on 429/5xx that honour Retry-After, and a circuit breaker per
+// model. Failures are returned as JSON error responses so callers keep one error path.
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const MAX_BACKOFF_MS = 10_000;
+// A longer Retry-After (e.g. a daily quota reset) is returned to the caller instead.
+const MAX_RETRY_AFTER_MS = 30_000;
+
+function envInt(name: string, fallback: number, min: number, max: number) {
+  const n = Number(process.env[name] ?? fallback);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, Math.trunc(n))) : fallback;
+}
+
+export function aiHttpTimeoutMs(kind: "text" | "image") {
+  return kind === "image"
+    ? envInt("AI_HTTP_IMAGE_TIMEOUT_MS", 120_000, 1_000, 600_000)
+    : envInt("AI_HTTP_TIMEOUT_MS", 60_000, 1_000, 600_000);
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function errorResponse(status: number, code: string, message: string) {
+  return Response.json({ error: { code: status, status: code, message } }, { status });
+}
+
+/** True for the synthetic reply returned while a model's circuit is open. */
+export function isCircuitOpenError(body: unknown): boolean {
+  if (!body || typeof body !== "object" || !("error" in body)) return false;
+  const error = (body as { error: unknown }).error;
+  return (
+    !!error &&
+    typeof error === "object" &&
+    (error as Record<string, unknown>).status === "CIRCUIT_OPEN"
+  );
+}
+
+// --- Concurrency limiter (AI_HTTP_MAX_CONCURRENCY, default 4) ---
+
+let activeRequests = 0;
+const waiting: Array<() => void> = [];
+
+async function acquireSlot() {
+  if (activeRequests < envInt("AI_HTTP_MAX_CONCURRENCY", 4, 1, 64)) {
+    activeRequests += 1;
+    return;
+  }
+  // The releasing request hands its slot over, so activeRequests stays the same.
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waiting.shift();
+  if (next) next();
+  else activeRequests -= 1;
+}
+
+// --- Circuit breaker, keyed by provider + model ---
+
+type Breaker = { failures: number; openUntil: number; probing: boolean };
+
+const breakers = new Map<string, Breaker>();
+
+/** Closed: allow. Open: reject until the cooldown ends. Half-open: allow a single probe. */
+function breakerAllows(key: string) {
+  const breaker = breakers.get(key);
+  if (!breaker || breaker.openUntil === 0) return true;
+  if (Date.now() < breaker.openUntil || breaker.probing) return false;
+  breaker.probing = true;
+  return true;
+}
+
+function recordOutcome(key: string, ok: boolean) {
+  if (ok) {
+    breakers.delete(key);
+    return;
+  }
+  const breaker = breakers.get(key) ?? { failures: 0, openUntil: 0, probing: false };
+  breaker.failures += 1;
+  breaker.probing = false;
+  if (breaker.failures >= envInt("AI_CIRCUIT_FAILURE_THRESHOLD", 5, 1, 100)) {
+    breaker.openUntil = Date.now() + envInt("AI_CIRCUIT_COOLDOWN_MS", 30_000, 1_000, 600_000);
+  }
+  breakers.set(key, breaker);
+}
+
+// --- Retry ---
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+export function parseRetryAfterMs(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number) {
+  const base = envInt("AI_HTTP_RETRY_BASE_MS", 500, 0, 10_000);
+  const ceiling = Math.min(MAX_BACKOFF_MS, base * 2 ** attempt);
+  // "Equal jitter": half fixed, half random, so concurrent callers spread out.
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Runs `send` through the limiter, timeout, retry and breaker. `key` identifies the breaker
+ * (e.g. "gemini:gemini-3.0-flash"). The body is buffered inside the timeout, so the
+ * returned Response is fully read-ready.
+ */
+export async function resilientFetch(
+  options: { key: string; timeoutMs?: number },
+  send: (signal: AbortSignal) => Promise<Response>
+): Promise<Response> {
+  if (!breakerAllows(options.key)) {
+    return errorResponse(
+      503,
+      "CIRCUIT_OPEN",
+      `${options.key} indisponível após falhas seguidas; tente novamente em instantes.`
+    );
+  }
+
+  const maxRetries = envInt("AI_HTTP_MAX_RETRIES", 2, 0, 6);
+  const timeoutMs = options.timeoutMs ?? aiHttpTimeoutMs("text");
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let res: Response;
+    try {
+      const raw = await send(controller.signal);
+      const body = await raw.arrayBuffer();
+      res = new Response(body, { status: raw.status, statusText: raw.statusText, headers: raw.headers });
+    } catch (err) {
+      res = controller.signal.aborted
+        ? errorResponse(504, "TIMEOUT", `${options.key} excedeu ${timeoutMs}ms.`)
+        : errorResponse(503, "NETWORK_ERROR", `${options.key}: ${String(err)}`);
+    } finally {
+      clearTimeout(timer);
+      releaseSlot();
+    }
+
+    if (!RETRYABLE_STATUS.has(res.status)) {
+      recordOutcome(options.key, true);
+      return res;
+    }
+
+    const retryAfterMs = parseRetryAfterMs(res.headers.get("retry-after"));
+    if (attempt >= maxRetries || (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS)) {
+      recordOutcome(options.key, false);
+      return res;
+    }
+
+    const delay = retryAfterMs ?? backoffMs(attempt);
+    console.warn(
+      `[ai-http] ${options.key}: HTTP ${res.status}, nova tentativa ${attempt + 1}/${maxRetries} em ${delay}ms`
+    );
+    await sleep(delay);
+  }
+}
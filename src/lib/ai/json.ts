@@ -1,5 +1,8 @@
 import "server-only";
 
+import type { z } from "zod";
+import { formatZodIssues } from "@/lib/ai/json_schema";
+
 export function extractFirstJson(text: string): string | null {
   const trimmed = text.trim();
   if (!trimmed) return null;
@@ -57,3 +60,41 @@ export function extractFirstJson(text: string): string | null {
   return null;
 }
 
+
+/** Model actually used and token counts reported by the provider, when known. */
+export type JsonGenerationUsage = { model: string; inputTokens?: number; outputTokens?: number };
+
+/** `issues` is set when the reply arrived but failed JSON parsing or schema validation. */
+export type JsonGenerationResult<T> =
+  | { ok: true; data: T; usage?: JsonGenerationUsage }
+  | { ok: false; error: string; raw?: string; issues?: string[]; usage?: JsonGenerationUsage };
+
+/** Pulls the first JSON value out of a model reply and validates it against `schema`. */
+export function parseJsonWithSchema<T>(
+  rawText: string,
+  schema: z.ZodType<T>,
+  providerLabel: string
+): JsonGenerationResult<T> {
+  const extracted = extractFirstJson(rawText) ?? rawText.trim();
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(extracted) as unknown;
+  } catch {
+    return {
+      ok: false,
+      error: `Resposta do ${providerLabel} não é JSON válido.`,
+      raw: rawText,
+      issues: ["A resposta não é JSON válido."]
+    };
+  }
+  const validated = schema.safeParse(parsedJson);
+  if (!validated.success) {
+    return {
+      ok: false,
+      error: `Resposta do ${providerLabel} não bateu com o schema esperado.`,
+      raw: extracted,
+      issues: formatZodIssues(validated.error)
+    };
+  }
+  return { ok: true, data: validated.data };
+}
@@ -0,0 +1,117 @@
+import "server-only";
+
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts the zod subset used by our contracts into plain JSON Schema, for providers that
+ * accept a native response schema. Refinements/transforms are not representable and are
+ * left to the zod validation that always runs on the reply.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return zodToJsonSchema(schema.removeDefault());
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    return typeof inner.type === "string" ? { ...inner, type: [inner.type, "null"] } : inner;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const def = schema._def;
+    return {
+      type: "array",
+      items: zodToJsonSchema(def.type),
+      ...(def.minLength ? { minItems: def.minLength.value } : {}),
+      ...(def.maxLength ? { maxItems: def.maxLength.value } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const out: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") out.minLength = check.value;
+      if (check.kind === "max") out.maxLength = check.value;
+      if (check.kind === "regex") out.pattern = check.regex.source;
+    }
+    return out;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const out: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") out.type = "integer";
+      if (check.kind === "min") out.minimum = check.value;
+      if (check.kind === "max") out.maximum = check.value;
+    }
+    return out;
+  }
+
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: [...schema.options] };
+
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value as unknown;
+    const type =
+      typeof value === "number" ? "number" : typeof value === "boolean" ? "boolean" : "string";
+    return { type, enum: [value] };
+  }
+
+  if (schema instanceof z.ZodDiscriminatedUnion || schema instanceof z.ZodUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    return { anyOf: options.map(zodToJsonSchema) };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  // z.unknown(), z.any() and anything not listed above: no constraint.
+  return {};
+}
+
+/** Flattens zod issues into short "path: message" lines for a repair prompt. */
+export function formatZodIssues(error: z.ZodError, max = 20): string[] {
+  return error.issues.slice(0, max).map((issue) => {
+    const where = issue.path.length > 0 ? issue.path.join(".") : "(raiz)";
+    return `${where}: ${issue.message}`;
+  });
+}
+
+/**
+ * Whether a 400 reply rejects the response schema itself (older models, servers without
+ * structured output) rather than the prompt, images or other parameters. Only then is the
+ * call worth repeating without a schema.
+ */
+export function isResponseSchemaRejection(body: unknown): boolean {
+  const error =
+    body && typeof body === "object" && "error" in body
+      ? (body as Record<string, unknown>).error
+      : body;
+  const message =
+    typeof error === "string"
+      ? error
+      : error && typeof error === "object"
+        ? JSON.stringify(error)
+        : "";
+  return /response_?json_?schema|response_?schema|response_?mime_?type|response_?format|json_schema|structured output/i.test(
+    message
+  );
+}
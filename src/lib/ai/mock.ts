@@ -0,0 +1,322 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import type { z } from "zod";
+import type { JsonGenerationResult } from "@/lib/ai/json";
+
+// Offline provider (AI_PROVIDER=mock): deterministic, schema-valid answers built from the
+// prompt payloads the studio already sends, plus flat placeholder PNGs. No network.
+
+const MOCK_PALETTES = [
+  { background: "#f7f3ea", text: "#1d1d1f", accent: "#e4572e" },
+  { background: "#0f172a", text: "#f8fafc", accent: "#38bdf8" },
+  { background: "#fdf2f8", text: "#3b0764", accent: "#db2777" },
+  { background: "#ecfdf5", text: "#064e3b", accent: "#10b981" }
+];
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest();
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(text) as unknown;
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function clip(text: string, max: number) {
+  const trimmed = text.replace(/\s+/g, " ").trim();
+  return trimmed.length > max ? `${trimmed.slice(0, max - 1).trimEnd()}…` : trimmed;
+}
+
+function templateImages(templateData: unknown) {
+  const images = asRecord(templateData).images;
+  return (Array.isArray(images) ? images : [])
+    .map(asRecord)
+    .filter((img) => typeof img.id === "string")
+    .map((img) => ({ id: img.id as string, kind: img.kind === "slot" ? "slot" : "background" }));
+}
+
+function mockSlide(input: {
+  index: number;
+  total: number;
+  topic: string;
+  templateData: unknown;
+  instruction?: string | null;
+}) {
+  const { index, total, topic } = input;
+  const title =
+    index === 1 ? clip(topic, 120) || "Carrossel de teste" : `Ponto ${index - 1} sobre ${clip(topic, 80)}`;
+  return {
+    index,
+    text: {
+      tagline: index === 1 ? "Modo offline" : undefined,
+      title,
+      body:
+        index === total
+          ? undefined
+          : clip(
+              `Texto de exemplo ${index}/${total}${input.instruction ? ` (${input.instruction})` : ""}.`,
+              400
+            ),
+      cta: index === total ? "Salve para depois" : undefined
+    },
+    images: templateImages(input.templateData).map((img) => ({
+      slotId: img.kind === "slot" ? img.id : undefined,
+      purpose: img.kind,
+      prompt: clip(`Ilustração simples sobre ${topic || "o tema"}, slide ${index}`, 400),
+      containsText: false
+    }))
+  };
+}
+
+function mockPlannerOutput(payload: Record<string, unknown>) {
+  const project = asRecord(payload.project);
+  const layout = asRecord(payload.layout);
+  const style = asRecord(payload.style);
+  const typography = asRecord(style.typography);
+  const topic = String(project.topic ?? project.prompt ?? "");
+  const total = Math.max(1, Math.min(20, Number(project.slidesCount) || 5));
+  const palette =
+    style.palette && typeof style.palette === "object"
+      ? style.palette
+      : MOCK_PALETTES[digest(topic)[0]! % MOCK_PALETTES.length];
+
+  return {
+    version: 1,
+    globalStyle: {
+      palette,
+      typography: {
+        titleFontFamily: typography.titleFontFamily ?? "Inter",
+        bodyFontFamily: typography.bodyFontFamily ?? "Inter",
+        titleSize: typography.titleSize ?? 64,
+        bodySize: typography.bodySize ?? 32,
+        ctaSize: typography.ctaSize ?? 26,
+        alignment: "left"
+      },
+      spacing: { padding: asRecord(layout.spacing).padding ?? 80 },
+      templateId: layout.templateId ?? "builtin/background-overlay"
+    },
+    slides: Array.from({ length: total }, (_, i) =>
+      mockSlide({ index: i + 1, total, topic, templateData: layout.templateData })
+    ),
+    notes: ["Gerado pelo provider mock (offline)."]
+  };
+}
+
+function mockRegeneratedSlide(payload: Record<string, unknown>) {
+  const project = asRecord(payload.project);
+  const layout = asRecord(payload.layout);
+  const slides = Array.isArray(payload.slides) ? payload.slides : [];
+  return mockSlide({
+    index: Number(payload.targetSlideIndex) || 1,
+    total: Math.max(slides.length, 1),
+    topic: String(project.topicOrPrompt ?? ""),
+    templateData: layout.templateData,
+    instruction: typeof payload.instruction === "string" ? payload.instruction : null
+  });
+}
+
+/** Reads the JSON block that follows `label` in the NL edit prompt. */
+function readLabelledJson(text: string, label: string): unknown {
+  const start = text.indexOf(label);
+  if (start === -1) return null;
+  const rest = text.slice(text.indexOf("\n", start) + 1);
+  const end = rest.indexOf("\n\n");
+  try {
+    return JSON.parse(end === -1 ? rest : rest.slice(0, end)) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function mockEditPatch(text: string) {
+  const instruction = /Instrução do usuário: (.*)/.exec(text)?.[1]?.trim() ?? "";
+  const summary = readLabelledJson(text, "Contexto (slides e elementos):");
+  const allowedRaw = readLabelledJson(text, "allowedTargets");
+  const allowed = new Set(
+    Array.isArray(allowedRaw) ? allowedRaw.filter((k): k is string => typeof k === "string") : []
+  );
+  const targetRaw = /Slides alvo: (\[[\d,\s]*\])/.exec(text)?.[1];
+  const targetSlides: number[] = targetRaw ? (JSON.parse(targetRaw) as number[]) : [];
+
+  const objects = (Array.isArray(summary) ? summary : []).flatMap((slide) => {
+    const s = asRecord(slide);
+    const objs = Array.isArray(s.objects) ? s.objects : [];
+    return objs.map(
+      (o): Record<string, unknown> & { slideIndex: number } => ({
+        ...asRecord(o),
+        slideIndex: Number(s.slideIndex)
+      })
+    );
+  });
+  const candidates = objects.filter(
+    (o) =>
+      typeof o.id === "string" &&
+      (targetSlides.length === 0 || targetSlides.includes(o.slideIndex)) &&
+      (allowed.size === 0 || allowed.has(`${o.slideIndex}:${o.id}`))
+  );
+
+  const wantsImage = /imagem|foto|image/i.test(instruction);
+  const image = candidates.find((o) => o.type === "image");
+  if (wantsImage && image) {
+    return {
+      ops: [
+        {
+          op: "regenerate_image",
+          slideIndex: image.slideIndex,
+          objectId: image.id,
+          prompt: clip(`Imagem de teste: ${instruction || "nova variação"} (1080x1080)`, 1500)
+        }
+      ],
+      summary: "Mock: imagem regenerada."
+    };
+  }
+
+  const textTarget = candidates.find((o) => o.type === "text") ?? candidates[0];
+  // "mude o título para X" -> X; otherwise the instruction itself.
+  const quoted = /para\s+["“']?(.+?)["”']?\s*$/i.exec(instruction)?.[1];
+  return {
+    ops: [
+      {
+        op: "set_text",
+        slideIndex: textTarget?.slideIndex ?? targetSlides[0] ?? 1,
+        objectId: typeof textTarget?.id === "string" ? textTarget.id : "title",
+        text: clip(quoted || instruction || "Texto editado (mock)", 1500)
+      }
+    ],
+    summary: "Mock: texto atualizado a partir da instrução."
+  };
+}
+
+/** Edit intent: no element/slide restriction; images only when the instruction says so. */
+function mockEditIntent(payload: Record<string, unknown>) {
+  const instruction = typeof payload.editInstruction === "string" ? payload.editInstruction : "";
+  const involvesImages = /imag|foto|photo|picture/i.test(instruction);
+  return {
+    wantsAll: false,
+    roles: involvesImages ? ["image"] : [],
+    slideIndexes: [],
+    involvesImages,
+    imageWithText: false
+  };
+}
+
+export async function mockGenerateJson<T>(input: {
+  system: string;
+  user: string;
+  schema: z.ZodType<T>;
+  model?: string;
+  images?: Array<{ mimeType: string; data: string }>;
+}): Promise<JsonGenerationResult<T>> {
+  const payload = parseJsonObject(input.user);
+  const candidate = payload
+    ? "plan" in payload
+      ? payload.plan // aesthetic review: keep the plan as is
+      : "targetSlideIndex" in payload
+        ? mockRegeneratedSlide(payload)
+        : "editInstruction" in payload
+          ? mockEditIntent(payload)
+          : mockPlannerOutput(payload)
+    : mockEditPatch(input.user);
+
+  const validated = input.schema.safeParse(candidate);
+  if (!validated.success) {
+    return {
+      ok: false,
+      error: "Provider mock não conseguiu montar uma resposta para este schema.",
+      raw: JSON.stringify(candidate)
+    };
+  }
+  return { ok: true, data: validated.data };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** Two-tone RGB PNG (diagonal band) whose colors come from the prompt hash. */
+function renderPlaceholderPng(width: number, height: number, seed: Buffer) {
+  const base = [seed[0]!, seed[1]!, seed[2]!].map((v) => 96 + (v % 128));
+  const band = base.map((v) => 255 - v);
+  const stride = width * 3 + 1;
+  const raw = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * stride] = 0;
+    for (let x = 0; x < width; x++) {
+      const d = Math.abs(x / width - y / height);
+      const color = d < 0.08 ? band : base;
+      const offset = y * stride + 1 + x * 3;
+      raw[offset] = color[0]!;
+      raw[offset + 1] = color[1]!;
+      raw[offset + 2] = color[2]!;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0))
+  ]);
+}
+
+export async function mockGenerateImage(input: {
+  prompt: string;
+  model?: string;
+  size?: { width: number; height: number };
+}): Promise<
+  | { ok: true; bytes: Uint8Array; mimeType: string; provider: "mock"; model: string }
+  | { ok: false; error: string }
+> {
+  const width = Math.max(1, input.size?.width ?? 1080);
+  const height = Math.max(1, input.size?.height ?? 1080);
+  // Keep the slot aspect but cap the longest side so placeholders stay small.
+  const scale = Math.min(1, 1024 / Math.max(width, height));
+  const png = renderPlaceholderPng(
+    Math.max(16, Math.round(width * scale)),
+    Math.max(16, Math.round(height * scale)),
+    digest(input.prompt)
+  );
+  return {
+    ok: true,
+    bytes: new Uint8Array(png),
+    mimeType: "image/png",
+    provider: "mock",
+    model: input.model ?? "mock-image"
+  };
+}
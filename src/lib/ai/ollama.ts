@@ -0,0 +1,70 @@
+import "server-only";
+
+import { z } from "zod";
+import { resilientFetch } from "@/lib/ai/http";
+import { parseJsonWithSchema, type JsonGenerationResult } from "@/lib/ai/json";
+import type { JsonSchema } from "@/lib/ai/json_schema";
+
+// Local Ollama-style server (/api/chat). Text only; it has no image generation endpoint.
+
+const chatResponseSchema = z.object({
+  message: z.object({ content: z.string().optional() }).optional(),
+  prompt_eval_count: z.number().optional(),
+  eval_count: z.number().optional()
+});
+
+export async function ollamaGenerateJson<T>(input: {
+  system: string;
+  user: string;
+  schema: z.ZodType<T>;
+  model?: string;
+  images?: Array<{ mimeType: string; data: string }>;
+  responseSchema?: JsonSchema;
+}): Promise<JsonGenerationResult<T>> {
+  const baseUrl = (process.env.OLLAMA_BASE_URL ?? "http://localhost:11434").replace(/\/+$/, "");
+  const model = input.model ?? process.env.OLLAMA_MODEL ?? "llama3.1";
+
+  const res = await resilientFetch({ key: `ollama:${model}` }, (signal) =>
+    fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        stream: false,
+        // Recent Ollama versions accept a JSON schema here for constrained decoding.
+        format: input.responseSchema ?? "json",
+        options: { temperature: 0.7 },
+        messages: [
+          {
+            role: "system",
+            content: `${input.system}\n\nIMPORTANTE: responda SOMENTE com JSON válido. Sem Markdown. Sem texto extra.`
+          },
+          {
+            role: "user",
+            content: input.user,
+            ...(input.images && input.images.length > 0
+              ? { images: input.images.map((img) => img.data) }
+              : {})
+          }
+        ]
+      }),
+      signal
+    })
+  );
+
+  const json = (await res.json().catch(() => null)) as unknown;
+  if (!res.ok) {
+    return { ok: false, error: `Ollama falhou: ${JSON.stringify(json) || `HTTP ${res.status}`}` };
+  }
+
+  const parsed = chatResponseSchema.safeParse(json);
+  const rawText = parsed.success ? (parsed.data.message?.content ?? "") : "";
+  return {
+    ...parseJsonWithSchema(rawText, input.schema, "Ollama"),
+    usage: {
+      model,
+      inputTokens: parsed.data?.prompt_eval_count,
+      outputTokens: parsed.data?.eval_count
+    }
+  };
+}
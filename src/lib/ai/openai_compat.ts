@@ -0,0 +1,165 @@
+import "server-only";
+
+import { z } from "zod";
+import { aiHttpTimeoutMs, resilientFetch } from "@/lib/ai/http";
+import { parseJsonWithSchema, type JsonGenerationResult } from "@/lib/ai/json";
+import { isResponseSchemaRejection, type JsonSchema } from "@/lib/ai/json_schema";
+
+// Any server speaking the OpenAI chat/images API (OpenAI, Azure proxies, vLLM, LiteLLM...).
+
+const chatResponseSchema = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({ content: z.string().nullable().optional() })
+      })
+    )
+    .optional(),
+  usage: z
+    .object({
+      prompt_tokens: z.number().optional(),
+      completion_tokens: z.number().optional()
+    })
+    .optional()
+});
+
+const imageResponseSchema = z.object({
+  data: z
+    .array(
+      z.object({
+        b64_json: z.string().optional(),
+        url: z.string().optional()
+      })
+    )
+    .optional()
+});
+
+function baseUrl() {
+  return (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+}
+
+function authHeaders(): Record<string, string> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+export async function openAiCompatGenerateJson<T>(input: {
+  system: string;
+  user: string;
+  schema: z.ZodType<T>;
+  model?: string;
+  images?: Array<{ mimeType: string; data: string }>;
+  responseSchema?: JsonSchema;
+}): Promise<JsonGenerationResult<T>> {
+  const model = input.model ?? process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+
+  const userContent =
+    input.images && input.images.length > 0
+      ? [
+          { type: "text", text: input.user },
+          ...input.images.map((img) => ({
+            type: "image_url",
+            image_url: { url: `data:${img.mimeType};base64,${img.data}` }
+          }))
+        ]
+      : input.user;
+
+  const messages = [
+    {
+      role: "system",
+      content: `${input.system}\n\nIMPORTANTE: responda SOMENTE com JSON válido. Sem Markdown. Sem texto extra.`
+    },
+    { role: "user", content: userContent }
+  ];
+  const send = (responseFormat: Record<string, unknown>) =>
+    resilientFetch({ key: `openai:${model}` }, (signal) =>
+      fetch(`${baseUrl()}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ model, temperature: 0.7, response_format: responseFormat, messages }),
+        signal
+      })
+    );
+
+  let res = input.responseSchema
+    ? await send({
+        type: "json_schema",
+        json_schema: { name: "response", schema: input.responseSchema, strict: false }
+      })
+    : await send({ type: "json_object" });
+  // Servers without json_schema support answer 400; plain JSON mode still works there.
+  if (
+    res.status === 400 &&
+    input.responseSchema &&
+    isResponseSchemaRejection(await res.clone().text().catch(() => ""))
+  ) {
+    res = await send({ type: "json_object" });
+  }
+
+  const json = (await res.json().catch(() => null)) as unknown;
+  if (!res.ok) {
+    return { ok: false, error: `OpenAI falhou: ${JSON.stringify(json) || `HTTP ${res.status}`}` };
+  }
+
+  const parsed = chatResponseSchema.safeParse(json);
+  const rawText = parsed.success ? (parsed.data.choices?.[0]?.message.content ?? "") : "";
+  return {
+    ...parseJsonWithSchema(rawText, input.schema, "OpenAI"),
+    usage: {
+      model,
+      inputTokens: parsed.data?.usage?.prompt_tokens,
+      outputTokens: parsed.data?.usage?.completion_tokens
+    }
+  };
+}
+
+export async function openAiCompatGenerateImage(input: {
+  prompt: string;
+  model?: string;
+}): Promise<
+  | { ok: true; bytes: Uint8Array; mimeType: string; provider: "openai"; model: string }
+  | { ok: false; error: string; retryable?: boolean }
+> {
+  const model = input.model ?? process.env.OPENAI_IMAGE_MODEL ?? "gpt-image-1";
+
+  const res = await resilientFetch(
+    { key: `openai:${model}`, timeoutMs: aiHttpTimeoutMs("image") },
+    (signal) =>
+      fetch(`${baseUrl()}/images/generations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ model, prompt: input.prompt, n: 1, size: "1024x1024" }),
+        signal
+      })
+  );
+
+  const json = (await res.json().catch(() => null)) as unknown;
+  if (!res.ok) return { ok: false, error: `OpenAI image falhou (HTTP ${res.status}).` };
+
+  const first = imageResponseSchema.safeParse(json).data?.data?.[0];
+  if (first?.b64_json) {
+    const bytes = Uint8Array.from(Buffer.from(first.b64_json, "base64"));
+    if (bytes.length < 128) {
+      return { ok: false, error: "Imagem gerada muito pequena (provável erro).", retryable: true };
+    }
+    return { ok: true, bytes, mimeType: "image/png", provider: "openai", model };
+  }
+
+  // Some servers only return a temporary URL; the download gets the same timeout and retries
+  // as the call itself, under its own breaker so a bad link doesn't trip the model's.
+  if (first?.url) {
+    const url = first.url;
+    const download = await resilientFetch(
+      { key: `openai:${model}:download`, timeoutMs: aiHttpTimeoutMs("image") },
+      (signal) => fetch(url, { signal })
+    );
+    if (!download.ok) {
+      return { ok: false, error: "Falha ao baixar imagem gerada.", retryable: true };
+    }
+    const bytes = new Uint8Array(await download.arrayBuffer());
+    const mimeType = download.headers.get("content-type") ?? "image/png";
+    return { ok: true, bytes, mimeType, provider: "openai", model };
+  }
+
+  return { ok: false, error: "OpenAI não retornou imagem." };
+}
@@ -0,0 +1,213 @@
+import "server-only";
+
+import type { z } from "zod";
+import { geminiGenerateJson } from "@/lib/ai/gemini";
+import { geminiNanoBananaGenerateImage } from "@/lib/ai/gemini_image";
+import type { JsonGenerationResult } from "@/lib/ai/json";
+import { zodToJsonSchema, type JsonSchema } from "@/lib/ai/json_schema";
+import { mockGenerateImage, mockGenerateJson } from "@/lib/ai/mock";
+import { ollamaGenerateJson } from "@/lib/ai/ollama";
+import { openAiCompatGenerateImage, openAiCompatGenerateJson } from "@/lib/ai/openai_compat";
+
+export type AiProviderId = "gemini" | "openai" | "ollama" | "mock";
+export type AiTask = "planner" | "aesthetic_review" | "nl_edit" | "nl_edit_intent" | "image";
+
+export type AiJsonRequest<T> = {
+  system: string;
+  user: string;
+  schema: z.ZodType<T>;
+  model?: string;
+  images?: Array<{ mimeType: string; data: string }>;
+  /** JSON Schema derived from `schema`, for providers with native structured output. */
+  responseSchema?: JsonSchema;
+};
+
+export type AiJsonResult<T> = JsonGenerationResult<T>;
+
+export type AiImageResult =
+  | { ok: true; bytes: Uint8Array; mimeType: string; provider: AiProviderId; model: string }
+  | {
+      ok: false;
+      error: string;
+      /**
+       * Malformed output (truncated or corrupt bytes) that another call may fix. HTTP errors
+       * are already retried inside resilientFetch; blocks and missing config never are.
+       */
+      retryable?: boolean;
+    };
+
+export type AiImageRequest = {
+  prompt: string;
+  model?: string;
+  /** Target slot size in px; providers that can't pick a size ignore it. */
+  size?: { width: number; height: number };
+};
+
+/** One metered provider call, as written to the ai_usage ledger. */
+export type AiUsageEntry = {
+  task: AiTask;
+  kind: "text" | "image";
+  provider: AiProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  latencyMs: number;
+  ok: boolean;
+};
+
+export type AiUsageMeter = (entry: AiUsageEntry) => Promise<void>;
+
+export type AiProvider = {
+  id: AiProviderId;
+  generateJson<T>(input: AiJsonRequest<T>): Promise<AiJsonResult<T>>;
+  generateImage(input: AiImageRequest): Promise<AiImageResult>;
+};
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: {
+    id: "gemini",
+    generateJson: geminiGenerateJson,
+    generateImage: geminiNanoBananaGenerateImage
+  },
+  openai: {
+    id: "openai",
+    generateJson: openAiCompatGenerateJson,
+    generateImage: openAiCompatGenerateImage
+  },
+  ollama: {
+    id: "ollama",
+    generateJson: ollamaGenerateJson,
+    generateImage: async () => ({ ok: false, error: "Ollama não gera imagens." })
+  },
+  mock: {
+    id: "mock",
+    generateJson: mockGenerateJson,
+    generateImage: mockGenerateImage
+  }
+};
+
+function isProviderId(value: unknown): value is AiProviderId {
+  return typeof value === "string" && value in PROVIDERS;
+}
+
+/**
+ * Provider/model for a task: AI_<TASK>_PROVIDER / AI_<TASK>_MODEL, then AI_PROVIDER.
+ * Without a model override each provider uses its own default (GEMINI_MODEL, OPENAI_MODEL...).
+ */
+export function resolveAiTaskConfig(task: AiTask): { provider: AiProviderId; model?: string } {
+  const prefix = `AI_${task.toUpperCase()}`;
+  const provider = [process.env[`${prefix}_PROVIDER`], process.env.AI_PROVIDER]
+    .map((v) => v?.trim().toLowerCase())
+    .find(isProviderId);
+  const model = process.env[`${prefix}_MODEL`]?.trim();
+  return { provider: provider ?? "gemini", model: model || undefined };
+}
+
+export function getAiProvider(id: AiProviderId): AiProvider {
+  return PROVIDERS[id];
+}
+
+function schemaRepairAttempts() {
+  const n = Number(process.env.AI_SCHEMA_REPAIR_ATTEMPTS ?? 2);
+  return Number.isFinite(n) ? Math.max(0, Math.min(5, Math.trunc(n))) : 2;
+}
+
+function buildRepairPrompt(user: string, raw: string | undefined, issues: string[]) {
+  return [
+    user,
+    "",
+    "Sua resposta anterior não passou na validação do schema:",
+    raw ? raw.slice(0, 12000) : "(vazia)",
+    "",
+    "Problemas encontrados:",
+    ...issues.map((issue) => `- ${issue}`),
+    "",
+    "Corrija esses problemas e responda SOMENTE com o JSON completo e válido."
+  ].join("\n");
+}
+
+/**
+ * Runs a JSON task on its configured provider. Replies that fail JSON parsing or the zod
+ * schema are sent back with the issues for up to AI_SCHEMA_REPAIR_ATTEMPTS (default 2)
+ * repair rounds; HTTP/provider errors are returned as is.
+ */
+export async function aiGenerateJson<T>(
+  task: Exclude<AiTask, "image">,
+  input: Omit<AiJsonRequest<T>, "model" | "responseSchema">,
+  meter?: AiUsageMeter
+): Promise<AiJsonResult<T>> {
+  const config = resolveAiTaskConfig(task);
+  const provider = getAiProvider(config.provider);
+  const request: AiJsonRequest<T> = {
+    ...input,
+    model: config.model,
+    responseSchema: zodToJsonSchema(input.schema)
+  };
+
+  const call = async (req: AiJsonRequest<T>) => {
+    const startedAt = Date.now();
+    const res = await provider.generateJson(req);
+    await meter?.({
+      task,
+      kind: "text",
+      provider: provider.id,
+      model: res.usage?.model ?? config.model ?? "default",
+      inputTokens: res.usage?.inputTokens ?? 0,
+      outputTokens: res.usage?.outputTokens ?? 0,
+      imageCount: 0,
+      latencyMs: Date.now() - startedAt,
+      ok: res.ok
+    });
+    return res;
+  };
+
+  let result = await call(request);
+  const maxRepairs = schemaRepairAttempts();
+  for (let attempt = 1; attempt <= maxRepairs; attempt++) {
+    if (result.ok || !result.issues) break;
+    console.warn(
+      `[ai] ${task}: resposta fora do schema (${result.issues.length} problemas); reparo ${attempt}/${maxRepairs}`
+    );
+    // Reference images are dropped: the repair is about the shape of the answer.
+    result = await call({
+      ...request,
+      images: undefined,
+      user: buildRepairPrompt(input.user, result.raw, result.issues)
+    });
+  }
+  return result;
+}
+
+/**
+ * Provider/model an image request will run on. `model` is the studio's Gemini image model
+ * choice; it only applies while the image task runs on Gemini. Other providers use
+ * AI_IMAGE_MODEL or their own default (model undefined).
+ */
+export function resolveAiImageTarget(requestedModel?: string) {
+  const config = resolveAiTaskConfig("image");
+  const model = config.provider === "gemini" ? (requestedModel ?? config.model) : config.model;
+  return { provider: config.provider, model };
+}
+
+export async function aiGenerateImage(
+  input: AiImageRequest,
+  meter?: AiUsageMeter
+): Promise<AiImageResult> {
+  const config = resolveAiImageTarget(input.model);
+  const model = config.model;
+  const startedAt = Date.now();
+  const result = await getAiProvider(config.provider).generateImage({ ...input, model });
+  await meter?.({
+    task: "image",
+    kind: "image",
+    provider: config.provider,
+    model: result.ok ? result.model : (model ?? "default"),
+    inputTokens: 0,
+    outputTokens: 0,
+    imageCount: result.ok ? 1 : 0,
+    latencyMs: Date.now() - startedAt,
+    ok: result.ok
+  });
+  return result;
+}
@@ -32,9 +32,90 @@ export type CarouselGenerationStatus =
   | "idle"
   | "queued"
   | "running"
+  | "awaiting_approval"
   | "succeeded"
   | "failed";
 
+export type CarouselPlanSource = "first_draft" | "slide_regeneration" | "rerender";
+
+/** What an element lock protects; kinds are independent (a position lock allows text edits). */
+export type LockKind = "content" | "style" | "position" | "image";
+
+/**
+ * carousels.element_locks (version 2): locked kinds per object, keyed by the stable slide id.
+ * The slide background is locked through the "background" object id.
+ */
+export type CarouselElementLocks = {
+  version: 2;
+  slides: Record<string, Record<string, LockKind[]>>;
+};
+
+export type AiUsageTask = "planner" | "aesthetic_review" | "nl_edit" | "nl_edit_intent" | "image";
+
+export type CarouselMessageRole = "user" | "assistant";
+
+/** Apply counts stored on assistant chat replies (carousel_messages.result). */
+export type CarouselMessageResult = {
+  applied: number;
+  skippedLocked: number;
+  skippedMissing: number;
+  blockedByLock: number;
+  skippedPolicy: number;
+  error?: string;
+  /** Set on dry-run replies: the patch was only proposed and waits for accept/discard. */
+  preview?: "pending" | "accepted" | "partial" | "discarded";
+  /** Dry-run proposals with images: skip the image cache when they are generated on accept. */
+  forceNewImage?: boolean;
+};
+
+export type CarouselChatMessage = {
+  id: string;
+  role: CarouselMessageRole;
+  content: string;
+  slideIndex: number | null;
+  patch: { ops: Array<Record<string, unknown>>; summary?: string } | null;
+  result: CarouselMessageResult | null;
+  replyTo: string | null;
+  createdAt: string;
+};
+
+/** Entry of generation_meta.edits as listed in the studio. */
+export type EditHistoryItem = {
+  id: string | null;
+  at: string;
+  kind: "nl_edit" | "revert";
+  instruction: string;
+  slideIndex: number | null;
+  applied: number;
+  revertible: boolean;
+  revertedAt: string | null;
+};
+
+/** One user turn remembered for a carousel (see carousel_memory.turns). */
+export type CarouselMemoryTurn = {
+  at: string;
+  kind: "nl_edit" | "slide_regeneration";
+  instruction: string;
+  outcome: "accepted" | "partial" | "rejected";
+  slideIndex?: number | null;
+  note?: string | null;
+};
+
+export type GenerationJobStatus =
+  | "queued"
+  | "running"
+  | "awaiting_approval"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export type GenerationJobStage =
+  | "plan"
+  | "aesthetic_review"
+  | "images"
+  | "editor_state"
+  | "done";
+
 /**
  * Canonical persistence format for the studio/editor.
  * Intentionally tolerant: Fabric.js serialization and our higher-level model can evolve.
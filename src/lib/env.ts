@@ -7,7 +7,8 @@ const envSchema = z.object({
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
   GEMINI_API_KEY: z.string().min(1).optional(),
   GEMINI_MODEL: z.string().min(1).optional(),
-  GEMINI_IMAGE_MODEL: z.string().min(1).optional()
+  GEMINI_IMAGE_MODEL: z.string().min(1).optional(),
+  GENERATION_WORKER_SECRET: z.string().min(1).optional()
 });
 
 type Env = z.infer<typeof envSchema>;
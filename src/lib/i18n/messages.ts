@@ -90,9 +90,30 @@ export const messages = {
     "admin.workspace.name": "Name",
     "admin.workspace.none": "none",
     "admin.workspace.notFound": "No workspace found.",
+    "admin.workspace.imageConcurrency": "Parallel image generations",
+    "admin.workspace.imageConcurrencyHint":
+      "How many images a generation requests at once (1–8). Lower it if the provider rate-limits.",
+    "admin.workspace.aiQuotas": "Monthly AI quotas",
+    "admin.workspace.aiMonthlyTokenQuota": "Workspace tokens per month",
+    "admin.workspace.aiMonthlyImageQuota": "Workspace images per month",
+    "admin.workspace.aiUserMonthlyTokenQuota": "Tokens per member per month",
+    "admin.workspace.aiUserMonthlyImageQuota": "Images per member per month",
+    "admin.workspace.aiQuotasHint": "Leave empty for unlimited. Counted per UTC calendar month.",
     "admin.home.noAccess": "You do not have access to this page.",
     "admin.home.allowlistLink": "Allowlist + invites",
-    "admin.home.workspaceLink": "Workspace branding"
+    "admin.home.workspaceLink": "Workspace branding",
+    "admin.home.usageLink": "AI usage",
+    "admin.usage.title": "AI usage",
+    "admin.usage.subtitle": "Provider calls recorded this month (UTC), by workspace, member and model.",
+    "admin.usage.empty": "No AI usage recorded this month.",
+    "admin.usage.byWorkspace": "By workspace",
+    "admin.usage.byUser": "By member",
+    "admin.usage.byModel": "By task and model",
+    "admin.usage.calls": "Calls",
+    "admin.usage.failed": "Failed",
+    "admin.usage.tokens": "Tokens",
+    "admin.usage.images": "Images",
+    "admin.usage.latency": "Avg. latency (ms)"
   },
   "pt-BR": {
     "common.admin": "Admin",
@@ -187,9 +208,30 @@ export const messages = {
     "admin.workspace.name": "Nome",
     "admin.workspace.none": "nenhum",
     "admin.workspace.notFound": "Nenhum workspace encontrado.",
+    "admin.workspace.imageConcurrency": "Gerações de imagem em paralelo",
+    "admin.workspace.imageConcurrencyHint":
+      "Quantas imagens uma geração pede ao mesmo tempo (1–8). Reduza se o provedor limitar requisições.",
+    "admin.workspace.aiQuotas": "Cotas mensais de IA",
+    "admin.workspace.aiMonthlyTokenQuota": "Tokens do workspace por mês",
+    "admin.workspace.aiMonthlyImageQuota": "Imagens do workspace por mês",
+    "admin.workspace.aiUserMonthlyTokenQuota": "Tokens por membro por mês",
+    "admin.workspace.aiUserMonthlyImageQuota": "Imagens por membro por mês",
+    "admin.workspace.aiQuotasHint": "Deixe vazio para ilimitado. Contado por mês civil (UTC).",
     "admin.home.noAccess": "Você não tem acesso a esta página.",
     "admin.home.allowlistLink": "Allowlist + convites",
-    "admin.home.workspaceLink": "Identidade do workspace"
+    "admin.home.workspaceLink": "Identidade do workspace",
+    "admin.home.usageLink": "Uso de IA",
+    "admin.usage.title": "Uso de IA",
+    "admin.usage.subtitle": "Chamadas aos provedores registradas neste mês (UTC), por workspace, membro e modelo.",
+    "admin.usage.empty": "Nenhum uso de IA registrado neste mês.",
+    "admin.usage.byWorkspace": "Por workspace",
+    "admin.usage.byUser": "Por membro",
+    "admin.usage.byModel": "Por tarefa e modelo",
+    "admin.usage.calls": "Chamadas",
+    "admin.usage.failed": "Falhas",
+    "admin.usage.tokens": "Tokens",
+    "admin.usage.images": "Imagens",
+    "admin.usage.latency": "Latência média (ms)"
   }
 } as const;
 
@@ -5,18 +5,57 @@ import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { isCurrentUserSuperAdmin } from "@/lib/app/access";
 import { editorStateSchema } from "@/lib/studio/queries";
 import { createSignedUrl } from "@/lib/studio/storage";
-import { generateFirstDraftForCarousel } from "@/lib/studio/generation";
 import {
-  geminiNanoBananaGenerateImage,
+  approvePlannedGeneration,
+  cancelGenerationJob,
+  enqueueFirstDraftJob,
+  scheduleGenerationJob
+} from "@/lib/studio/jobs";
+import {
+  regenerateCarouselSlide,
+  rerenderCarouselWithTemplate
+} from "@/lib/studio/generation";
+import {
   GEMINI_IMAGE_MODELS,
   isSupportedGeminiImageModel,
   type GeminiImageModel
 } from "@/lib/ai/gemini_image";
 import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
-import { editPatchSchema } from "@/lib/studio/edit_contract";
+import {
+  EDIT_FONT_FAMILIES,
+  EDIT_STYLE_KEYS,
+  editPatchSchema,
+  inversePatchSchema,
+  type EditOp
+} from "@/lib/studio/edit_contract";
 import { applyEditPatch } from "@/lib/studio/apply_edit_patch";
-import { geminiGenerateJson } from "@/lib/ai/gemini";
-import { isLocked } from "@/lib/studio/locks";
+import { diffEditPatch } from "@/lib/studio/edit_diff";
+import { detectEditIntent, type EditIntent, type RequestedRole } from "@/lib/studio/edit_intent";
+import { formatSlideTargets } from "@/lib/studio/slide_targets";
+import {
+  findEditHistoryEntry,
+  markEditReverted,
+  toEditHistory,
+  withEditHistory
+} from "@/lib/studio/edit_history";
+import { aiGenerateImage, aiGenerateJson, resolveAiTaskConfig } from "@/lib/ai/provider";
+import {
+  LOCK_KINDS,
+  elementLocksSchema,
+  isFullyLocked,
+  isLocked,
+  normalizeElementLocks,
+  type ElementLocks
+} from "@/lib/studio/locks";
+import { imageCacheKey, reuseCachedImage } from "@/lib/studio/image_cache";
+import { loadCarouselMemory, memoryForPrompt, rememberCarouselTurn } from "@/lib/studio/memory";
+import {
+  appendCarouselMessage,
+  listCarouselMessages,
+  messagesForPrompt
+} from "@/lib/studio/messages";
+import { checkAiQuota, createAiUsageMeter, describeQuotaError } from "@/lib/studio/usage";
+import type { CarouselChatMessage, CarouselMessageResult } from "@/lib/db/types";
 
 const idSchema = z.string().uuid();
 
@@ -505,11 +544,13 @@ export async function getSignedUrlForCarouselAsset(input: {
 export async function generateFirstDraft(input: {
   carouselId: string;
   imageModel?: string;
+  reviewPlan?: boolean;
 }) {
   const parsed = z
     .object({
       carouselId: idSchema,
-      imageModel: z.string().optional()
+      imageModel: z.string().optional(),
+      reviewPlan: z.boolean().optional()
     })
     .safeParse(input);
   if (!parsed.success) return { ok: false as const, error: "Invalid carouselId." };
@@ -519,9 +560,179 @@ export async function generateFirstDraft(input: {
       ? parsed.data.imageModel
       : undefined;
 
-  return await generateFirstDraftForCarousel({
+  const queued = await enqueueFirstDraftJob({
     carouselId: parsed.data.carouselId,
-    imageModel
+    imageModel,
+    reviewPlan: parsed.data.reviewPlan
+  });
+  if (!queued.ok) return queued;
+
+  await scheduleGenerationJob(queued.jobId);
+  return queued;
+}
+
+const planEditsSchema = z.object({
+  slides: z
+    .array(
+      z.object({
+        index: z.number().int().min(1).max(20),
+        text: z.object({
+          tagline: z.string().trim().max(140).optional(),
+          title: z.string().trim().min(1).max(140),
+          body: z.string().trim().max(800).optional(),
+          cta: z.string().trim().max(140).optional()
+        }),
+        imagePrompts: z.array(z.string().trim().max(1600)).max(6)
+      })
+    )
+    .max(20)
+});
+
+export async function approveGenerationPlan(formData: FormData) {
+  const parsed = z
+    .object({
+      carouselId: idSchema,
+      planEditsJson: z.string().min(2)
+    })
+    .safeParse({
+      carouselId: formData.get("carouselId"),
+      planEditsJson: formData.get("planEditsJson")
+    });
+  if (!parsed.success) return { ok: false as const, error: "Formulário inválido." };
+
+  const json = parseJsonSafe(parsed.data.planEditsJson);
+  if (!json.ok) return { ok: false as const, error: json.error };
+
+  const edits = planEditsSchema.safeParse(json.value);
+  if (!edits.success) {
+    return { ok: false as const, error: "Plano inválido: confira os títulos dos slides." };
+  }
+
+  // Empty optional fields mean "remove", not "keep the planner's text".
+  const normalized = {
+    slides: edits.data.slides.map((slide) => ({
+      ...slide,
+      text: {
+        title: slide.text.title,
+        tagline: slide.text.tagline || undefined,
+        body: slide.text.body || undefined,
+        cta: slide.text.cta || undefined
+      }
+    }))
+  };
+
+  const approved = await approvePlannedGeneration({
+    carouselId: parsed.data.carouselId,
+    edits: normalized
+  });
+  if (!approved.ok) return approved;
+
+  await scheduleGenerationJob(approved.jobId);
+  return approved;
+}
+
+export async function cancelGeneration(input: { carouselId: string }) {
+  const parsed = z.object({ carouselId: idSchema }).safeParse(input);
+  if (!parsed.success) return { ok: false as const, error: "Invalid carouselId." };
+  return await cancelGenerationJob({ carouselId: parsed.data.carouselId });
+}
+
+export async function regenerateSlide(input: {
+  carouselId: string;
+  slideIndex: number;
+  imageModel?: string;
+  instruction?: string;
+  forceNewImage?: boolean;
+}) {
+  const parsed = z
+    .object({
+      carouselId: idSchema,
+      slideIndex: z.coerce.number().int().min(1).max(20),
+      imageModel: z.string().optional(),
+      instruction: z.string().trim().max(2000).optional(),
+      forceNewImage: z.boolean().optional()
+    })
+    .safeParse(input);
+  if (!parsed.success) return { ok: false as const, error: "Entrada inválida." };
+
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("id, owner_id, workspace_id")
+    .eq("id", parsed.data.carouselId)
+    .maybeSingle();
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (carousel.owner_id !== userData.user.id)
+    return { ok: false as const, error: "FORBIDDEN" };
+
+  const quota = await checkAiQuota(supabase, {
+    workspaceId: carousel.workspace_id,
+    userId: userData.user.id
+  });
+  if (!quota.ok) return { ok: false as const, error: describeQuotaError(quota) };
+
+  const result = await regenerateCarouselSlide({
+    db: supabase,
+    carouselId: carousel.id,
+    ownerId: userData.user.id,
+    slideIndex: parsed.data.slideIndex,
+    imageModel:
+      parsed.data.imageModel && isSupportedGeminiImageModel(parsed.data.imageModel)
+        ? parsed.data.imageModel
+        : undefined,
+    instruction: parsed.data.instruction || undefined,
+    forceNewImage: parsed.data.forceNewImage
+  });
+  if (!result.ok) return result;
+
+  const newAssets: Array<{ id: string; signedUrl: string | null }> = [];
+  for (const asset of result.assets) {
+    const signed = await createSignedUrl({ bucket: "carousel-assets", path: asset.path });
+    newAssets.push({ id: asset.id, signedUrl: signed.signedUrl });
+  }
+
+  return {
+    ok: true as const,
+    slideIndex: result.slideIndex,
+    nextState: result.nextState,
+    imagesDone: result.imagesDone,
+    imagesFailed: result.imagesFailed,
+    keptLocked: result.keptLocked,
+    newAssets
+  };
+}
+
+export async function rerenderWithTemplate(input: { carouselId: string; templateId: string }) {
+  const parsed = z
+    .object({
+      carouselId: idSchema,
+      // Builtin template ids are not uuids.
+      templateId: z.string().trim().min(1).max(200)
+    })
+    .safeParse(input);
+  if (!parsed.success) return { ok: false as const, error: "Entrada inválida." };
+
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("id, owner_id")
+    .eq("id", parsed.data.carouselId)
+    .maybeSingle();
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (carousel.owner_id !== userData.user.id)
+    return { ok: false as const, error: "FORBIDDEN" };
+
+  return await rerenderCarouselWithTemplate({
+    db: supabase,
+    carouselId: carousel.id,
+    ownerId: userData.user.id,
+    templateId: parsed.data.templateId
   });
 }
 
@@ -609,8 +820,12 @@ export async function saveCarouselElementLocksFromForm(formData: FormData) {
     return { ok: false as const, error: parsedJson.error };
   }
 
-  if (!parsedJson.value || typeof parsedJson.value !== "object") {
-    return { ok: false as const, error: "element_locks precisa ser um objeto JSON." };
+  const locks = elementLocksSchema.safeParse(parsedJson.value);
+  if (!locks.success) {
+    return {
+      ok: false as const,
+      error: `element_locks inválido: esperado { "version": 2, "slides": { slideId: { objectId: [${LOCK_KINDS.map((k) => `"${k}"`).join(", ")}] } } }.`
+    };
   }
 
   const supabase = await createSupabaseServerClient();
@@ -620,7 +835,7 @@ export async function saveCarouselElementLocksFromForm(formData: FormData) {
 
   const { data: updated, error } = await supabase
     .from("carousels")
-    .update({ element_locks: parsedJson.value as Record<string, unknown> })
+    .update({ element_locks: locks.data })
     .eq("id", parsed.data.carouselId)
     .select("updated_at")
     .single();
@@ -632,11 +847,42 @@ export async function saveCarouselElementLocksFromForm(formData: FormData) {
   return { ok: true as const, updatedAt: updated.updated_at };
 }
 
-const nlEditInputSchema = z.object({
-  carouselId: idSchema,
-  instruction: z.string().trim().min(2).max(2000),
-  slideIndex: z.coerce.number().int().min(1).max(20).optional()
-});
+const nlEditInputSchema = z
+  .object({
+    carouselId: idSchema,
+    instruction: z.string().trim().min(2).max(2000),
+    slideIndex: z.coerce.number().int().min(1).max(20).optional(),
+    /** Explicit slide set (ranges are expanded by the client); overrides `slideIndex`. */
+    slideIndexes: z.array(z.number().int().min(1).max(20)).min(1).max(20).optional(),
+    /** Canvas selection on `slideIndex`; scopes the edit to exactly these objects. */
+    selectedObjectIds: z.array(z.string().min(1).max(64)).max(50).optional(),
+    forceNewImage: z.boolean().optional(),
+    dryRun: z.boolean().optional()
+  })
+  .refine((v) => !v.selectedObjectIds?.length || typeof v.slideIndex === "number", {
+    message: "selectedObjectIds exige slideIndex",
+    path: ["selectedObjectIds"]
+  });
+
+function editModelLabel() {
+  const config = resolveAiTaskConfig("nl_edit");
+  if (config.model) return `${config.provider}:${config.model}`;
+  return config.provider === "gemini" ? (process.env.GEMINI_MODEL ?? "gemini") : config.provider;
+}
+
+function currentPalette(editorState: unknown) {
+  if (!editorState || typeof editorState !== "object") return null;
+  const global = (editorState as Record<string, unknown>).global;
+  if (!global || typeof global !== "object") return null;
+  return (global as Record<string, unknown>).paletteData ?? null;
+}
+
+/** Style keys dropped by applyEditPatch, for the edit summary. */
+function describeRejectedStyle(rejected: ReturnType<typeof applyEditPatch>["rejectedStyle"]) {
+  if (rejected.length === 0) return null;
+  const parts = rejected.map((r) => `${r.keys.join(", ")} (slide ${r.slideIndex}/${r.objectId})`);
+  return `Estilos rejeitados: ${parts.join("; ")}`;
+}
 
 function toEditableSummary(editorState: unknown) {
   if (!editorState || typeof editorState !== "object") return [];
@@ -647,9 +893,14 @@ function toEditableSummary(editorState: unknown) {
     const objects = Array.isArray(slide.objects)
       ? (slide.objects as unknown[])
       : [];
+    const background =
+      slide.background && typeof slide.background === "object"
+        ? (slide.background as Record<string, unknown>)
+        : {};
     return {
       slideIndex: idx + 1,
       slideId: typeof slide.id === "string" ? slide.id : null,
+      background: typeof background.color === "string" ? background.color : null,
       objects: objects
         .filter((o) => o && typeof o === "object")
         .map((o) => {
@@ -688,61 +939,136 @@ async function uploadBytesToStorage(input: {
   return { error };
 }
 
-function listLockedElements(elementLocks: unknown) {
-  const locks: Array<{ slideKey: string; objectId: string }> = [];
+/** Canonical locks of a carousel row; legacy encodings are resolved against its slides. */
+function carouselLocks(carousel: { element_locks: unknown; editor_state: unknown }) {
+  const slides =
+    carousel.editor_state && typeof carousel.editor_state === "object"
+      ? (carousel.editor_state as Record<string, unknown>).slides
+      : null;
+  return normalizeElementLocks(carousel.element_locks, Array.isArray(slides) ? slides : []);
+}
 
-  if (!elementLocks || typeof elementLocks !== "object") return locks;
-  if (Array.isArray(elementLocks)) {
-    for (const v of elementLocks) {
-      if (typeof v !== "string") continue;
-      const [slideKey, objectId] = v.split(":");
-      if (slideKey && objectId) locks.push({ slideKey, objectId });
-    }
-    return locks;
-  }
+function listLockedElements(locks: ElementLocks, summary: ReturnType<typeof toEditableSummary>) {
+  return summary.flatMap((slide) => {
+    const objects = locks.slides[slide.slideId ?? `slide_${slide.slideIndex}`] ?? {};
+    return Object.entries(objects).map(([objectId, kinds]) => ({
+      slideIndex: slide.slideIndex,
+      objectId,
+      kinds
+    }));
+  });
+}
+
+/**
+ * Turns regenerate_image ops into set_asset ops: generates (or reuses a cached) image,
+ * uploads it and records the asset. Image-locked targets are skipped before any quota
+ * is spent.
+ */
+async function generateEditImages(input: {
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>;
+  carousel: { id: string; workspace_id: string };
+  ownerId: string;
+  ops: EditOp[];
+  summary: ReturnType<typeof toEditableSummary>;
+  locks: ElementLocks;
+  forceNewImage: boolean;
+  meter: ReturnType<typeof createAiUsageMeter>;
+}) {
+  const admin = createSupabaseAdminClientIfAvailable();
+  const supabaseForInsert = admin ?? input.supabase;
+
+  const setAssetOps: Array<{ op: "set_asset"; slideIndex: number; objectId: string; assetId: string }> = [];
+  const newAssets: Array<{ id: string; signedUrl: string | null }> = [];
+
+  for (const op of input.ops) {
+    if (op.op !== "regenerate_image") continue;
+    const slideIndex = typeof op.slideIndex === "number" ? op.slideIndex : null;
+    if (!slideIndex) continue;
+
+    const slide = input.summary[slideIndex - 1];
+    const slideId = slide?.slideId ?? `slide_${slideIndex}`;
+    if (isLocked({ locks: input.locks, slideId, objectId: op.objectId, kind: "image" })) continue;
+
+    const wantsText = Boolean(op.withText);
 
-  const root = elementLocks as Record<string, unknown>;
-  for (const [slideKey, value] of Object.entries(root)) {
-    if (!value || typeof value !== "object") continue;
-    for (const [objectId, locked] of Object.entries(value as Record<string, unknown>)) {
-      if (locked) locks.push({ slideKey, objectId });
+    const model: GeminiImageModel = wantsText
+      ? GEMINI_IMAGE_MODELS.NANO_BANANA_PRO
+      : GEMINI_IMAGE_MODELS.NANO_BANANA;
+
+    const target = slide?.objects.find((o) => o.id === op.objectId);
+    const size =
+      typeof target?.width === "number" && typeof target.height === "number"
+        ? { width: target.width, height: target.height }
+        : undefined;
+    const cacheKey = imageCacheKey({ model, prompt: op.prompt, size });
+    const cached = input.forceNewImage
+      ? null
+      : await reuseCachedImage({
+          db: input.supabase,
+          workspaceId: input.carousel.workspace_id,
+          carouselId: input.carousel.id,
+          cacheKey
+        });
+
+    let image: { provider: string; model: string; mimeType: string };
+    let path: string;
+    if (cached) {
+      image = cached;
+      path = cached.path;
+    } else {
+      const generated = await aiGenerateImage({ prompt: op.prompt, model, size }, input.meter);
+      if (!generated.ok) continue;
+      image = generated;
+
+      const ext = generated.mimeType.includes("png")
+        ? "png"
+        : generated.mimeType.includes("jpeg") || generated.mimeType.includes("jpg")
+          ? "jpg"
+          : "png";
+
+      path = `workspaces/${input.carousel.workspace_id}/carousels/${input.carousel.id}/generated/${crypto.randomUUID()}.${ext}`;
+
+      const { error: uploadError } = await uploadBytesToStorage({
+        bucket: "carousel-assets",
+        path,
+        bytes: generated.bytes,
+        contentType: generated.mimeType
+      });
+      if (uploadError) continue;
     }
-  }
 
-  return locks;
-}
+    const { data: inserted, error: insertError } = await supabaseForInsert
+      .from("carousel_assets")
+      .insert({
+        workspace_id: input.carousel.workspace_id,
+        carousel_id: input.carousel.id,
+        owner_id: input.ownerId,
+        asset_type: "generated",
+        storage_bucket: "carousel-assets",
+        storage_path: path,
+        mime_type: image.mimeType,
+        status: "ready",
+        metadata: {
+          provider: image.provider,
+          model: image.model,
+          slideIndex,
+          prompt: op.prompt,
+          source: "nl_edit",
+          cache_key: cacheKey,
+          ...(cached ? { cached_from: cached.cachedFrom } : {})
+        }
+      })
+      .select("id")
+      .single();
+
+    if (insertError || !inserted) continue;
+    setAssetOps.push({ op: "set_asset", slideIndex, objectId: op.objectId, assetId: inserted.id });
+
+    const signed = await createSignedUrl({ bucket: "carousel-assets", path });
+    newAssets.push({ id: inserted.id, signedUrl: signed.signedUrl });
+  }
 
-type RequestedRole = "title" | "body" | "tagline" | "cta" | "image" | "text";
-
-function inferRequestedRoles(instruction: string): { wantsAll: boolean; roles: Set<RequestedRole> } {
-  const raw = instruction.toLowerCase();
-  const roles = new Set<RequestedRole>();
-
-  const wantsAll =
-    /\b(tudo|todos|todas|everything|all)\b/.test(raw) ||
-    /carrossel\s+(inteiro|completo)/.test(raw) ||
-    /mude\s+tudo|troque\s+tudo|refa[cç]a\s+tudo|reescreva\s+tudo/.test(raw);
-
-  const wantsImage =
-    /\b(imagem|imagens|foto|fotos|image|images|background|fundo)\b/.test(raw) ||
-    /regenera(r)?\s+imagem/.test(raw);
-  const wantsTitle = /\b(t[ií]tulo|title|heading)\b/.test(raw);
-  const wantsBody =
-    /\b(corpo|body|descri[cç][aã]o|par[aá]grafo)\b/.test(raw) ||
-    /texto\s+do\s+corpo/.test(raw);
-  const wantsCta = /\b(cta|call to action|chamada)\b/.test(raw);
-  const wantsTagline = /\b(tagline|subt[ií]tulo|subtitle)\b/.test(raw);
-
-  if (wantsImage) roles.add("image");
-  if (wantsTitle) roles.add("title");
-  if (wantsBody) roles.add("body");
-  if (wantsCta) roles.add("cta");
-  if (wantsTagline) roles.add("tagline");
-
-  // If user explicitly says "texto" but not image, treat as "text" intent.
-  if (!wantsImage && /\b(texto|copy)\b/.test(raw)) roles.add("text");
-
-  return { wantsAll, roles };
+  return { setAssetOps, newAssets };
 }
 
 function inferRoleForObject(obj: { id?: unknown; type?: unknown }): RequestedRole | null {
@@ -782,17 +1108,25 @@ function buildSlideIdMap(summary: Array<{ slideIndex: number; slideId: string |
 
 function buildAllowedTargetKeys(input: {
   summary: ReturnType<typeof toEditableSummary>;
-  slideIndex?: number;
-  requested: { wantsAll: boolean; roles: Set<RequestedRole> };
+  /** Slides the edit is restricted to; every slide when empty. */
+  slideIndexes: number[];
+  /** Canvas selection; when given, it replaces the role-based targets. */
+  selectedObjectIds?: string[];
+  requested: EditIntent;
 }) {
   const allowed = new Set<string>();
   const wantText = input.requested.roles.has("text");
+  const selected = new Set(input.selectedObjectIds ?? []);
 
   for (const slide of input.summary) {
-    if (typeof input.slideIndex === "number" && slide.slideIndex !== input.slideIndex) continue;
+    if (input.slideIndexes.length > 0 && !input.slideIndexes.includes(slide.slideIndex)) continue;
     for (const obj of slide.objects) {
       const id = typeof obj.id === "string" ? obj.id : null;
       if (!id) continue;
+      if (selected.size > 0) {
+        if (selected.has(id)) allowed.add(`${slide.slideIndex}:${id}`);
+        continue;
+      }
       const role = inferRoleForObject(obj);
       if (!role) continue;
 
@@ -810,10 +1144,19 @@ function buildAllowedTargetKeys(input: {
   return allowed;
 }
 
+/**
+ * With `dryRun`, nothing is written to the carousel: the proposed patch is stored as a
+ * pending chat reply and returned with a per-slide/object diff, to be resolved with
+ * `resolveNaturalLanguageEditPreview`.
+ */
 export async function applyNaturalLanguageEdit(input: {
   carouselId: string;
   instruction: string;
   slideIndex?: number;
+  slideIndexes?: number[];
+  selectedObjectIds?: string[];
+  forceNewImage?: boolean;
+  dryRun?: boolean;
 }) {
   const parsed = nlEditInputSchema.safeParse(input);
   if (!parsed.success) return { ok: false as const, error: "Entrada inválida." };
@@ -824,7 +1167,7 @@ export async function applyNaturalLanguageEdit(input: {
 
   const { data: carousel } = await supabase
     .from("carousels")
-    .select("id, workspace_id, owner_id, editor_state, element_locks, generation_meta")
+    .select("id, workspace_id, owner_id, draft, editor_state, element_locks, generation_meta")
     .eq("id", parsed.data.carouselId)
     .maybeSingle();
 
@@ -832,45 +1175,121 @@ export async function applyNaturalLanguageEdit(input: {
   if (carousel.owner_id !== userData.user.id)
     return { ok: false as const, error: "FORBIDDEN" };
 
+  const quota = await checkAiQuota(supabase, {
+    workspaceId: carousel.workspace_id,
+    userId: userData.user.id
+  });
+  if (!quota.ok) return { ok: false as const, error: describeQuotaError(quota) };
+  const meter = createAiUsageMeter(supabase, {
+    workspaceId: carousel.workspace_id,
+    userId: userData.user.id,
+    carouselId: carousel.id
+  });
+
   const editorState = carousel.editor_state as unknown;
   const summary = toEditableSummary(editorState);
-  const locked = listLockedElements(carousel.element_locks as unknown);
-  const requested = inferRequestedRoles(parsed.data.instruction);
+  const locks = carouselLocks(carousel);
+  const locked = listLockedElements(locks, summary);
+  const language =
+    typeof carousel.draft?.language === "string" && carousel.draft.language
+      ? carousel.draft.language
+      : "pt-BR";
+  const requested = await detectEditIntent(
+    { instruction: parsed.data.instruction, language, slideCount: summary.length },
+    meter
+  );
+  const selection = parsed.data.selectedObjectIds ?? [];
+  // Slides picked in the studio win over slides named in the instruction; a selection
+  // always sits on `slideIndex`.
+  const pickedSlides =
+    selection.length === 0 && parsed.data.slideIndexes
+      ? Array.from(new Set(parsed.data.slideIndexes))
+          .filter((i) => i <= summary.length)
+          .sort((a, b) => a - b)
+      : parsed.data.slideIndex
+        ? [parsed.data.slideIndex]
+        : [];
+  const targetSlides = pickedSlides.length > 0 ? pickedSlides : requested.slideIndexes;
   const allowedTargets = buildAllowedTargetKeys({
     summary,
-    slideIndex: parsed.data.slideIndex,
+    slideIndexes: targetSlides,
+    selectedObjectIds: selection,
     requested
   });
   const slideIdMap = buildSlideIdMap(summary);
+  const memory = await loadCarouselMemory(supabase, carousel.id);
+
+  // Chat transcript: the recent turns go into the prompt, then this turn is stored.
+  const recentMessages = await listCarouselMessages(supabase, carousel.id, 12);
+  const userMessage = await appendCarouselMessage(supabase, {
+    carousel,
+    ownerId: userData.user.id,
+    role: "user",
+    content: parsed.data.instruction,
+    slideIndex: parsed.data.slideIndex ?? null
+  });
+  const reply = (content: string, extra: { patch?: Record<string, unknown>; result: CarouselMessageResult }) =>
+    appendCarouselMessage(supabase, {
+      carousel,
+      ownerId: userData.user.id,
+      role: "assistant",
+      content,
+      slideIndex: parsed.data.slideIndex ?? null,
+      patch: extra.patch ?? null,
+      result: extra.result,
+      replyTo: userMessage?.id ?? null
+    });
 
   const system = [
     "Você é um assistente de edição de um editor de carrosséis.",
     "Sua tarefa é gerar um PATCH JSON para alterar o editor_state.",
     "NÃO inclua Markdown. Responda SOMENTE com JSON válido.",
     "Regras:",
-    "- Use apenas operações: set_text, set_style, move, regenerate_image",
-    "- Sempre inclua slideIndex (1..N) e objectId",
+    "- Operações de elemento: set_text, set_style, move, resize, regenerate_image, add_object, delete_object (inclua slideIndex e objectId; em add_object, o id vai em object.id).",
+    "- Operações de slide: set_background, delete_slide, duplicate_slide (inclua slideIndex).",
+    "- Operações do carrossel: add_slide (afterSlideIndex: 0 insere no início), reorder_slides (order: índices do contexto na nova ordem, todos os slides), set_global_palette.",
+    "- slideIndex e afterSlideIndex sempre se referem aos slides do contexto (antes de qualquer operação do patch), mesmo depois de add_slide/delete_slide/duplicate_slide/reorder_slides no mesmo patch. Elementos de slides novos vão em add_slide.objects.",
+    `- Em set_style, use apenas: ${Array.from(EDIT_STYLE_KEYS).join(", ")}. Outras chaves são descartadas; texto, imagem, posição e tamanho têm operações próprias.`,
+    `- fontFamily deve ser uma de: ${EDIT_FONT_FAMILIES.join(" | ")}. Cores no formato #RRGGBB; null remove o estilo.`,
+    "- Ao adicionar slides ou objetos, use ids novos, curtos e únicos; posicione-os dentro do slide (width/height do slide).",
+    "- Slides ou elementos com lock não são apagados nem movidos; não tente contornar.",
     "- Use regenerate_image SOMENTE se o usuário pedir para mudar/gerar imagem",
     "- Em regenerate_image.prompt, descreva a imagem e inclua '1080x1080' e o estilo desejado",
-    "- NÃO modifique elementos travados (lockedElements).",
+    "- NÃO modifique elementos travados (lockedElements). Cada lock tem tipos: content (texto), style (estilo), position (posição/tamanho), image (imagem); só o que estiver listado está travado (ex.: com position travado, o texto ainda pode mudar). Elementos com qualquer lock não são apagados.",
     "- Se o usuário pedir para mudar um elemento travado, NÃO compense mudando outro elemento; apenas ignore e explique no summary.",
-    "- Não invente novos objectIds. Use apenas ids existentes no contexto.",
-    parsed.data.slideIndex
-      ? `- Restrinja a edição ao slideIndex alvo (${parsed.data.slideIndex}).`
-      : "- Se o usuário escolher um slide alvo, edite apenas aquele slide."
+    "- Em set_text, set_style, set_asset, move, resize, delete_object e regenerate_image, o objectId deve ser um id existente no contexto; ids novos só em add_object e add_slide.",
+    "- Use a memória do carrossel para interpretar referências a pedidos anteriores (ex.: \"curto como antes\"); não repita edições rejeitadas.",
+    "- Pedidos como \"a alteração anterior\" ou \"faça o mesmo no slide 3\" referem-se à conversa recente; use os ops listados nela.",
+    `- Escreva o summary no idioma do carrossel (${language}).`,
+    targetSlides.length === 1
+      ? `- Restrinja a edição ao slideIndex alvo (${targetSlides[0]}).`
+      : targetSlides.length > 1
+        ? `- Restrinja a edição aos slides alvo (${formatSlideTargets(targetSlides)}); aplique o pedido em cada um deles.`
+        : "- Se o usuário escolher um slide alvo, edite apenas aquele slide."
   ].join("\n");
 
   const user = [
     "Contexto (slides e elementos):",
     JSON.stringify(summary, null, 2),
     "",
+    "Paleta global atual:",
+    JSON.stringify(currentPalette(editorState)),
+    "",
     "lockedElements:",
     JSON.stringify(locked, null, 2),
     "",
+    "Memória do carrossel (resumo e últimos pedidos, do mais antigo ao mais recente):",
+    JSON.stringify(memoryForPrompt(memory), null, 2),
+    "",
+    recentMessages.length > 0 ? "Conversa recente (do mais antigo ao mais recente):" : "",
+    recentMessages.length > 0 ? JSON.stringify(messagesForPrompt(recentMessages), null, 2) : "",
     "allowedTargets (slideIndex:objectId) — se um target não estiver aqui, NÃO edite:",
     JSON.stringify(Array.from(allowedTargets), null, 2),
     "",
-    parsed.data.slideIndex ? `slideIndex alvo: ${parsed.data.slideIndex}` : "",
+    targetSlides.length > 0 ? `Slides alvo: ${JSON.stringify(targetSlides)}` : "",
+    selection.length > 0
+      ? `Elementos selecionados no canvas: ${JSON.stringify(selection)} — "isto", "este" e "esses" referem-se a eles; edite SOMENTE esses elementos.`
+      : "",
     `Instrução do usuário: ${parsed.data.instruction}`,
     "",
     "Formato esperado:",
@@ -880,6 +1299,22 @@ export async function applyNaturalLanguageEdit(input: {
           { op: "set_text", slideIndex: 1, objectId: "title", text: "..." },
           { op: "set_style", slideIndex: 1, objectId: "title", style: { fontWeight: 700 } },
           { op: "move", slideIndex: 1, objectId: "title", x: 100, y: 200 },
+          { op: "resize", slideIndex: 1, objectId: "title", width: 800, height: 200 },
+          {
+            op: "add_object",
+            slideIndex: 1,
+            object: { id: "caption", type: "text", text: "...", x: 80, y: 900, width: 920, height: 80 }
+          },
+          { op: "delete_object", slideIndex: 1, objectId: "cta" },
+          { op: "set_background", slideIndex: 1, color: "#101010" },
+          { op: "add_slide", afterSlideIndex: 3, objects: [] },
+          { op: "delete_slide", slideIndex: 4 },
+          { op: "duplicate_slide", slideIndex: 2 },
+          { op: "reorder_slides", order: [1, 3, 2, 4] },
+          {
+            op: "set_global_palette",
+            palette: { background: "#ffffff", text: "#111111", accent: "#ff5500" }
+          },
           {
             op: "regenerate_image",
             slideIndex: 1,
@@ -899,57 +1334,65 @@ export async function applyNaturalLanguageEdit(input: {
 
   // Early return: if user is requesting only locked targets (common "mude o título"),
   // avoid spending tokens and just report the lock.
-  if (!requested.wantsAll && requested.roles.size > 0 && allowedTargets.size > 0) {
-    const slideIndex = parsed.data.slideIndex;
+  const targetsRequested = selection.length > 0 || (!requested.wantsAll && requested.roles.size > 0);
+  if (targetsRequested && allowedTargets.size > 0) {
+    const slideIndex = targetSlides.length === 1 ? targetSlides[0] : undefined;
     if (typeof slideIndex === "number") {
-      const slideMeta = slideIdMap.get(slideIndex);
+      // Only fully locked targets count: a partial lock still leaves something editable.
+      const slideId = slideIdMap.get(slideIndex)?.slideId ?? `slide_${slideIndex}`;
       const lockedRequested = Array.from(allowedTargets)
         .filter((k) => k.startsWith(`${slideIndex}:`))
-        .filter((k) => {
-          const objectId = k.split(":")[1] ?? "";
-          return isLocked({
-            locks: carousel.element_locks as unknown,
-            slideId: slideMeta?.slideId ?? undefined,
-            slideIndex,
-            objectId
-          });
-        });
+        .filter((k) => isFullyLocked({ locks, slideId, objectId: k.split(":")[1] ?? "" }));
 
       const hasAnyUnlockedAllowedTarget = Array.from(allowedTargets)
         .filter((k) => k.startsWith(`${slideIndex}:`))
-        .some((k) => {
-          const objectId = k.split(":")[1] ?? "";
-          return !isLocked({
-            locks: carousel.element_locks as unknown,
-            slideId: slideMeta?.slideId ?? undefined,
-            slideIndex,
-            objectId
-          });
-        });
+        .some((k) => !isFullyLocked({ locks, slideId, objectId: k.split(":")[1] ?? "" }));
 
       if (lockedRequested.length > 0 && !hasAnyUnlockedAllowedTarget) {
+        const lockedSummary =
+          "Nada foi aplicado porque os elementos solicitados estão bloqueados por lock.";
+        const assistantMessage = await reply(lockedSummary, {
+          result: {
+            applied: 0,
+            skippedLocked: 0,
+            skippedMissing: 0,
+            blockedByLock: lockedRequested.length,
+            skippedPolicy: 0
+          }
+        });
         return {
           ok: true as const,
+          preview: false as const,
           applied: 0,
           skippedLocked: 0,
           skippedMissing: 0,
           blockedByLock: lockedRequested.length,
           skippedPolicy: 0,
-          summary: "Nada foi aplicado porque os elementos solicitados estão bloqueados por lock.",
+          summary: lockedSummary,
           nextState: currentStateSchemaFallback(editorState),
-          newAssets: []
+          newAssets: [],
+          history: toEditHistory(carousel.generation_meta),
+          messages: [userMessage, assistantMessage].filter(
+            (m): m is CarouselChatMessage => m !== null
+          )
         };
       }
     }
   }
 
-  const patchRes = await geminiGenerateJson({
-    system,
-    user,
-    schema: editPatchSchema
-  });
+  const patchRes = await aiGenerateJson("nl_edit", { system, user, schema: editPatchSchema }, meter);
 
   if (!patchRes.ok) {
+    await reply("Não consegui gerar a edição.", {
+      result: {
+        applied: 0,
+        skippedLocked: 0,
+        skippedMissing: 0,
+        blockedByLock: 0,
+        skippedPolicy: 0,
+        error: patchRes.error
+      }
+    });
     return { ok: false as const, error: patchRes.error };
   }
 
@@ -966,11 +1409,35 @@ export async function applyNaturalLanguageEdit(input: {
   const filteredOps: typeof originalOps = [];
   let skippedPolicy = 0;
   for (const op of originalOps) {
+    // A canvas selection scopes the edit to exactly those objects: nothing else, not even
+    // slide or carousel ops.
+    if (
+      selection.length > 0 &&
+      !("objectId" in op && allowedTargets.has(`${op.slideIndex}:${op.objectId}`))
+    ) {
+      skippedPolicy++;
+      continue;
+    }
+    // Carousel-wide ops are not tied to the target slide.
+    if (op.op === "add_slide" || op.op === "reorder_slides" || op.op === "set_global_palette") {
+      filteredOps.push(op);
+      continue;
+    }
     const slideIndex = typeof op.slideIndex === "number" ? op.slideIndex : null;
-    if (typeof parsed.data.slideIndex === "number" && slideIndex !== parsed.data.slideIndex) {
+    if (targetSlides.length > 0 && (slideIndex === null || !targetSlides.includes(slideIndex))) {
+      skippedPolicy++;
+      continue;
+    }
+    // The keyword fallback misses image requests outside pt/en, so only the classifier vetoes.
+    if (op.op === "regenerate_image" && requested.source === "model" && !requested.involvesImages) {
       skippedPolicy++;
       continue;
     }
+    // Slide-level ops and new objects have no existing target to check.
+    if (op.op === "delete_slide" || op.op === "duplicate_slide" || op.op === "set_background" || op.op === "add_object") {
+      filteredOps.push(op);
+      continue;
+    }
     const key = `${op.slideIndex}:${op.objectId}`;
     if (allowedTargets.size > 0 && !allowedTargets.has(key)) {
       skippedPolicy++;
@@ -979,89 +1446,37 @@ export async function applyNaturalLanguageEdit(input: {
     filteredOps.push(op);
   }
 
-  // Convert image regeneration ops into concrete assets (set_asset).
-  const admin = createSupabaseAdminClientIfAvailable();
-  const supabaseForInsert = admin ?? supabase;
-
-  const setAssetOps: Array<{ op: "set_asset"; slideIndex: number; objectId: string; assetId: string }> = [];
-  const newAssets: Array<{ id: string; signedUrl: string | null }> = [];
-
-  for (const op of filteredOps) {
-    if (op.op !== "regenerate_image") continue;
-    const slideIndex = typeof op.slideIndex === "number" ? op.slideIndex : null;
-    if (!slideIndex) continue;
-
-    const wantsText =
-      Boolean(op.withText) ||
-      /texto\s+na\s+imagem|com\s+texto/i.test(parsed.data.instruction);
-
-    const model: GeminiImageModel = wantsText
-      ? GEMINI_IMAGE_MODELS.NANO_BANANA_PRO
-      : GEMINI_IMAGE_MODELS.NANO_BANANA;
-
-    const image = await geminiNanoBananaGenerateImage({
-      prompt: op.prompt,
-      model
-    });
-    if (!image.ok) continue;
-
-    const ext = image.mimeType.includes("png")
-      ? "png"
-      : image.mimeType.includes("jpeg") || image.mimeType.includes("jpg")
-        ? "jpg"
-        : "png";
-
-    const path = `workspaces/${carousel.workspace_id}/carousels/${carousel.id}/generated/${crypto.randomUUID()}.${ext}`;
-
-    const { error: uploadError } = await uploadBytesToStorage({
-      bucket: "carousel-assets",
-      path,
-      bytes: image.bytes,
-      contentType: image.mimeType
-    });
-    if (uploadError) continue;
-
-    const { data: inserted, error: insertError } = await supabaseForInsert
-      .from("carousel_assets")
-      .insert({
-        workspace_id: carousel.workspace_id,
-        carousel_id: carousel.id,
-        owner_id: userData.user.id,
-        asset_type: "generated",
-        storage_bucket: "carousel-assets",
-        storage_path: path,
-        mime_type: image.mimeType,
-        status: "ready",
-        metadata: {
-          provider: image.provider,
-          model: image.model,
-          slideIndex,
-          prompt: op.prompt,
-          source: "nl_edit"
-        }
-      })
-      .select("id")
-      .single();
-
-    if (insertError || !inserted) continue;
-    setAssetOps.push({ op: "set_asset", slideIndex, objectId: op.objectId, assetId: inserted.id });
-
-    const signed = await createSignedUrl({ bucket: "carousel-assets", path });
-    newAssets.push({ id: inserted.id, signedUrl: signed.signedUrl });
-  }
+  // Images cost quota, so a dry run only proposes regenerate_image; they are generated
+  // when the proposal is accepted.
+  const imageOps = filteredOps
+    .filter((op) => op.op === "regenerate_image")
+    .map((op) => (requested.imageWithText ? { ...op, withText: true } : op));
+  const images = parsed.data.dryRun
+    ? { setAssetOps: [], newAssets: [] }
+    : await generateEditImages({
+        supabase,
+        carousel,
+        ownerId: userData.user.id,
+        ops: imageOps,
+        summary,
+        locks,
+        forceNewImage: Boolean(parsed.data.forceNewImage),
+        meter
+      });
+  const newAssets = images.newAssets;
 
   const patchForApply = {
     ...patchRes.data,
     ops: [
       ...filteredOps.filter((op) => op.op !== "regenerate_image"),
-      ...setAssetOps
+      ...(parsed.data.dryRun ? imageOps : images.setAssetOps)
     ]
   };
 
   const applied = applyEditPatch({
     editorState: currentState.data,
-    locks: carousel.element_locks as unknown,
-    patch: patchForApply
+    locks,
+    patch: { ...patchForApply, ops: patchForApply.ops.filter((op) => op.op !== "regenerate_image") }
   });
 
   // Count locks in a user-meaningful way: include both (a) ops skipped due to lock and
@@ -1076,15 +1491,8 @@ export async function applyNaturalLanguageEdit(input: {
     const [sRaw, objectId] = key.split(":");
     const slideIndex = Number(sRaw);
     if (!Number.isFinite(slideIndex) || !objectId) continue;
-    const slideMeta = slideIdMap.get(slideIndex);
-    if (
-      isLocked({
-        locks: carousel.element_locks as unknown,
-        slideId: slideMeta?.slideId ?? undefined,
-        slideIndex,
-        objectId
-      })
-    ) {
+    const slideId = slideIdMap.get(slideIndex)?.slideId ?? `slide_${slideIndex}`;
+    if (isFullyLocked({ locks, slideId, objectId })) {
       blockedTargets.add(`${slideIndex}:${objectId}`);
     }
   }
@@ -1092,37 +1500,84 @@ export async function applyNaturalLanguageEdit(input: {
   const appliedOps = applied.appliedOps;
   const didText =
     appliedOps.some((o) => o.op === "set_text") || appliedOps.some((o) => o.op === "set_style");
-  const didMove = appliedOps.some((o) => o.op === "move");
-  const didImage = appliedOps.some((o) => o.op === "set_asset");
+  const didMove = appliedOps.some((o) => o.op === "move" || o.op === "resize");
+  const didImage =
+    appliedOps.some((o) => o.op === "set_asset") || (Boolean(parsed.data.dryRun) && imageOps.length > 0);
+  const didColors = appliedOps.some(
+    (o) => o.op === "set_background" || o.op === "set_global_palette"
+  );
+  const didStructure = appliedOps.some((o) =>
+    ["add_slide", "delete_slide", "duplicate_slide", "reorder_slides", "add_object", "delete_object"].includes(o.op)
+  );
   const summaryParts: string[] = [];
   if (didText) summaryParts.push("Atualizou texto/estilo");
-  if (didMove) summaryParts.push("Moveu elementos");
+  if (didMove) summaryParts.push("Moveu/redimensionou elementos");
   if (didImage) summaryParts.push("Atualizou imagem");
+  if (didColors) summaryParts.push("Atualizou cores");
+  if (didStructure) summaryParts.push("Alterou slides/elementos");
   if (summaryParts.length === 0) summaryParts.push("Nenhuma alteração aplicada");
   if (blockedTargets.size > 0) summaryParts.push(`Locks respeitados: ${blockedTargets.size}`);
   if (skippedPolicy > 0) summaryParts.push(`Ignorados por política: ${skippedPolicy}`);
+  const rejectedStyle = describeRejectedStyle(applied.rejectedStyle);
+  if (rejectedStyle) summaryParts.push(rejectedStyle);
+  // The model's own summary doesn't know which style keys were dropped.
+  const replyText = patchRes.data.summary
+    ? [patchRes.data.summary, rejectedStyle].filter(Boolean).join(" · ")
+    : summaryParts.join(" · ");
+
+  const resultCounts: CarouselMessageResult = {
+    applied: applied.applied,
+    skippedLocked: applied.skippedLocked,
+    skippedMissing: applied.skippedMissing,
+    blockedByLock: blockedTargets.size,
+    skippedPolicy
+  };
 
-  const prevMeta =
-    carousel.generation_meta && typeof carousel.generation_meta === "object"
-      ? (carousel.generation_meta as Record<string, unknown>)
-      : {};
+  // An empty proposal has nothing to review; it falls through as a no-op edit.
+  if (parsed.data.dryRun && patchForApply.ops.length > 0) {
+    const proposal = await reply(replyText, {
+      patch: patchForApply,
+      result: {
+        ...resultCounts,
+        preview: "pending",
+        ...(parsed.data.forceNewImage && imageOps.length > 0 ? { forceNewImage: true } : {})
+      }
+    });
+    if (!proposal) return { ok: false as const, error: "Falha ao salvar a proposta de edição." };
 
-  const history = Array.isArray(prevMeta.edits) ? (prevMeta.edits as unknown[]) : [];
-  const nextHistory = [
-    {
-      at: new Date().toISOString(),
-      instruction: parsed.data.instruction,
-      slideIndex: parsed.data.slideIndex ?? null,
-      patch: patchRes.data,
+    return {
+      ok: true as const,
+      preview: true as const,
+      proposalId: proposal.id,
       applied: applied.applied,
       skippedLocked: applied.skippedLocked,
       skippedMissing: applied.skippedMissing,
-      model: process.env.GEMINI_MODEL ?? "gemini"
-    },
-    ...history
-  ].slice(0, 20);
+      skippedPolicy,
+      blockedByLock: blockedTargets.size,
+      summary: summaryParts.join(" · "),
+      patch: patchForApply,
+      diff: diffEditPatch({
+        editorState: currentState.data,
+        locks,
+        patch: patchForApply
+      }),
+      newAssets,
+      messages: [userMessage, proposal].filter((m): m is CarouselChatMessage => m !== null)
+    };
+  }
 
-  const nextMeta = { ...prevMeta, edits: nextHistory };
+  const nextMeta = withEditHistory(carousel.generation_meta, {
+    kind: "nl_edit",
+    instruction: parsed.data.instruction,
+    slideIndex: parsed.data.slideIndex ?? null,
+    patch: patchForApply,
+    inversePatch: applied.inversePatch,
+    applied: applied.applied,
+    skippedLocked: applied.skippedLocked,
+    skippedMissing: applied.skippedMissing,
+    model: editModelLabel(),
+    messageId: userMessage?.id ?? null
+  });
 
   const { error: updateError } = await supabase
     .from("carousels")
@@ -1130,9 +1585,31 @@ export async function applyNaturalLanguageEdit(input: {
     .eq("id", parsed.data.carouselId);
 
   if (updateError) return { ok: false as const, error: updateError.message };
+  const assistantMessage = await reply(replyText, {
+    patch: patchForApply,
+    result: resultCounts
+  });
+
+  await rememberCarouselTurn(supabase, {
+    carousel,
+    ownerId: userData.user.id,
+    turn: {
+      kind: "nl_edit",
+      instruction: parsed.data.instruction,
+      outcome:
+        applied.applied === 0
+          ? "rejected"
+          : blockedTargets.size > 0 || skippedPolicy > 0
+            ? "partial"
+            : "accepted",
+      slideIndex: parsed.data.slideIndex ?? null,
+      note: replyText
+    }
+  });
 
   return {
     ok: true as const,
+    preview: false as const,
     applied: applied.applied,
     skippedLocked: applied.skippedLocked,
     skippedMissing: applied.skippedMissing,
@@ -1140,7 +1617,364 @@ export async function applyNaturalLanguageEdit(input: {
     blockedByLock: blockedTargets.size,
     summary: summaryParts.join(" · "),
     nextState: applied.nextState,
-    newAssets
+    newAssets,
+    history: toEditHistory(nextMeta),
+    messages: [userMessage, assistantMessage].filter((m): m is CarouselChatMessage => m !== null)
+  };
+}
+
+const editProposalResolutionSchema = z.object({
+  carouselId: idSchema,
+  proposalId: idSchema,
+  acceptedOps: z.array(z.number().int().min(0).max(49)).max(50)
+});
+
+/**
+ * Resolves a dry-run proposal: all ops, a subset (by index in the proposed patch), or
+ * none (discard). Only the accepted ops go through `applyEditPatch`, against the
+ * carousel's current state, so locks set in the meantime still hold.
+ */
+export async function resolveNaturalLanguageEditPreview(input: {
+  carouselId: string;
+  proposalId: string;
+  acceptedOps: number[];
+}) {
+  const parsed = editProposalResolutionSchema.safeParse(input);
+  if (!parsed.success) return { ok: false as const, error: "Entrada inválida." };
+
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("id, workspace_id, owner_id, editor_state, element_locks, generation_meta")
+    .eq("id", parsed.data.carouselId)
+    .maybeSingle();
+
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (carousel.owner_id !== userData.user.id)
+    return { ok: false as const, error: "FORBIDDEN" };
+
+  const { data: proposal } = await supabase
+    .from("carousel_messages")
+    .select("*")
+    .eq("id", parsed.data.proposalId)
+    .eq("carousel_id", carousel.id)
+    .maybeSingle();
+
+  if (!proposal || proposal.role !== "assistant" || !proposal.result?.preview)
+    return { ok: false as const, error: "NOT_FOUND" };
+  if (proposal.result.preview !== "pending")
+    return { ok: false as const, error: "Esta proposta já foi aplicada ou descartada." };
+
+  const proposed = editPatchSchema.safeParse(proposal.patch);
+  if (!proposed.success) return { ok: false as const, error: "Proposta de edição inválida." };
+
+  const { data: request } = proposal.reply_to
+    ? await supabase
+        .from("carousel_messages")
+        .select("content")
+        .eq("id", proposal.reply_to)
+        .maybeSingle()
+    : { data: null };
+  const instruction = request?.content ?? proposal.content;
+
+  const acceptedIndexes = new Set(parsed.data.acceptedOps);
+  const acceptedOps = proposed.data.ops.filter((_, idx) => acceptedIndexes.has(idx));
+  const resolution =
+    acceptedOps.length === 0
+      ? ("discarded" as const)
+      : acceptedOps.length === proposed.data.ops.length
+        ? ("accepted" as const)
+        : ("partial" as const);
+
+  const respond = (
+    content: string,
+    extra: { patch?: Record<string, unknown>; result: CarouselMessageResult }
+  ) =>
+    appendCarouselMessage(supabase, {
+      carousel,
+      ownerId: userData.user.id,
+      role: "assistant",
+      content,
+      slideIndex: proposal.slide_index,
+      patch: extra.patch ?? null,
+      result: extra.result,
+      replyTo: proposal.id
+    });
+
+  // Claim the proposal before anything else, so a double submit or an accept racing a
+  // discard resolves it only once.
+  const { data: claimed } = await supabase
+    .from("carousel_messages")
+    .update({ result: { ...proposal.result, preview: resolution } })
+    .eq("id", proposal.id)
+    .eq("result->>preview", "pending")
+    .select("id");
+  if (!claimed || claimed.length === 0)
+    return { ok: false as const, error: "Esta proposta já foi aplicada ou descartada." };
+  // Failures after the claim hand the proposal back so it can be resolved again.
+  const pendingResult = { ...proposal.result, preview: "pending" as const };
+  const release = async (error: string) => {
+    await supabase
+      .from("carousel_messages")
+      .update({ result: pendingResult })
+      .eq("id", proposal.id)
+      .eq("result->>preview", resolution);
+    return { ok: false as const, error };
+  };
+
+  if (resolution === "discarded") {
+    const discardedSummary = "Proposta descartada; nada foi aplicado.";
+    const assistantMessage = await respond(discardedSummary, {
+      result: { applied: 0, skippedLocked: 0, skippedMissing: 0, blockedByLock: 0, skippedPolicy: 0 }
+    });
+    await rememberCarouselTurn(supabase, {
+      carousel,
+      ownerId: userData.user.id,
+      turn: {
+        kind: "nl_edit",
+        instruction,
+        outcome: "rejected",
+        slideIndex: proposal.slide_index,
+        note: `Proposta descartada pelo usuário: ${proposal.content}`
+      }
+    });
+    return {
+      ok: true as const,
+      preview: false as const,
+      applied: 0,
+      skippedLocked: 0,
+      skippedMissing: 0,
+      skippedPolicy: 0,
+      blockedByLock: 0,
+      summary: discardedSummary,
+      nextState: currentStateSchemaFallback(carousel.editor_state),
+      newAssets: [],
+      history: toEditHistory(carousel.generation_meta),
+      messages: assistantMessage ? [assistantMessage] : []
+    };
+  }
+
+  const currentState = editorStateSchema.safeParse(carousel.editor_state);
+  if (!currentState.success) {
+    return release("editor_state atual inválido; não foi possível aplicar edição.");
+  }
+
+  // Proposed images are generated only now, for the regenerate_image ops that were accepted.
+  const locks = carouselLocks(carousel);
+  const acceptedImageOps = acceptedOps.filter((op) => op.op === "regenerate_image");
+  if (acceptedImageOps.length > 0) {
+    const quota = await checkAiQuota(supabase, {
+      workspaceId: carousel.workspace_id,
+      userId: userData.user.id
+    });
+    if (!quota.ok) return release(describeQuotaError(quota));
+  }
+  const images = await generateEditImages({
+    supabase,
+    carousel,
+    ownerId: userData.user.id,
+    ops: acceptedImageOps,
+    summary: toEditableSummary(currentState.data),
+    locks,
+    forceNewImage: Boolean(proposal.result.forceNewImage),
+    meter: createAiUsageMeter(supabase, {
+      workspaceId: carousel.workspace_id,
+      userId: userData.user.id,
+      carouselId: carousel.id
+    })
+  });
+
+  const acceptedPatch = {
+    ...proposed.data,
+    ops: [...acceptedOps.filter((op) => op.op !== "regenerate_image"), ...images.setAssetOps]
+  };
+  const applied = applyEditPatch({
+    editorState: currentState.data,
+    locks,
+    patch: acceptedPatch
+  });
+
+  const nextMeta = withEditHistory(carousel.generation_meta, {
+    kind: "nl_edit",
+    instruction,
+    slideIndex: proposal.slide_index,
+    patch: acceptedPatch,
+    inversePatch: applied.inversePatch,
+    applied: applied.applied,
+    skippedLocked: applied.skippedLocked,
+    skippedMissing: applied.skippedMissing,
+    model: editModelLabel(),
+    messageId: proposal.reply_to
+  });
+
+  const { error: updateError } = await supabase
+    .from("carousels")
+    .update({ editor_state: applied.nextState, generation_meta: nextMeta })
+    .eq("id", carousel.id);
+
+  if (updateError) return release(updateError.message);
+
+  const summaryParts = [
+    `Aplicadas ${applied.applied} de ${proposed.data.ops.length} alterações propostas`
+  ];
+  if (applied.skippedLocked > 0) summaryParts.push(`Locks respeitados: ${applied.skippedLocked}`);
+  if (applied.skippedMissing > 0)
+    summaryParts.push(`Elementos não encontrados: ${applied.skippedMissing}`);
+  const rejectedStyle = describeRejectedStyle(applied.rejectedStyle);
+  if (rejectedStyle) summaryParts.push(rejectedStyle);
+  const summary = summaryParts.join(" · ");
+
+  const assistantMessage = await respond(summary, {
+    patch: acceptedPatch,
+    result: {
+      applied: applied.applied,
+      skippedLocked: applied.skippedLocked,
+      skippedMissing: applied.skippedMissing,
+      blockedByLock: applied.skippedLocked,
+      skippedPolicy: 0
+    }
+  });
+
+  await rememberCarouselTurn(supabase, {
+    carousel,
+    ownerId: userData.user.id,
+    turn: {
+      kind: "nl_edit",
+      instruction,
+      outcome:
+        applied.applied === 0
+          ? "rejected"
+          : resolution === "accepted" && applied.applied === proposed.data.ops.length
+            ? "accepted"
+            : "partial",
+      slideIndex: proposal.slide_index,
+      note:
+        resolution === "partial"
+          ? `${summary} (o usuário aceitou só parte da proposta: ${proposal.content})`
+          : proposal.content
+    }
+  });
+
+  return {
+    ok: true as const,
+    preview: false as const,
+    applied: applied.applied,
+    skippedLocked: applied.skippedLocked,
+    skippedMissing: applied.skippedMissing,
+    skippedPolicy: 0,
+    blockedByLock: applied.skippedLocked,
+    summary,
+    nextState: applied.nextState,
+    newAssets: images.newAssets,
+    history: toEditHistory(nextMeta),
+    messages: assistantMessage ? [assistantMessage] : []
+  };
+}
+
+const editRevertSchema = z.object({
+  carouselId: idSchema,
+  editId: idSchema
+});
+
+/**
+ * Reverts one generation_meta.edits entry by applying its inverse patch to the current
+ * state. Locks added since the edit are respected, so a revert may be partial. The revert
+ * is itself recorded with an inverse, so it can be undone too.
+ */
+export async function revertNaturalLanguageEdit(input: { carouselId: string; editId: string }) {
+  const parsed = editRevertSchema.safeParse(input);
+  if (!parsed.success) return { ok: false as const, error: "Entrada inválida." };
+
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("id, workspace_id, owner_id, editor_state, element_locks, generation_meta")
+    .eq("id", parsed.data.carouselId)
+    .maybeSingle();
+
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (carousel.owner_id !== userData.user.id)
+    return { ok: false as const, error: "FORBIDDEN" };
+
+  const entry = findEditHistoryEntry(carousel.generation_meta, parsed.data.editId);
+  if (!entry) return { ok: false as const, error: "NOT_FOUND" };
+  if (entry.revertedAt) return { ok: false as const, error: "Esta edição já foi revertida." };
+
+  const inverse = inversePatchSchema.safeParse(entry.inversePatch);
+  if (!inverse.success)
+    return { ok: false as const, error: "Esta edição não tem dados para ser revertida." };
+
+  const currentState = editorStateSchema.safeParse(carousel.editor_state);
+  if (!currentState.success) {
+    return {
+      ok: false as const,
+      error: "editor_state atual inválido; não foi possível reverter a edição."
+    };
+  }
+
+  const applied = applyEditPatch({
+    editorState: currentState.data,
+    locks: carouselLocks(carousel),
+    patch: inverse.data
+  });
+
+  const instruction = typeof entry.instruction === "string" ? entry.instruction : "";
+  const slideIndex = typeof entry.slideIndex === "number" ? entry.slideIndex : null;
+  const revertId = crypto.randomUUID();
+  const withRevert = withEditHistory(carousel.generation_meta, {
+    id: revertId,
+    kind: "revert",
+    revertOf: parsed.data.editId,
+    instruction,
+    slideIndex,
+    patch: inverse.data,
+    inversePatch: applied.inversePatch,
+    applied: applied.applied,
+    skippedLocked: applied.skippedLocked,
+    skippedMissing: applied.skippedMissing
+  });
+  const nextMeta = markEditReverted(withRevert, parsed.data.editId, revertId);
+
+  const { error: updateError } = await supabase
+    .from("carousels")
+    .update({ editor_state: applied.nextState, generation_meta: nextMeta })
+    .eq("id", carousel.id);
+
+  if (updateError) return { ok: false as const, error: updateError.message };
+
+  const summaryParts = [`Revertidas ${applied.applied} de ${inverse.data.ops.length} alterações`];
+  if (applied.skippedLocked > 0) summaryParts.push(`Locks respeitados: ${applied.skippedLocked}`);
+  if (applied.skippedMissing > 0)
+    summaryParts.push(`Elementos não encontrados: ${applied.skippedMissing}`);
+
+  if (entry.kind !== "revert" && instruction) {
+    await rememberCarouselTurn(supabase, {
+      carousel,
+      ownerId: userData.user.id,
+      turn: {
+        kind: "nl_edit",
+        instruction,
+        outcome: "rejected",
+        slideIndex,
+        note: "Edição revertida pelo usuário depois de aplicada."
+      }
+    });
+  }
+
+  return {
+    ok: true as const,
+    applied: applied.applied,
+    skippedLocked: applied.skippedLocked,
+    skippedMissing: applied.skippedMissing,
+    summary: summaryParts.join(" · "),
+    nextState: applied.nextState,
+    history: toEditHistory(nextMeta)
   };
 }
 
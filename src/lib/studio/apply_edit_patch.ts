@@ -1,194 +1,475 @@
 import "server-only";
 
 import type { CarouselEditorState } from "@/lib/db/types";
-import type { EditPatch } from "@/lib/studio/edit_contract";
-import { isLocked } from "@/lib/studio/locks";
+import {
+  EDIT_STYLE_KEYS,
+  MAX_SLIDES,
+  type InverseOp,
+  type InversePatch
+} from "@/lib/studio/edit_contract";
+import {
+  BACKGROUND_LOCK_ID,
+  isLocked,
+  type ElementLocks
+} from "@/lib/studio/locks";
+import type { LockKind } from "@/lib/db/types";
+
+type Slide = Record<string, unknown>;
+type OpRecord = { op: string; slideIndex?: number; slideId?: string; objectId?: string };
+/** set_style keys outside the style whitelist; they are dropped, never written. */
+type RejectedStyleRecord = { slideIndex: number; slideId?: string; objectId: string; keys: string[] };
+
+const DEFAULT_SLIDE_SIZE = 1080;
 
 function clone<T>(value: T): T {
   // editor_state is JSON-serializable by design.
   return JSON.parse(JSON.stringify(value)) as T;
 }
 
-function getSlideByTarget(
-  state: CarouselEditorState,
-  target: { slideId?: string; slideIndex?: number }
-) {
-  const slides = state.slides ?? [];
-  if (target.slideId) {
-    return slides.find((s) => (s as Record<string, unknown>).id === target.slideId) as
-      | Record<string, unknown>
-      | undefined;
-  }
-  if (typeof target.slideIndex === "number") {
-    return slides[target.slideIndex - 1] as Record<string, unknown> | undefined;
-  }
-  return undefined;
+function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && /^#[0-9a-fA-F]{6}$/.test(value);
+}
+
+function locateSlide(slides: Slide[], slideId: string | undefined) {
+  const idx = slideId ? slides.findIndex((s) => s.id === slideId) : -1;
+  return idx >= 0 ? { slide: slides[idx], slideIndex: idx + 1 } : null;
+}
+
+function slideIdOf(slide: Slide) {
+  return typeof slide.id === "string" ? slide.id : undefined;
 }
 
-function getObjects(slide: Record<string, unknown>) {
+function getObjects(slide: Slide) {
   const objects = slide.objects;
   return Array.isArray(objects)
     ? (objects as Array<Record<string, unknown>>)
     : [];
 }
 
-function findObject(slide: Record<string, unknown>, objectId: string) {
+function findObject(slide: Slide, objectId: string) {
   const objects = getObjects(slide);
   return objects.find((o) => o.id === objectId);
 }
 
+function lockableIds(slide: Slide) {
+  return [
+    ...getObjects(slide)
+      .map((o) => o.id)
+      .filter((id): id is string => typeof id === "string"),
+    BACKGROUND_LOCK_ID
+  ];
+}
+
+/** Any lock on the slide or its objects keeps the slide from being deleted. */
+function slideHasLocks(locks: ElementLocks, slide: Slide) {
+  const slideId = slide.id as string;
+  return lockableIds(slide).some((objectId) => isLocked({ locks, slideId, objectId }));
+}
+
+/** Lock kind each object op needs free; delete_object needs the object fully unlocked. */
+const OP_LOCK_KIND: Partial<Record<InverseOp["op"], LockKind>> = {
+  set_text: "content",
+  set_style: "style",
+  set_asset: "image",
+  regenerate_image: "image",
+  move: "position",
+  resize: "position"
+};
+
+function uniqueSlideId(slides: Slide[], preferred?: string) {
+  const used = new Set(slides.map(slideIdOf));
+  if (preferred && !used.has(preferred)) return preferred;
+  let id = `slide_${crypto.randomUUID().slice(0, 8)}`;
+  while (used.has(id)) id = `slide_${crypto.randomUUID().slice(0, 8)}`;
+  return id;
+}
+
+/**
+ * Slides without an id get `slide_<n>` (the key the studio already uses for their locks),
+ * so inverse patches and locks keep pointing at the same slide after structural edits.
+ */
+function ensureSlideIds(slides: Slide[]) {
+  slides.forEach((slide, idx) => {
+    if (slideIdOf(slide)) return;
+    slide.id = uniqueSlideId(slides, `slide_${idx + 1}`);
+  });
+}
+
+/** Same role → color mapping as the studio palette picker. */
+function paletteFillFor(obj: Record<string, unknown>, palette: { text: string; accent: string }) {
+  const id = typeof obj.id === "string" ? obj.id : null;
+  const variant = typeof obj.variant === "string" ? obj.variant : null;
+  const key = id === "swipe" ? "body" : (variant ?? id ?? "body");
+  return key === "title" ? palette.accent : palette.text;
+}
+
+/**
+ * Op that restores the given prior values. Missing text/assetId restore as ""/null; geometry
+ * that wasn't a valid number before has nothing to restore. Only whitelisted style keys are
+ * ever written, so only those are restored (null removes a key that didn't exist).
+ */
+function inverseObjectOp(
+  op: Extract<InverseOp, { objectId: string }>,
+  obj: Record<string, unknown>,
+  target: { slideIndex?: number; slideId?: string }
+): InverseOp[] {
+  const base = { ...target, objectId: op.objectId };
+
+  if (op.op === "set_text") {
+    return [{ op: "set_text", ...base, text: typeof obj.text === "string" ? obj.text : "" }];
+  }
+  if (op.op === "set_style") {
+    const keys = Object.keys(op.style).filter((k) => EDIT_STYLE_KEYS.has(k));
+    return keys.length > 0
+      ? [{ op: "set_style", ...base, style: Object.fromEntries(keys.map((k) => [k, obj[k] ?? null])) }]
+      : [];
+  }
+  if (op.op === "set_asset") {
+    return [
+      {
+        op: "set_asset",
+        ...base,
+        assetId: typeof obj.assetId === "string" && obj.assetId.length > 0 ? obj.assetId : null
+      }
+    ];
+  }
+  if (op.op === "move" || op.op === "resize") {
+    const keys = op.op === "move" ? (["x", "y"] as const) : (["width", "height"] as const);
+    const prior = Object.fromEntries(
+      keys
+        .filter((k) => typeof (op as Record<string, unknown>)[k] === "number")
+        .filter((k) => typeof obj[k] === "number" && Number.isFinite(obj[k]))
+        .filter((k) => op.op === "move" || (obj[k] as number) > 0)
+        .map((k) => [k, obj[k] as number])
+    );
+    return Object.keys(prior).length > 0 ? [{ op: op.op, ...base, ...prior }] : [];
+  }
+  return [];
+}
+
 export function applyEditPatch(input: {
   editorState: CarouselEditorState;
-  locks: unknown;
-  patch: EditPatch;
+  locks: ElementLocks;
+  patch: InversePatch;
 }): {
   nextState: CarouselEditorState;
   applied: number;
   skippedLocked: number;
   skippedMissing: number;
-  appliedOps: Array<{ op: string; slideIndex?: number; slideId?: string; objectId: string }>;
-  skippedLockedOps: Array<{ op: string; slideIndex?: number; slideId?: string; objectId: string }>;
-  skippedMissingOps: Array<{ op: string; slideIndex?: number; slideId?: string; objectId: string }>;
+  appliedOps: OpRecord[];
+  skippedLockedOps: OpRecord[];
+  skippedMissingOps: OpRecord[];
+  rejectedStyle: RejectedStyleRecord[];
+  /** Undoes the applied ops (newest first); null when nothing was applied. */
+  inversePatch: InversePatch | null;
 } {
   const nextState = clone(input.editorState);
   nextState.slides = Array.isArray(nextState.slides) ? nextState.slides : [];
+  const slides = nextState.slides as Slide[];
+  ensureSlideIds(slides);
+  const locks = input.locks;
+
+  // Slide indexes in a patch refer to the state it was written against (the model's
+  // context), so they are resolved to ids before any op adds, removes or moves slides.
+  const originalIds = slides.map((slide) => slide.id as string);
+  const originalId = (slideIndex: number | undefined) =>
+    typeof slideIndex === "number" ? originalIds[slideIndex - 1] : undefined;
 
-  let applied = 0;
-  let skippedLocked = 0;
-  let skippedMissing = 0;
-  const appliedOps: Array<{ op: string; slideIndex?: number; slideId?: string; objectId: string }> =
-    [];
-  const skippedLockedOps: Array<{
-    op: string;
-    slideIndex?: number;
-    slideId?: string;
-    objectId: string;
-  }> = [];
-  const skippedMissingOps: Array<{
-    op: string;
-    slideIndex?: number;
-    slideId?: string;
-    objectId: string;
-  }> = [];
+  const appliedOps: OpRecord[] = [];
+  const skippedLockedOps: OpRecord[] = [];
+  // Also holds ops that don't fit the current state (slide limit, duplicate ids, bad order).
+  const skippedMissingOps: OpRecord[] = [];
+  const rejectedStyle: RejectedStyleRecord[] = [];
+  const inverseOps: InverseOp[] = [];
+
+  const recordFor = (op: InverseOp, located: { slide: Slide; slideIndex: number } | null) => ({
+    op: op.op,
+    slideIndex:
+      located?.slideIndex ?? ("slideIndex" in op && typeof op.slideIndex === "number" ? op.slideIndex : undefined),
+    slideId: located ? slideIdOf(located.slide) : undefined,
+    objectId: "objectId" in op ? op.objectId : op.op === "add_object" ? op.object.id : undefined
+  });
 
   for (const op of input.patch.ops) {
-    const slide = getSlideByTarget(nextState, op);
-    const slideId =
-      slide && typeof slide.id === "string" ? (slide.id as string) : undefined;
-    const slideIndex = op.slideIndex;
-
-    if (!slide) {
-      skippedMissing++;
-      skippedMissingOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
-      });
+    if (op.op === "add_slide") {
+      const anchorId =
+        op.afterSlideId ?? (op.afterSlideIndex ? originalId(op.afterSlideIndex) : undefined);
+      const anchorAt = anchorId ? slides.findIndex((s) => s.id === anchorId) : -1;
+      const position =
+        op.afterSlideIndex === 0 && !op.afterSlideId
+          ? 0
+          : anchorAt >= 0
+            ? anchorAt + 1
+            : Math.min(op.afterSlideIndex ?? slides.length, slides.length);
+      if (slides.length >= MAX_SLIDES) {
+        skippedMissingOps.push(recordFor(op, null));
+        continue;
+      }
+      // New slides take size and background from their neighbour unless given.
+      const neighbour = slides[position - 1] ?? slides[0];
+      const slide: Slide = {
+        id: uniqueSlideId(slides, op.newSlideId),
+        width: typeof neighbour?.width === "number" ? neighbour.width : DEFAULT_SLIDE_SIZE,
+        height: typeof neighbour?.height === "number" ? neighbour.height : DEFAULT_SLIDE_SIZE,
+        background: clone(op.background ?? (neighbour?.background as unknown) ?? {}),
+        objects: clone(op.objects ?? [])
+      };
+      slides.splice(position, 0, slide);
+      inverseOps.unshift({ op: "delete_slide", slideId: slide.id as string });
+      appliedOps.push(recordFor(op, { slide, slideIndex: position + 1 }));
       continue;
     }
 
-    if (
-      isLocked({
-        locks: input.locks,
-        slideId,
-        slideIndex,
-        objectId: op.objectId
-      })
-    ) {
-      skippedLocked++;
-      skippedLockedOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
+    if (op.op === "reorder_slides") {
+      // `order` is a permutation of the original slides; `slideIds` (inverse patches) names
+      // the slides to rearrange. Either way the listed slides still present swap places among
+      // the positions they hold now, and slides added in the meantime stay where they are.
+      const order = op.order;
+      const ids =
+        op.slideIds ??
+        (order &&
+        order.length === originalIds.length &&
+        new Set(order).size === originalIds.length &&
+        order.every((i) => i >= 1 && i <= originalIds.length)
+          ? order.map((i) => originalIds[i - 1] as string)
+          : null);
+      const present = ids?.filter((id) => slides.some((s) => s.id === id)) ?? [];
+      if (!ids || new Set(ids).size !== ids.length || present.length === 0) {
+        skippedMissingOps.push(recordFor(op, null));
+        continue;
+      }
+      const listed = new Set(present);
+      const previous = slides.filter((s) => listed.has(s.id as string)).map((s) => s.id as string);
+      const byId = new Map(slides.map((s) => [s.id as string, s]));
+      let next = 0;
+      slides.forEach((slide, idx) => {
+        if (!listed.has(slide.id as string)) return;
+        slides[idx] = byId.get(present[next++] as string) as Slide;
       });
+      inverseOps.unshift({ op: "reorder_slides", slideIds: previous });
+      appliedOps.push(recordFor(op, null));
       continue;
     }
 
-    const obj = findObject(slide, op.objectId);
-    if (!obj) {
-      skippedMissing++;
-      skippedMissingOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
-      });
+    if (op.op === "set_global_palette") {
+      const global =
+        nextState.global && typeof nextState.global === "object"
+          ? (nextState.global as Record<string, unknown>)
+          : {};
+      nextState.global = global;
+      const prev =
+        global.paletteData && typeof global.paletteData === "object"
+          ? (global.paletteData as Record<string, unknown>)
+          : null;
+      const inverse: InverseOp[] = [];
+      if (prev && isHexColor(prev.background) && isHexColor(prev.text) && isHexColor(prev.accent)) {
+        inverse.push({
+          op: "set_global_palette",
+          palette: { background: prev.background, text: prev.text, accent: prev.accent },
+          recolor: false
+        });
+      }
+      global.paletteData = { ...op.palette };
+
+      // Slides with their own palette override and locked elements keep their colors.
+      if (op.recolor !== false) {
+        slides.forEach((slide) => {
+          if (slide.paletteData && typeof slide.paletteData === "object") return;
+          const slideId = slide.id as string;
+          if (!isLocked({ locks, slideId, objectId: BACKGROUND_LOCK_ID, kind: "style" })) {
+            const background =
+              slide.background && typeof slide.background === "object"
+                ? (slide.background as Record<string, unknown>)
+                : {};
+            if (isHexColor(background.color)) {
+              inverse.push({ op: "set_background", slideId, color: background.color });
+            }
+            background.color = op.palette.background;
+            slide.background = background;
+          }
+          for (const obj of getObjects(slide)) {
+            if (obj.type !== "text" || typeof obj.id !== "string") continue;
+            if (isLocked({ locks, slideId, objectId: obj.id, kind: "style" })) continue;
+            inverse.push({
+              op: "set_style",
+              slideId,
+              objectId: obj.id,
+              style: { fill: obj.fill ?? null }
+            });
+            obj.fill = paletteFillFor(obj, op.palette);
+          }
+        });
+      }
+      inverseOps.unshift(...inverse);
+      appliedOps.push(recordFor(op, null));
       continue;
     }
 
-    if (op.op === "set_text") {
-      obj.text = op.text;
-      applied++;
-      appliedOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
-      });
+    const located = locateSlide(slides, op.slideId ?? originalId(op.slideIndex));
+    if (!located) {
+      skippedMissingOps.push(recordFor(op, null));
       continue;
     }
+    const { slide, slideIndex } = located;
+    // Every slide has an id from ensureSlideIds; locks are keyed by it.
+    const slideId = slide.id as string;
+    const target = { slideIndex, slideId };
 
-    if (op.op === "set_style") {
-      for (const [k, v] of Object.entries(op.style)) {
-        (obj as Record<string, unknown>)[k] = v;
+    if (op.op === "delete_slide") {
+      const idx = slideIndex - 1;
+      if (slides.length <= 1) {
+        skippedMissingOps.push(recordFor(op, located));
+        continue;
       }
-      applied++;
-      appliedOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
+      if (slideHasLocks(locks, slide)) {
+        skippedLockedOps.push(recordFor(op, located));
+        continue;
+      }
+      slides.splice(idx, 1);
+      inverseOps.unshift({
+        op: "add_slide",
+        afterSlideIndex: idx,
+        ...(idx > 0 ? { afterSlideId: slides[idx - 1]!.id as string } : {}),
+        newSlideId: slideId,
+        background: clone((slide.background as Record<string, unknown> | undefined) ?? {}),
+        objects: clone(getObjects(slide)) as Extract<InverseOp, { op: "add_slide" }>["objects"]
       });
+      appliedOps.push(recordFor(op, located));
       continue;
     }
 
-    if (op.op === "set_asset") {
-      (obj as Record<string, unknown>).assetId = op.assetId;
-      applied++;
-      appliedOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
-      });
+    if (op.op === "duplicate_slide") {
+      if (slides.length >= MAX_SLIDES) {
+        skippedMissingOps.push(recordFor(op, located));
+        continue;
+      }
+      const copy = { ...clone(slide), id: uniqueSlideId(slides, op.newSlideId) };
+      slides.splice(slideIndex, 0, copy);
+      inverseOps.unshift({ op: "delete_slide", slideId: copy.id });
+      appliedOps.push(recordFor(op, located));
+      continue;
+    }
+
+    if (op.op === "set_background") {
+      if (isLocked({ locks, slideId, objectId: BACKGROUND_LOCK_ID, kind: "style" })) {
+        skippedLockedOps.push(recordFor(op, located));
+        continue;
+      }
+      const background =
+        slide.background && typeof slide.background === "object"
+          ? (slide.background as Record<string, unknown>)
+          : {};
+      const prevOverlay =
+        background.overlay && typeof background.overlay === "object"
+          ? (clone(background.overlay) as Record<string, unknown>)
+          : null;
+      const inverse: InverseOp[] = [];
+      if (op.color !== undefined && isHexColor(background.color)) {
+        inverse.push({ op: "set_background", ...target, color: background.color });
+      }
+      if (op.overlay !== undefined) {
+        // Overlays merge on apply, so the inverse clears first and then restores.
+        inverse.push({ op: "set_background", ...target, overlay: null });
+        if (prevOverlay) inverse.push({ op: "set_background", ...target, overlay: prevOverlay });
+      }
+
+      if (op.color !== undefined) background.color = op.color;
+      if (op.overlay === null) delete background.overlay;
+      else if (op.overlay) background.overlay = { ...(prevOverlay ?? {}), ...op.overlay };
+      slide.background = background;
+      inverseOps.unshift(...inverse);
+      appliedOps.push(recordFor(op, located));
+      continue;
+    }
+
+    if (op.op === "add_object") {
+      const objects = getObjects(slide);
+      if (objects.some((o) => o.id === op.object.id)) {
+        skippedMissingOps.push(recordFor(op, located));
+        continue;
+      }
+      const position = Math.min(op.index ?? objects.length, objects.length);
+      objects.splice(position, 0, clone(op.object));
+      slide.objects = objects;
+      inverseOps.unshift({ op: "delete_object", ...target, objectId: op.object.id });
+      appliedOps.push(recordFor(op, located));
+      continue;
+    }
+
+    if (isLocked({ locks, slideId, objectId: op.objectId, kind: OP_LOCK_KIND[op.op] })) {
+      skippedLockedOps.push(recordFor(op, located));
+      continue;
+    }
+
+    const obj = findObject(slide, op.objectId);
+    if (!obj) {
+      skippedMissingOps.push(recordFor(op, located));
       continue;
     }
 
     if (op.op === "regenerate_image") {
       // Handled upstream (server action generates an asset and converts to `set_asset`).
-      skippedMissing++;
-      skippedMissingOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
+      skippedMissingOps.push(recordFor(op, located));
+      continue;
+    }
+
+    if (op.op === "delete_object") {
+      const objects = getObjects(slide);
+      const position = objects.indexOf(obj);
+      inverseOps.unshift({
+        op: "add_object",
+        ...target,
+        object: clone(obj) as Extract<InverseOp, { op: "add_object" }>["object"],
+        index: position
       });
+      objects.splice(position, 1);
+      appliedOps.push(recordFor(op, located));
       continue;
     }
 
-    if (op.op === "move") {
+    if (op.op === "set_style") {
+      const rejected = Object.keys(op.style).filter((k) => !EDIT_STYLE_KEYS.has(k));
+      if (rejected.length > 0) {
+        rejectedStyle.push({ slideIndex, slideId, objectId: op.objectId, keys: rejected });
+      }
+      if (rejected.length === Object.keys(op.style).length) {
+        skippedMissingOps.push(recordFor(op, located));
+        continue;
+      }
+    }
+
+    // Prior values are captured before the op mutates the object.
+    inverseOps.unshift(...inverseObjectOp(op, obj, target));
+
+    if (op.op === "set_text") {
+      obj.text = op.text;
+    } else if (op.op === "set_style") {
+      for (const [k, v] of Object.entries(op.style)) {
+        if (!EDIT_STYLE_KEYS.has(k)) continue;
+        if (v === null) delete obj[k];
+        else obj[k] = v;
+      }
+    } else if (op.op === "set_asset") {
+      obj.assetId = op.assetId;
+    } else if (op.op === "move") {
       if (typeof op.x === "number") obj.x = op.x;
       if (typeof op.y === "number") obj.y = op.y;
-      applied++;
-      appliedOps.push({
-        op: op.op,
-        slideIndex: typeof slideIndex === "number" ? slideIndex : undefined,
-        slideId,
-        objectId: op.objectId
-      });
-      continue;
+    } else if (op.op === "resize") {
+      if (typeof op.width === "number") obj.width = op.width;
+      if (typeof op.height === "number") obj.height = op.height;
     }
+    appliedOps.push(recordFor(op, located));
   }
 
   return {
     nextState,
-    applied,
-    skippedLocked,
-    skippedMissing,
+    applied: appliedOps.length,
+    skippedLocked: skippedLockedOps.length,
+    skippedMissing: skippedMissingOps.length,
     appliedOps,
     skippedLockedOps,
-    skippedMissingOps
+    skippedMissingOps,
+    rejectedStyle,
+    inversePatch: inverseOps.length > 0 ? { ops: inverseOps } : null
   };
 }
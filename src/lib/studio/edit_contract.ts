@@ -2,54 +2,226 @@ import "server-only";
 
 import { z } from "zod";
 
+export const MAX_SLIDES = 20;
+
 const slideTargetSchema = z.object({
   slideId: z.string().min(1).optional(),
-  slideIndex: z.number().int().min(1).max(20).optional()
+  slideIndex: z.number().int().min(1).max(MAX_SLIDES).optional()
 });
 
-export const editOpSchema = z.discriminatedUnion("op", [
-  z
-    .object({
-      op: z.literal("set_text"),
-      objectId: z.string().min(1),
-      text: z.string().min(1).max(1500)
-    })
-    .merge(slideTargetSchema),
-  z
-    .object({
-      op: z.literal("set_style"),
-      objectId: z.string().min(1),
-      style: z.record(z.unknown())
-    })
-    .merge(slideTargetSchema),
-  z
-    .object({
-      op: z.literal("set_asset"),
-      objectId: z.string().min(1),
-      assetId: z.string().min(1)
-    })
-    .merge(slideTargetSchema),
-  z
-    .object({
-      op: z.literal("regenerate_image"),
-      objectId: z.string().min(1),
-      prompt: z.string().min(1).max(1500),
-      withText: z.boolean().optional()
-    })
-    .merge(slideTargetSchema),
-  z
-    .object({
-      op: z.literal("move"),
-      objectId: z.string().min(1),
-      x: z.number().finite().optional(),
-      y: z.number().finite().optional()
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+// New objects carry the canvas fields they need; extra style keys pass through so a deleted
+// object can be restored as-is by an inverse patch.
+const newObjectSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    type: z.enum(["text", "image"]),
+    variant: z.enum(["title", "body", "tagline", "cta", "custom"]).optional(),
+    text: z.string().max(1500).optional(),
+    x: z.number().finite(),
+    y: z.number().finite(),
+    width: z.number().finite().positive(),
+    height: z.number().finite().positive(),
+    fontSize: z.number().finite().positive().optional(),
+    fill: z.string().optional(),
+    assetId: z.string().min(1).nullable().optional()
+  })
+  .passthrough();
+
+const backgroundOverlaySchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    opacity: z.number().min(0).max(1).optional(),
+    color: hexColorSchema.optional(),
+    mode: z.enum(["solid", "bottom-gradient"]).optional(),
+    height: z.number().min(0).max(1).optional()
+  })
+  .passthrough();
+
+const paletteSchema = z.object({
+  background: hexColorSchema,
+  text: hexColorSchema,
+  accent: hexColorSchema
+});
+
+/** Same list as the studio font picker. */
+export const EDIT_FONT_FAMILIES = [
+  "Inter",
+  "Montserrat",
+  "Bebas Neue",
+  "Space Grotesk",
+  "Poppins",
+  "Rubik",
+  "Playfair Display",
+  "Merriweather",
+  "Space Mono",
+  'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+  "ui-serif, Georgia, serif"
+] as const;
+
+// Out-of-range numbers are clamped to the studio slider limits instead of failing the patch.
+function clampedNumber(min: number, max: number) {
+  return z
+    .number()
+    .finite()
+    .transform((v) => Math.min(max, Math.max(min, v)));
+}
+
+/**
+ * Style fields of SlideObjectV1 (FabricSlideCanvas) that set_style may write. Geometry, text
+ * and assets have their own ops. `null` removes the field so the canvas default applies.
+ */
+const editStyleShape = {
+  fontFamily: z.enum(EDIT_FONT_FAMILIES).nullable(),
+  fontSize: clampedNumber(1, 140).nullable(),
+  fontWeight: clampedNumber(100, 900).nullable(),
+  fontStyle: z.enum(["normal", "italic"]).nullable(),
+  fill: hexColorSchema.nullable(),
+  textAlign: z.enum(["left", "center", "right", "justify"]).nullable(),
+  lineHeight: clampedNumber(0.8, 2.5).nullable(),
+  letterSpacing: clampedNumber(-10, 30).nullable(),
+  underline: z.boolean().nullable(),
+  linethrough: z.boolean().nullable(),
+  textBackgroundColor: hexColorSchema.nullable(),
+  markerColor: hexColorSchema.nullable(),
+  markerHeight: clampedNumber(0.25, 1).nullable(),
+  markerAngle: clampedNumber(-15, 15).nullable(),
+  strokeWeight: z.enum(["none", "thin", "medium", "thick"]).nullable(),
+  strokeColor: hexColorSchema.nullable(),
+  filterColor: hexColorSchema.nullable(),
+  filterOpacity: clampedNumber(0, 1).nullable(),
+  cornerRounding: clampedNumber(0, 100).nullable(),
+  hidden: z.boolean().nullable()
+};
+
+export const EDIT_STYLE_KEYS: ReadonlySet<string> = new Set(Object.keys(editStyleShape));
+
+// Unknown keys pass validation so applyEditPatch can drop them and report them back.
+const editStyleSchema = z.object(editStyleShape).partial().passthrough();
+
+function buildEditOpSchema<S extends z.ZodTypeAny>(styleSchema: S) {
+  return z.discriminatedUnion("op", [
+    z
+      .object({
+        op: z.literal("set_text"),
+        objectId: z.string().min(1),
+        text: z.string().max(1500)
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("set_style"),
+        objectId: z.string().min(1),
+        style: styleSchema
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("set_asset"),
+        objectId: z.string().min(1),
+        /** null clears the slot. */
+        assetId: z.string().min(1).nullable()
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("regenerate_image"),
+        objectId: z.string().min(1),
+        prompt: z.string().min(1).max(1500),
+        withText: z.boolean().optional()
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("move"),
+        objectId: z.string().min(1),
+        x: z.number().finite().optional(),
+        y: z.number().finite().optional()
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("resize"),
+        objectId: z.string().min(1),
+        width: z.number().finite().positive().optional(),
+        height: z.number().finite().positive().optional()
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("add_object"),
+        object: newObjectSchema,
+        /** z-order position; appended on top when omitted. */
+        index: z.number().int().min(0).optional()
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("delete_object"),
+        objectId: z.string().min(1)
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("set_background"),
+        color: hexColorSchema.optional(),
+        overlay: backgroundOverlaySchema.nullable().optional()
+      })
+      .merge(slideTargetSchema),
+    z.object({
+      op: z.literal("add_slide"),
+      /** 0 inserts before the first slide; appended at the end when omitted. */
+      afterSlideIndex: z.number().int().min(0).max(MAX_SLIDES).optional(),
+      /** Inverse patches anchor a restored slide by id; wins over afterSlideIndex. */
+      afterSlideId: z.string().min(1).max(64).optional(),
+      newSlideId: z.string().min(1).max(64).optional(),
+      background: z.object({ color: hexColorSchema.optional() }).passthrough().optional(),
+      objects: z.array(newObjectSchema).max(20).optional()
+    }),
+    z
+      .object({
+        op: z.literal("delete_slide")
+      })
+      .merge(slideTargetSchema),
+    z
+      .object({
+        op: z.literal("duplicate_slide"),
+        newSlideId: z.string().min(1).max(64).optional()
+      })
+      .merge(slideTargetSchema),
+    z.object({
+      op: z.literal("reorder_slides"),
+      /** Slide indexes (1-based) of the patch's context in their new order; a full permutation. */
+      order: z.array(z.number().int().min(1).max(MAX_SLIDES)).min(1).max(MAX_SLIDES).optional(),
+      /** Inverse patches give slide ids instead; wins over order. */
+      slideIds: z.array(z.string().min(1).max(64)).min(1).max(MAX_SLIDES).optional()
+    }),
+    z.object({
+      op: z.literal("set_global_palette"),
+      palette: paletteSchema,
+      /** Recolors slide backgrounds and text fills; inverse patches restore colors explicitly. */
+      recolor: z.boolean().optional()
     })
-    .merge(slideTargetSchema)
-]);
+  ]);
+}
+
+export const editOpSchema = buildEditOpSchema(editStyleSchema);
 
 export const editPatchSchema = z.object({
   ops: z.array(editOpSchema).min(1).max(50),
   summary: z.string().max(300).optional()
 });
 
+// Inverse patches are generated, not model output: a palette change alone can restore
+// one color per slide and text object, and restored styles may predate the whitelist
+// (e.g. a planner font outside the picker list), so their values are taken as-is.
+export const inversePatchSchema = editPatchSchema.extend({
+  ops: z.array(buildEditOpSchema(z.record(z.unknown()))).min(1).max(1000)
+});
+
 export type EditPatch = z.infer<typeof editPatchSchema>;
+export type EditOp = EditPatch["ops"][number];
+export type InversePatch = z.infer<typeof inversePatchSchema>;
+/** Every EditOp is also an InverseOp; apply accepts both. */
+export type InverseOp = InversePatch["ops"][number];
@@ -0,0 +1,233 @@
+import "server-only";
+
+import type { CarouselEditorState } from "@/lib/db/types";
+import { applyEditPatch } from "@/lib/studio/apply_edit_patch";
+import { emptyElementLocks, type ElementLocks } from "@/lib/studio/locks";
+import { EDIT_STYLE_KEYS, type EditOp, type EditPatch } from "@/lib/studio/edit_contract";
+
+export type EditFieldChange = { field: string; before: unknown; after: unknown };
+
+export type EditOpDiff = {
+  /** Position of the op in the proposed patch; used to accept a subset. */
+  opIndex: number;
+  op: string;
+  status: "ok" | "locked" | "missing";
+  changes: EditFieldChange[];
+};
+
+/** `objectId` is null for slide-level ops (background, add/delete/duplicate slide). */
+export type EditObjectDiff = { objectId: string | null; objectType: string | null; ops: EditOpDiff[] };
+
+/** `slideIndex` is null for carousel-wide ops (reorder, global palette). */
+export type EditSlideDiff = {
+  slideIndex: number | null;
+  slideId: string | null;
+  objects: EditObjectDiff[];
+};
+
+type Slide = Record<string, unknown>;
+
+function touchedFields(op: EditOp): string[] {
+  if (op.op === "set_text") return ["text"];
+  // Rejected style keys never reach the object; the summary lists them instead.
+  if (op.op === "set_style") return Object.keys(op.style).filter((k) => EDIT_STYLE_KEYS.has(k));
+  if (op.op === "set_asset") return ["assetId"];
+  if (op.op === "move" || op.op === "resize") {
+    const keys = op.op === "move" ? (["x", "y"] as const) : (["width", "height"] as const);
+    return keys.filter((k) => typeof (op as Record<string, unknown>)[k] === "number");
+  }
+  return [];
+}
+
+function slidesOf(state: CarouselEditorState) {
+  return (state.slides ?? []) as Slide[];
+}
+
+function findSlide(state: CarouselEditorState, op: { slideId?: string; slideIndex?: number }) {
+  const slides = slidesOf(state);
+  if (op.slideId) {
+    const idx = slides.findIndex((s) => s.id === op.slideId);
+    return idx >= 0 ? { slide: slides[idx], slideIndex: idx + 1 } : null;
+  }
+  if (typeof op.slideIndex === "number" && slides[op.slideIndex - 1]) {
+    return { slide: slides[op.slideIndex - 1], slideIndex: op.slideIndex };
+  }
+  return null;
+}
+
+function findObject(slide: Slide | undefined, objectId: string) {
+  const objects = slide && Array.isArray(slide.objects) ? slide.objects : [];
+  return (objects as Array<Record<string, unknown>>).find((o) => o.id === objectId);
+}
+
+function backgroundOf(slide: Slide | undefined) {
+  return slide?.background && typeof slide.background === "object"
+    ? (slide.background as Record<string, unknown>)
+    : {};
+}
+
+/** Short label for a slide in the diff: its title text, or the object count. */
+function describeSlide(slide: Slide | undefined) {
+  if (!slide) return null;
+  const title = findObject(slide, "title");
+  if (typeof title?.text === "string") return title.text;
+  const objects = Array.isArray(slide.objects) ? slide.objects.length : 0;
+  return `${objects} elementos`;
+}
+
+function describeObject(obj: Record<string, unknown> | undefined) {
+  if (!obj) return null;
+  return typeof obj.text === "string" && obj.text ? obj.text : String(obj.type ?? "objeto");
+}
+
+function opChanges(
+  op: EditOp,
+  before: CarouselEditorState,
+  after: CarouselEditorState,
+  located: { slide: Slide; slideIndex: number } | null
+): EditFieldChange[] {
+  const afterSlide = located ? slidesOf(after)[located.slideIndex - 1] : undefined;
+
+  switch (op.op) {
+    case "add_slide": {
+      const position = Math.min(op.afterSlideIndex ?? slidesOf(before).length, slidesOf(before).length);
+      return [{ field: "slide", before: null, after: describeSlide(slidesOf(after)[position]) }];
+    }
+    case "delete_slide":
+      return [{ field: "slide", before: describeSlide(located?.slide), after: null }];
+    case "duplicate_slide":
+      return [
+        {
+          field: "slide",
+          before: null,
+          after: located ? `Cópia do slide ${located.slideIndex}` : null
+        }
+      ];
+    case "reorder_slides":
+      return [
+        {
+          field: "order",
+          before: slidesOf(before).map((_, idx) => idx + 1),
+          after: op.order ?? op.slideIds ?? null
+        }
+      ];
+    case "set_global_palette":
+      return [
+        {
+          field: "palette",
+          before: (before.global as Record<string, unknown> | undefined)?.paletteData ?? null,
+          after: op.palette
+        }
+      ];
+    case "set_background":
+      return (["color", "overlay"] as const)
+        .filter((k) => op[k] !== undefined)
+        .map((k) => ({
+          field: `background.${k}`,
+          before: backgroundOf(located?.slide)[k] ?? null,
+          after: backgroundOf(afterSlide)[k] ?? null
+        }));
+    case "add_object":
+      return [{ field: "object", before: null, after: describeObject(op.object) }];
+    case "regenerate_image":
+      return [
+        {
+          field: "assetId",
+          before: findObject(located?.slide, op.objectId)?.assetId ?? null,
+          after: `Nova imagem: ${op.prompt}`
+        }
+      ];
+    case "delete_object":
+      return [
+        {
+          field: "object",
+          before: describeObject(findObject(located?.slide, op.objectId)),
+          after: null
+        }
+      ];
+    default: {
+      const beforeObj = findObject(located?.slide, op.objectId);
+      const afterObj = findObject(afterSlide, op.objectId);
+      return touchedFields(op).map((field) => ({
+        field,
+        before: beforeObj?.[field] ?? null,
+        after: afterObj?.[field] ?? null
+      }));
+    }
+  }
+}
+
+/**
+ * Before/after values for every op of a proposed patch, grouped by slide and object.
+ * Each op is evaluated on its own against the current state, so any subset can be
+ * accepted later without the diff going stale.
+ */
+export function diffEditPatch(input: {
+  editorState: CarouselEditorState;
+  locks: ElementLocks;
+  patch: EditPatch;
+}): EditSlideDiff[] {
+  const slides: EditSlideDiff[] = [];
+
+  input.patch.ops.forEach((op, opIndex) => {
+    const single = applyEditPatch({
+      editorState: input.editorState,
+      locks: input.locks,
+      patch: { ops: [op] }
+    });
+    // regenerate_image only becomes set_asset once the image exists, on accept; until then
+    // it applies whenever its target is there and not image-locked.
+    const pendingImage =
+      op.op === "regenerate_image" &&
+      single.skippedLocked === 0 &&
+      Boolean(findObject(findSlide(input.editorState, op)?.slide, op.objectId));
+    const status =
+      single.applied > 0 || pendingImage ? "ok" : single.skippedLocked > 0 ? "locked" : "missing";
+
+    // Locked ops still show what the model proposed; the status tells they won't apply.
+    const proposed =
+      status === "locked"
+        ? applyEditPatch({
+            editorState: input.editorState,
+            locks: emptyElementLocks(),
+            patch: { ops: [op] }
+          })
+        : single;
+
+    const located =
+      op.op === "add_slide" || op.op === "reorder_slides" || op.op === "set_global_palette"
+        ? null
+        : findSlide(input.editorState, op);
+    const objectId =
+      "objectId" in op ? op.objectId : op.op === "add_object" ? op.object.id : null;
+
+    const slideCount = slidesOf(input.editorState).length;
+    const slideIndex =
+      op.op === "add_slide"
+        ? Math.min(op.afterSlideIndex ?? slideCount, slideCount) + 1
+        : (located?.slideIndex ?? null);
+    const slideId = typeof located?.slide.id === "string" ? located.slide.id : null;
+    let slide = slides.find((s) => s.slideIndex === slideIndex && s.slideId === slideId);
+    if (!slide) {
+      slide = { slideIndex, slideId, objects: [] };
+      slides.push(slide);
+    }
+    let object = slide.objects.find((o) => o.objectId === objectId);
+    if (!object) {
+      const existing = objectId ? findObject(located?.slide, objectId) : undefined;
+      const type = op.op === "add_object" ? op.object.type : existing?.type;
+      object = { objectId, objectType: typeof type === "string" ? type : null, ops: [] };
+      slide.objects.push(object);
+    }
+
+    object.ops.push({
+      opIndex,
+      op: op.op,
+      status,
+      changes: opChanges(op, input.editorState, proposed.nextState, located)
+    });
+  });
+
+  // Carousel-wide changes first, then slides in order.
+  return slides.sort((a, b) => (a.slideIndex ?? 0) - (b.slideIndex ?? 0));
+}
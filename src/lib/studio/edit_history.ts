@@ -0,0 +1,58 @@
+import "server-only";
+
+import type { EditHistoryItem } from "@/lib/db/types";
+
+const MAX_EDITS = 20;
+
+function metaRecord(generationMeta: unknown) {
+  return generationMeta && typeof generationMeta === "object"
+    ? (generationMeta as Record<string, unknown>)
+    : {};
+}
+
+function rawEdits(generationMeta: unknown) {
+  const edits = metaRecord(generationMeta).edits;
+  return Array.isArray(edits)
+    ? (edits.filter((e) => e && typeof e === "object") as Array<Record<string, unknown>>)
+    : [];
+}
+
+/** Prepends one entry to generation_meta.edits (newest first, capped). */
+export function withEditHistory(generationMeta: unknown, entry: Record<string, unknown>) {
+  return {
+    ...metaRecord(generationMeta),
+    edits: [
+      { id: crypto.randomUUID(), at: new Date().toISOString(), ...entry },
+      ...rawEdits(generationMeta)
+    ].slice(0, MAX_EDITS)
+  };
+}
+
+export function findEditHistoryEntry(generationMeta: unknown, editId: string) {
+  return rawEdits(generationMeta).find((e) => e.id === editId) ?? null;
+}
+
+export function markEditReverted(generationMeta: unknown, editId: string, revertId: string) {
+  const meta = metaRecord(generationMeta);
+  return {
+    ...meta,
+    edits: rawEdits(meta).map((e) =>
+      e.id === editId ? { ...e, revertedAt: new Date().toISOString(), revertedBy: revertId } : e
+    )
+  };
+}
+
+/** Client-facing list. Entries written before inverse patches existed are not revertible. */
+export function toEditHistory(generationMeta: unknown): EditHistoryItem[] {
+  const str = (v: unknown) => (typeof v === "string" ? v : null);
+  return rawEdits(generationMeta).map((e) => ({
+    id: str(e.id),
+    at: str(e.at) ?? "",
+    kind: e.kind === "revert" ? "revert" : "nl_edit",
+    instruction: str(e.instruction) ?? "",
+    slideIndex: typeof e.slideIndex === "number" ? e.slideIndex : null,
+    applied: typeof e.applied === "number" ? e.applied : 0,
+    revertible: typeof e.id === "string" && !!e.inversePatch && !e.revertedAt,
+    revertedAt: str(e.revertedAt)
+  }));
+}
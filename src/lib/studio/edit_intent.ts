@@ -0,0 +1,128 @@
+import "server-only";
+
+import { z } from "zod";
+import { aiGenerateJson, type AiUsageMeter } from "@/lib/ai/provider";
+import { MAX_SLIDES } from "@/lib/studio/edit_contract";
+import { contentSlideIndexes, parseSlideTargets } from "@/lib/studio/slide_targets";
+
+const REQUESTED_ROLES = ["title", "body", "tagline", "cta", "image", "text"] as const;
+
+export type RequestedRole = (typeof REQUESTED_ROLES)[number];
+
+const editIntentSchema = z.object({
+  wantsAll: z.boolean(),
+  roles: z.array(z.enum(REQUESTED_ROLES)).max(REQUESTED_ROLES.length),
+  slideIndexes: z.array(z.number().int().min(1).max(MAX_SLIDES)).max(MAX_SLIDES),
+  involvesImages: z.boolean(),
+  imageWithText: z.boolean()
+});
+
+export type EditIntent = {
+  wantsAll: boolean;
+  /** Empty means the instruction doesn't single out any element kind. */
+  roles: Set<RequestedRole>;
+  /** Slides the instruction names (1-based); empty when it names none. */
+  slideIndexes: number[];
+  involvesImages: boolean;
+  /** The user wants text rendered inside generated images. */
+  imageWithText: boolean;
+  /** "fallback" when the classifier call failed and the offline regexes were used. */
+  source: "model" | "fallback";
+};
+
+/** "slides 2-5", "slides 2 a 5", "slide 3 e 7", "todos exceto a capa"; empty when none. */
+function inferSlideIndexes(raw: string, slideCount: number) {
+  if (/(exceto|menos|sem)\s+a\s+capa|except\s+(for\s+)?the\s+cover/.test(raw)) {
+    return contentSlideIndexes(slideCount);
+  }
+  const match = /\bslides?\s+(\d+(?:\s*(?:-|–|a|até|to|,|e|and)\s*\d+)*)/.exec(raw);
+  if (!match) return [];
+  const list = match[1]!
+    .replace(/\s+(a|até|to)\s+/g, "-")
+    .replace(/\s+(e|and)\s+/g, ",");
+  return parseSlideTargets(list, slideCount) ?? [];
+}
+
+/** Offline fallback: Portuguese/English keyword matching. */
+export function inferEditIntentFromText(instruction: string, slideCount: number): EditIntent {
+  const raw = instruction.toLowerCase();
+  const roles = new Set<RequestedRole>();
+
+  const wantsAll =
+    /\b(tudo|todos|todas|everything|all)\b/.test(raw) ||
+    /carrossel\s+(inteiro|completo)/.test(raw) ||
+    /mude\s+tudo|troque\s+tudo|refa[cç]a\s+tudo|reescreva\s+tudo/.test(raw);
+
+  const wantsImage =
+    /\b(imagem|imagens|foto|fotos|image|images|background|fundo)\b/.test(raw) ||
+    /regenera(r)?\s+imagem/.test(raw);
+  const wantsTitle = /\b(t[ií]tulo|title|heading)\b/.test(raw);
+  const wantsBody =
+    /\b(corpo|body|descri[cç][aã]o|par[aá]grafo)\b/.test(raw) ||
+    /texto\s+do\s+corpo/.test(raw);
+  const wantsCta = /\b(cta|call to action|chamada)\b/.test(raw);
+  const wantsTagline = /\b(tagline|subt[ií]tulo|subtitle)\b/.test(raw);
+
+  if (wantsImage) roles.add("image");
+  if (wantsTitle) roles.add("title");
+  if (wantsBody) roles.add("body");
+  if (wantsCta) roles.add("cta");
+  if (wantsTagline) roles.add("tagline");
+
+  // If user explicitly says "texto" but not image, treat as "text" intent.
+  if (!wantsImage && /\b(texto|copy)\b/.test(raw)) roles.add("text");
+
+  return {
+    wantsAll,
+    roles,
+    slideIndexes: inferSlideIndexes(raw, slideCount),
+    involvesImages: wantsImage,
+    imageWithText: /texto\s+na\s+imagem|com\s+texto/.test(raw),
+    source: "fallback"
+  };
+}
+
+/**
+ * Classifies what an edit instruction targets with a small structured call, so instructions
+ * in any language get the same target filtering. Falls back to the keyword rules when the
+ * call fails (offline, quota on the provider, invalid answer).
+ */
+export async function detectEditIntent(
+  input: { instruction: string; language: string; slideCount: number },
+  meter?: AiUsageMeter
+): Promise<EditIntent> {
+  const system = [
+    "Você classifica pedidos de edição de um carrossel de slides.",
+    "O pedido pode estar em qualquer idioma; o idioma do carrossel é informado em `language`.",
+    "NÃO inclua Markdown. Responda SOMENTE com JSON válido.",
+    "Campos:",
+    "- wantsAll: true se o pedido vale para o carrossel inteiro ou para todos os elementos.",
+    "- roles: elementos citados: title (título), body (corpo/descrição), tagline (subtítulo/chamada acima do título), cta (chamada para ação), image (imagens/fotos/fundo), text (texto em geral, sem especificar). Lista vazia se nenhum for citado.",
+    "- slideIndexes: números dos slides citados (1 = primeiro; \"último\" = slideCount). Intervalos (\"slides 2–5\") e conjuntos viram a lista completa de índices; \"todos exceto a capa\" = 2 até slideCount. Lista vazia se nenhum for citado.",
+    "- involvesImages: true se o pedido envolve gerar, trocar ou alterar imagens.",
+    "- imageWithText: true se o usuário quer texto dentro da imagem gerada."
+  ].join("\n");
+
+  const user = JSON.stringify({
+    editInstruction: input.instruction,
+    language: input.language,
+    slideCount: input.slideCount
+  });
+
+  const res = await aiGenerateJson("nl_edit_intent", { system, user, schema: editIntentSchema }, meter);
+  if (!res.ok) {
+    console.warn(`[intent] classificação falhou, usando regras locais: ${res.error}`);
+    return inferEditIntentFromText(input.instruction, input.slideCount);
+  }
+
+  return {
+    wantsAll: res.data.wantsAll,
+    roles: new Set(res.data.roles),
+    slideIndexes: Array.from(new Set(res.data.slideIndexes))
+      .filter((i) => i <= input.slideCount)
+      .sort((a, b) => a - b),
+    involvesImages: res.data.involvesImages,
+    imageWithText: res.data.imageWithText,
+    source: "model"
+  };
+}
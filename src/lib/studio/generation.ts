@@ -2,18 +2,36 @@ import "server-only";
 
 import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import type { CarouselEditorState } from "@/lib/db/types";
-import { geminiGenerateJson } from "@/lib/ai/gemini";
+import { MAX_SLIDES } from "@/lib/studio/edit_contract";
+import type { CarouselEditorState, GenerationJobStage } from "@/lib/db/types";
+import { aiGenerateImage, aiGenerateJson } from "@/lib/ai/provider";
 import {
-  geminiNanoBananaGenerateImage,
   type GeminiImageModel,
   GEMINI_IMAGE_MODELS,
   isSupportedGeminiImageModel
 } from "@/lib/ai/gemini_image";
 import {
   plannerOutputSchema,
-  type PlannerOutput
+  slidePlanSchema,
+  type PlannerOutput,
+  type SlidePlan
 } from "@/lib/studio/planner_contract";
+import {
+  BACKGROUND_LOCK_ID,
+  isLocked,
+  normalizeElementLocks,
+  slideLockKey,
+  type ElementLocks
+} from "@/lib/studio/locks";
+import {
+  loadCarouselMemory,
+  memoryForPrompt,
+  rememberCarouselTurn,
+  type CarouselMemory
+} from "@/lib/studio/memory";
+import { loadLatestCarouselPlan, saveCarouselPlan } from "@/lib/studio/plans";
+import { imageCacheKey, reuseCachedImage } from "@/lib/studio/image_cache";
+import { createAiUsageMeter } from "@/lib/studio/usage";
 import {
   BUILTIN_TEMPLATES,
   extractTemplateLayout,
@@ -24,7 +42,13 @@ import {
   type Rect01,
   type TemplateDataV1
 } from "@/lib/studio/templates";
+import {
+  clampImageConcurrency,
+  runBounded,
+  withImageRetry
+} from "@/lib/studio/image_scheduler";
 
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
 type ReferenceImageInput = { mimeType: string; data: string; name: string; kind: "style" | "content" };
 type TextStyleMap = Record<string, Record<string, Record<string, unknown>>>;
 
@@ -239,7 +263,7 @@ function resolvePaletteFromVisual(visual: CarouselEditorState | null) {
 async function loadReferenceImages(input: {
   carouselId: string;
   workspaceId: string;
-  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>;
+  supabase: SupabaseDb;
 }) {
   const { data: assets, error } = await input.supabase
     .from("carousel_assets")
@@ -309,7 +333,7 @@ type TemplateBundle = {
 };
 
 async function resolveTemplateBundle(input: {
-  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>;
+  supabase: SupabaseDb;
   templateId?: string | null;
 }): Promise<TemplateBundle> {
   const fallback = BUILTIN_TEMPLATES[0]!;
@@ -340,7 +364,7 @@ async function resolveTemplateBundle(input: {
   return empty;
 }
 
-function buildPlannerPrompt(input: {
+export function buildPlannerPrompt(input: {
   topicOrPrompt: string;
   slidesCount: number;
   inputMode: "topic" | "prompt";
@@ -354,6 +378,7 @@ function buildPlannerPrompt(input: {
   styleReferences: ReferenceImageInput[];
   contentReferences: ReferenceImageInput[];
   similarity?: number;
+  memory?: CarouselMemory;
 }): { system: string; user: string } {
   const schemaGuide = [
     "Formato JSON obrigatório (PlannerOutputV1):",
@@ -421,6 +446,7 @@ function buildPlannerPrompt(input: {
     "Para ênfase no texto, use tags: <mark>marca texto</mark>, <u>sublinhado</u>, <b>negrito</b>.",
     "Não use outras tags nem deixe as tags aparecerem fora do texto.",
     "Nos prompts de imagem, não mencione marca texto, sublinhado, tipografia ou layout do texto.",
+    "`memory` resume pedidos anteriores do usuário neste carrossel (aceitos e rejeitados); mantenha as preferências aceitas e evite repetir o que foi rejeitado.",
     input.templatePrompt
       ? "Siga as instruções em `templateInstructions` para preencher textos e imagens."
       : null,
@@ -480,10 +506,7 @@ function buildPlannerPrompt(input: {
       contentImages: input.contentReferences.map((ref) => ref.name),
       order: referenceOrder
     },
-    memory: {
-      summary: "",
-      lastTurns: []
-    },
+    memory: memoryForPrompt(input.memory ?? { summary: "", lastTurns: [] }),
     constraints: {
       allowedFonts: ["Inter", "Poppins", "Lora", "Merriweather", "Montserrat", "Manrope"],
       templates: Array.from(
@@ -499,7 +522,7 @@ function buildPlannerPrompt(input: {
   return { system, user: JSON.stringify(payload, null, 2) };
 }
 
-function buildAestheticReviewPrompt(input: {
+export function buildAestheticReviewPrompt(input: {
   plan: PlannerOutput;
   template: TemplateDataV1;
   topicOrPrompt: string;
@@ -804,13 +827,14 @@ function applyPlanToVisualTemplate(input: {
 }
 
 async function uploadBytesToStorage(input: {
+  db: SupabaseDb;
   bucket: string;
   path: string;
   bytes: Uint8Array;
   contentType: string;
 }) {
   const admin = createSupabaseAdminClientIfAvailable();
-  const supabase = admin ?? (await createSupabaseServerClient());
+  const supabase = admin ?? input.db;
 
   const body = Buffer.from(input.bytes);
   const { error } = await supabase.storage
@@ -820,14 +844,246 @@ async function uploadBytesToStorage(input: {
   return { error };
 }
 
-export async function generateFirstDraftForCarousel(input: {
+export type FirstDraftImageCheckpoint = {
+  slideIndex: number;
+  slotId: string | null;
+  status: "ready" | "failed" | "failed_upload" | "failed_db";
+  assetId?: string;
+  path?: string;
+  attempts?: number;
+};
+
+/**
+ * Resumable state of a first-draft run, persisted by the job queue between stages.
+ * A resumed run skips everything already recorded here.
+ */
+export type FirstDraftCheckpoint = {
+  progress?: Record<string, unknown>;
+  plan?: PlannerOutput;
+  reviewed?: boolean;
+  /** Set once the owner approved the plan (two-phase mode only). */
+  approved?: boolean;
+  images?: Record<string, FirstDraftImageCheckpoint>;
+};
+
+type PlannedImageRequest = NonNullable<PlannerOutput["slides"][number]["images"]>[number];
+
+function buildImagePrompt(input: {
+  plan: PlannerOutput;
+  template: TemplateDataV1;
+  tone?: string;
+  request: PlannedImageRequest;
+}) {
+  const { request, template, plan } = input;
+  const slot = request.slotId
+    ? template.images.find((img) => img.id === request.slotId) ?? null
+    : null;
+  const slotRect = slot ? rectToPx(slot.bounds, template.slide.width, template.slide.height) : null;
+  const safeZones =
+    request.safeZones && request.safeZones.length > 0 ? request.safeZones : slot?.safeZones ?? [];
+
+  const extra: string[] = [];
+  if (slotRect) {
+    extra.push(
+      `Formato do slot: ${slotRect.w}x${slotRect.h}px (proporção ${slotRect.w}:${slotRect.h}).`
+    );
+  } else if (request.aspect) {
+    extra.push(`Proporção: ${request.aspect}.`);
+  }
+
+  if (safeZones.length > 0) {
+    const zoneHints = Array.from(new Set(safeZones.map(describeZone)));
+    extra.push(
+      `Reserve áreas limpas para texto nas regiões: ${zoneHints.join(", ")}.`
+    );
+    extra.push(
+      "Crie áreas de respiro (baixo contraste e poucos detalhes) nessas regiões."
+    );
+    extra.push(
+      "Não desenhe caixas, blur, faixas, guias, coordenadas ou texto para indicar essas áreas."
+    );
+  }
+
+  extra.push(`Paleta: ${plan.globalStyle.palette.background}, ${plan.globalStyle.palette.text}, ${plan.globalStyle.palette.accent}.`);
+  extra.push(`Tom: ${input.tone ?? "neutro"}.`);
+  if (!request.containsText) {
+    extra.push("Sem texto na imagem.");
+  }
+
+  return [request.prompt, ...extra.filter(Boolean)].join("\n").trim();
+}
+
+/** Slot size in px, or the slide size for backgrounds (adjusted by `aspect` when given). */
+function resolveImageSize(template: TemplateDataV1, request: PlannedImageRequest) {
+  const slot = request.slotId
+    ? template.images.find((img) => img.id === request.slotId) ?? null
+    : null;
+  if (slot) {
+    const rect = rectToPx(slot.bounds, template.slide.width, template.slide.height);
+    return { width: rect.w, height: rect.h };
+  }
+  const aspect = /^(\d+(?:\.\d+)?)\s*[:x]\s*(\d+(?:\.\d+)?)$/.exec(request.aspect ?? "");
+  if (aspect) {
+    const ratio = Number(aspect[1]) / Number(aspect[2]);
+    if (ratio > 0 && Number.isFinite(ratio)) {
+      return { width: template.slide.width, height: Math.round(template.slide.width / ratio) };
+    }
+  }
+  return { width: template.slide.width, height: template.slide.height };
+}
+
+/** Generates, uploads and registers one planned image, retrying generation + upload with backoff. */
+async function generatePlannedImage(input: {
+  db: SupabaseDb;
+  carousel: { id: string; workspace_id: string };
+  ownerId: string;
+  jobId?: string;
+  source?: string;
+  plan: PlannerOutput;
+  template: TemplateDataV1;
+  tone?: string;
+  imageModel: GeminiImageModel;
+  slideIndex: number;
+  request: PlannedImageRequest;
+  shouldStop?: () => Promise<boolean>;
+  /** Skip the workspace image cache and always pay for a fresh image. */
+  forceNewImage?: boolean;
+}): Promise<{ entry: FirstDraftImageCheckpoint; debugPrompt?: string }> {
+  const { carousel, request, slideIndex } = input;
+  const prompt = buildImagePrompt(input);
+  const debugPrompt = generationDebugEnabled() ? truncateText(prompt, 300) : undefined;
+  if (debugPrompt) {
+    console.log(
+      `[generation] image prompt slide ${slideIndex} slot ${request.slotId ?? "background"}: ${debugPrompt}`
+    );
+  }
+  const model = request.containsText ? GEMINI_IMAGE_MODELS.NANO_BANANA_PRO : input.imageModel;
+  const imageSize = resolveImageSize(input.template, request);
+  const meter = createAiUsageMeter(input.db, {
+    workspaceId: carousel.workspace_id,
+    userId: input.ownerId,
+    carouselId: carousel.id
+  });
+
+  const cacheKey = imageCacheKey({ model, prompt, size: imageSize });
+  const cached = input.forceNewImage
+    ? null
+    : await reuseCachedImage({
+        db: input.db,
+        workspaceId: carousel.workspace_id,
+        carouselId: carousel.id,
+        cacheKey
+      });
+
+  // Only malformed images and upload failures are retried here (generation and upload
+  // together); HTTP errors were already retried by the provider, and a DB insert failure
+  // is not retried (the bytes are already stored).
+  const { result, attempts } = cached
+    ? { result: { ok: true as const, image: cached, path: cached.path }, attempts: 0 }
+    : await withImageRetry(
+        async () => {
+          const image = await aiGenerateImage({ prompt, model, size: imageSize }, meter);
+          if (!image.ok) {
+            return { ok: false as const, status: "failed" as const, retryable: image.retryable };
+          }
+
+          const ext = image.mimeType.includes("png")
+            ? "png"
+            : image.mimeType.includes("jpeg") || image.mimeType.includes("jpg")
+              ? "jpg"
+              : "png";
+
+          const path = `workspaces/${carousel.workspace_id}/carousels/${carousel.id}/generated/${crypto.randomUUID()}.${ext}`;
+
+          const { error: uploadError } = await uploadBytesToStorage({
+            db: input.db,
+            bucket: "carousel-assets",
+            path,
+            bytes: image.bytes,
+            contentType: image.mimeType
+          });
+          if (uploadError) {
+            return { ok: false as const, status: "failed_upload" as const, retryable: true };
+          }
+
+          return { ok: true as const, image, path };
+        },
+        { shouldStop: input.shouldStop }
+      );
+
+  const slotId = request.slotId ?? null;
+  if (!result.ok) {
+    return { entry: { slideIndex, slotId, status: result.status, attempts }, debugPrompt };
+  }
+
+  const { image, path } = result;
+  const { data: inserted, error: insertError } = await input.db
+    .from("carousel_assets")
+    .insert({
+      workspace_id: carousel.workspace_id,
+      carousel_id: carousel.id,
+      owner_id: input.ownerId,
+      asset_type: "generated",
+      storage_bucket: "carousel-assets",
+      storage_path: path,
+      mime_type: image.mimeType,
+      status: "ready",
+      metadata: {
+        provider: image.provider,
+        model: image.model,
+        slideIndex,
+        slotId,
+        prompt: request.prompt ?? null,
+        aspect: request.aspect ?? null,
+        cache_key: cacheKey,
+        ...(cached ? { cached_from: cached.cachedFrom } : {}),
+        ...(input.jobId ? { jobId: input.jobId } : {}),
+        ...(input.source ? { source: input.source } : {})
+      }
+    })
+    .select("id")
+    .maybeSingle();
+
+  if (insertError || !inserted) {
+    return { entry: { slideIndex, slotId, status: "failed_db", attempts }, debugPrompt };
+  }
+  return {
+    entry: { slideIndex, slotId, status: "ready", assetId: inserted.id, path, attempts },
+    debugPrompt
+  };
+}
+
+async function loadImageConcurrency(db: SupabaseDb, workspaceId: string) {
+  const { data: workspace } = await db
+    .from("workspaces")
+    .select("image_generation_concurrency")
+    .eq("id", workspaceId)
+    .maybeSingle();
+  return clampImageConcurrency(workspace?.image_generation_concurrency);
+}
+
+function imageCheckpointKey(slideIndex: number, slotId: string | undefined, position: number) {
+  return `${slideIndex}:${slotId ?? "background"}:${position}`;
+}
+
+export async function runFirstDraftGeneration(input: {
+  db: SupabaseDb;
   carouselId: string;
+  ownerId: string;
+  jobId?: string;
   imageModel?: GeminiImageModel;
+  checkpoint: FirstDraftCheckpoint;
+  onCheckpoint: (stage: GenerationJobStage, checkpoint: FirstDraftCheckpoint) => Promise<void>;
+  isCancelled?: () => Promise<boolean>;
+  /** Stop after planning and wait for the plan to be approved before generating images. */
+  requirePlanApproval?: boolean;
 }) {
   const carouselId = input.carouselId;
-  const supabase = await createSupabaseServerClient();
-  const { data: userData } = await supabase.auth.getUser();
-  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+  const supabase = input.db;
+  const checkpoint: FirstDraftCheckpoint = {
+    ...input.checkpoint,
+    images: { ...(input.checkpoint.images ?? {}) }
+  };
 
   const { data: carousel } = await supabase
     .from("carousels")
@@ -836,11 +1092,13 @@ export async function generateFirstDraftForCarousel(input: {
     .maybeSingle();
 
   if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
-  if (carousel.owner_id !== userData.user.id)
-    return { ok: false as const, error: "FORBIDDEN" };
-  if (carousel.generation_status === "running") {
-    return { ok: false as const, error: "GENERATION_RUNNING" };
-  }
+
+  // Locked objects survive a rerun as they are, so their images are not generated again.
+  const currentSlides = Array.isArray((carousel.editor_state as CarouselEditorState | null)?.slides)
+    ? ((carousel.editor_state as CarouselEditorState).slides as unknown[])
+    : [];
+  const locks = normalizeElementLocks(carousel.element_locks, currentSlides);
+  const lockedSlots = lockedImageSlots(currentSlides, locks);
 
   const draft = carousel.draft as Record<string, unknown>;
   const slidesCount = Number(draft.slidesCount ?? 5);
@@ -856,6 +1114,11 @@ export async function generateFirstDraftForCarousel(input: {
   const imageModel = isSupportedGeminiImageModel(input.imageModel)
     ? input.imageModel
     : GEMINI_IMAGE_MODELS.NANO_BANANA;
+  const meter = createAiUsageMeter(supabase, {
+    workspaceId: carousel.workspace_id,
+    userId: input.ownerId,
+    carouselId: carousel.id
+  });
 
   const inputMode =
     draft.inputMode === "prompt" || draft.inputMode === "topic"
@@ -894,16 +1157,11 @@ export async function generateFirstDraftForCarousel(input: {
   const effectiveSlidesCount =
     visualSlidesCount > 0 ? visualSlidesCount : slidesCount;
 
-  const { style: styleReferences, content: contentReferences } = await loadReferenceImages({
-    carouselId: carousel.id,
-    workspaceId: carousel.workspace_id,
-    supabase
-  });
-
-  const progressMeta: Record<string, unknown> = {
+  const progressMeta: Record<string, unknown> = checkpoint.progress ?? {
     started_at: new Date().toISOString(),
     provider: "gemini",
     stage: "text",
+    stages: [{ stage: "text", at: new Date().toISOString() }],
     images: {
       model: imageModel,
       total: 0,
@@ -912,6 +1170,22 @@ export async function generateFirstDraftForCarousel(input: {
       bySlide: [] as Array<Record<string, unknown>>
     }
   };
+  if (input.jobId) progressMeta.job_id = input.jobId;
+  checkpoint.progress = progressMeta;
+
+  const saveProgress = async () => {
+    await supabase
+      .from("carousels")
+      .update({ generation_meta: progressMeta })
+      .eq("id", carouselId);
+  };
+
+  // Transitions are kept as a list so the live stream sees short-lived stages too.
+  const enterStage = (stage: string) => {
+    progressMeta.stage = stage;
+    const stages = Array.isArray(progressMeta.stages) ? progressMeta.stages : [];
+    progressMeta.stages = [...stages, { stage, at: new Date().toISOString() }];
+  };
 
   await supabase
     .from("carousels")
@@ -922,179 +1196,267 @@ export async function generateFirstDraftForCarousel(input: {
     })
     .eq("id", carouselId);
 
-  const { system, user } = buildPlannerPrompt({
-    topicOrPrompt,
-    slidesCount: effectiveSlidesCount,
-    inputMode,
-    tone: typeof draft.tone === "string" ? draft.tone : undefined,
-    targetAudience:
-      typeof draft.targetAudience === "string" ? draft.targetAudience : undefined,
-    language: typeof draft.language === "string" ? draft.language : undefined,
-    template,
-    templatePrompt: templateInstructions,
-    palette,
-    creator:
-      draft.creatorInfo && typeof draft.creatorInfo === "object"
-        ? (draft.creatorInfo as {
-            enabled: boolean;
-            name?: string;
-            handle?: string;
-            role?: string;
-          })
-        : undefined,
-    styleReferences,
-    contentReferences,
-    similarity: referenceSimilarity
-  });
+  const wasCancelled = async () => (input.isCancelled ? await input.isCancelled() : false);
+  if (await wasCancelled()) return { ok: false as const, error: "CANCELLED" };
 
-  if (generationDebugEnabled()) {
-    console.log(
-      `[generation] references style=${styleReferences.length} content=${contentReferences.length} similarity=${referenceSimilarity}`
+  let plan = checkpoint.plan ?? null;
+
+  if (!plan) {
+    const { style: styleReferences, content: contentReferences } = await loadReferenceImages({
+      carouselId: carousel.id,
+      workspaceId: carousel.workspace_id,
+      supabase
+    });
+
+    const { system, user } = buildPlannerPrompt({
+      topicOrPrompt,
+      slidesCount: effectiveSlidesCount,
+      inputMode,
+      tone: typeof draft.tone === "string" ? draft.tone : undefined,
+      targetAudience:
+        typeof draft.targetAudience === "string" ? draft.targetAudience : undefined,
+      language: typeof draft.language === "string" ? draft.language : undefined,
+      template,
+      templatePrompt: templateInstructions,
+      palette,
+      creator:
+        draft.creatorInfo && typeof draft.creatorInfo === "object"
+          ? (draft.creatorInfo as {
+              enabled: boolean;
+              name?: string;
+              handle?: string;
+              role?: string;
+            })
+          : undefined,
+      styleReferences,
+      contentReferences,
+      similarity: referenceSimilarity,
+      memory: await loadCarouselMemory(supabase, carousel.id)
+    });
+
+    if (generationDebugEnabled()) {
+      console.log(
+        `[generation] references style=${styleReferences.length} content=${contentReferences.length} similarity=${referenceSimilarity}`
+      );
+    }
+
+    const referenceImages = [...styleReferences, ...contentReferences].map((ref) => ({
+      mimeType: ref.mimeType,
+      data: ref.data
+    }));
+
+    const gen = await aiGenerateJson(
+      "planner",
+      { system, user, schema: plannerOutputSchema, images: referenceImages },
+      meter
     );
-  }
 
-  const referenceImages = [...styleReferences, ...contentReferences].map((ref) => ({
-    mimeType: ref.mimeType,
-    data: ref.data
-  }));
+    if (!gen.ok) {
+      enterStage("failed_text");
+      await supabase
+        .from("carousels")
+        .update({
+          generation_status: "failed",
+          generation_error: gen.error,
+          generation_meta: { ...progressMeta, raw: gen.raw ?? null }
+        })
+        .eq("id", carouselId);
+      return { ok: false as const, error: gen.error };
+    }
 
-  const gen = await geminiGenerateJson({
-    system,
-    user,
-    schema: plannerOutputSchema,
-    images: referenceImages
-  });
+    plan = plannerOutputSchema.parse(gen.data) as PlannerOutput;
+    if (generationDebugEnabled()) {
+      progressMeta.debug = {
+        ...(typeof progressMeta.debug === "object" && progressMeta.debug
+          ? (progressMeta.debug as Record<string, unknown>)
+          : {}),
+        planner: summarizePlan(plan),
+        references: {
+          style: styleReferences.length,
+          content: contentReferences.length,
+          similarity: referenceSimilarity
+        }
+      };
+      await saveProgress();
+      console.log("[generation] planner output", summarizePlan(plan));
+    }
 
-  if (!gen.ok) {
-    const prevMeta =
-      typeof carousel.generation_meta === "object" && carousel.generation_meta
-        ? (carousel.generation_meta as Record<string, unknown>)
-        : {};
-    await supabase
-      .from("carousels")
-      .update({
-        generation_status: "failed",
-        generation_error: gen.error,
-        generation_meta: { ...prevMeta, stage: "failed_text", raw: gen.raw ?? null }
-      })
-      .eq("id", carouselId);
-    return { ok: false as const, error: gen.error };
+    checkpoint.plan = plan;
+    await input.onCheckpoint("aesthetic_review", checkpoint);
   }
 
-  let plan = plannerOutputSchema.parse(gen.data) as PlannerOutput;
-  if (generationDebugEnabled()) {
-    progressMeta.debug = {
-      ...(typeof progressMeta.debug === "object" && progressMeta.debug
-        ? (progressMeta.debug as Record<string, unknown>)
-        : {}),
-      planner: summarizePlan(plan),
-      references: {
-        style: styleReferences.length,
-        content: contentReferences.length,
-        similarity: referenceSimilarity
+  if (await wasCancelled()) return { ok: false as const, error: "CANCELLED" };
+
+  if (!checkpoint.reviewed) {
+    const maxPassesRaw = Number(process.env.AESTHETIC_MAX_PASSES ?? 1);
+    const maxPasses = Number.isFinite(maxPassesRaw)
+      ? Math.max(0, Math.min(2, Math.floor(maxPassesRaw)))
+      : 1;
+
+    if (maxPasses > 0) {
+      enterStage("aesthetic_review");
+      await saveProgress();
+
+      const { system: reviewSystem, user: reviewUser } = buildAestheticReviewPrompt({
+        plan,
+        template,
+        topicOrPrompt,
+        tone: typeof draft.tone === "string" ? draft.tone : undefined,
+        targetAudience:
+          typeof draft.targetAudience === "string" ? draft.targetAudience : undefined,
+        language: typeof draft.language === "string" ? draft.language : undefined
+      });
+
+      const review = await aiGenerateJson(
+        "aesthetic_review",
+        { system: reviewSystem, user: reviewUser, schema: plannerOutputSchema },
+        meter
+      );
+
+      if (review.ok) {
+        plan = plannerOutputSchema.parse(review.data) as PlannerOutput;
+        if (generationDebugEnabled()) {
+          progressMeta.debug = {
+            ...(typeof progressMeta.debug === "object" && progressMeta.debug
+              ? (progressMeta.debug as Record<string, unknown>)
+              : {}),
+            review: summarizePlan(plan)
+          };
+          await saveProgress();
+          console.log("[generation] aesthetic review plan", summarizePlan(plan));
+        }
+      } else {
+        enterStage("aesthetic_review_failed");
+        await supabase
+          .from("carousels")
+          .update({
+            generation_meta: {
+              ...progressMeta,
+              raw: review.raw ?? null
+            }
+          })
+          .eq("id", carouselId);
       }
-    };
+    }
+
+    checkpoint.plan = plan;
+    checkpoint.reviewed = true;
+    await input.onCheckpoint("images", checkpoint);
+  }
+
+  if (input.requirePlanApproval && !checkpoint.approved) {
+    enterStage("awaiting_approval");
+    progressMeta.plan = plan;
     await supabase
       .from("carousels")
-      .update({ generation_meta: progressMeta })
+      .update({ generation_status: "awaiting_approval", generation_meta: progressMeta })
       .eq("id", carouselId);
-    console.log("[generation] planner output", summarizePlan(plan));
+    await input.onCheckpoint("images", checkpoint);
+    return { ok: true as const, awaitingApproval: true as const, plan, assets: [] };
   }
 
-  const maxPassesRaw = Number(process.env.AESTHETIC_MAX_PASSES ?? 1);
-  const maxPasses = Number.isFinite(maxPassesRaw)
-    ? Math.max(0, Math.min(2, Math.floor(maxPassesRaw)))
-    : 1;
+  // Locked slots and backgrounds keep their current image, so they are neither generated nor counted.
+  const imageTasks = plan.slides.flatMap((slide) =>
+    (slide.images ?? [])
+      .map((request, position) => ({
+        slide,
+        request,
+        key: imageCheckpointKey(slide.index, request.slotId, position)
+      }))
+      .filter(({ slide, request }) => {
+        const slideId = `slide_${slide.index}`;
+        if (request.slotId) return !lockedSlots.has(`${slideId}:${request.slotId}`);
+        return !(
+          request.purpose === "background" &&
+          isLocked({ locks, slideId, objectId: BACKGROUND_LOCK_ID })
+        );
+      })
+  );
 
-  if (maxPasses > 0) {
-    progressMeta.stage = "aesthetic_review";
-    await supabase
-      .from("carousels")
-      .update({ generation_meta: progressMeta })
-      .eq("id", carouselId);
+  (progressMeta.images as Record<string, unknown>).total = imageTasks.length;
+  enterStage("images");
+  progressMeta.title = plan.slides[0]?.text.title ?? topicOrPrompt;
+  await saveProgress();
 
-    const { system: reviewSystem, user: reviewUser } = buildAestheticReviewPrompt({
-      plan,
-      template,
-      topicOrPrompt,
-      tone: typeof draft.tone === "string" ? draft.tone : undefined,
-      targetAudience:
-        typeof draft.targetAudience === "string" ? draft.targetAudience : undefined,
-      language: typeof draft.language === "string" ? draft.language : undefined
-    });
+  const imageCheckpoints = checkpoint.images ?? {};
+  const concurrency = await loadImageConcurrency(supabase, carousel.workspace_id);
+
+  const imagesMeta = progressMeta.images as Record<string, unknown>;
+  const bySlide = imagesMeta.bySlide as Array<Record<string, unknown>>;
+  imagesMeta.concurrency = concurrency;
 
-    const review = await geminiGenerateJson({
-      system: reviewSystem,
-      user: reviewUser,
-      schema: plannerOutputSchema
+  // Workers finish out of order; chain the writes so an older snapshot never lands last.
+  let persistChain: Promise<void> = Promise.resolve();
+  const persist = () => {
+    persistChain = persistChain.then(async () => {
+      await saveProgress();
+      await input.onCheckpoint("images", checkpoint);
     });
+    return persistChain;
+  };
 
-    if (review.ok) {
-      plan = plannerOutputSchema.parse(review.data) as PlannerOutput;
-      if (generationDebugEnabled()) {
-        progressMeta.debug = {
-          ...(typeof progressMeta.debug === "object" && progressMeta.debug
-            ? (progressMeta.debug as Record<string, unknown>)
-            : {}),
-          review: summarizePlan(plan)
-        };
-        await supabase
-          .from("carousels")
-          .update({ generation_meta: progressMeta })
-          .eq("id", carouselId);
-        console.log("[generation] aesthetic review plan", summarizePlan(plan));
-      }
+  const recordImage = async (
+    key: string,
+    entry: FirstDraftImageCheckpoint,
+    debugPrompt?: string
+  ) => {
+    if (entry.status === "ready") {
+      imagesMeta.done = Number(imagesMeta.done ?? 0) + 1;
     } else {
-      const prevMeta =
-        typeof carousel.generation_meta === "object" && carousel.generation_meta
-          ? (carousel.generation_meta as Record<string, unknown>)
-          : {};
-      await supabase
-        .from("carousels")
-        .update({
-          generation_meta: { ...prevMeta, stage: "aesthetic_review_failed", raw: review.raw ?? null }
-        })
-        .eq("id", carouselId);
+      imagesMeta.failed = Number(imagesMeta.failed ?? 0) + 1;
     }
-  }
-  const totalImages = plan.slides.reduce(
-    (sum, slide) => sum + (slide.images?.length ?? 0),
-    0
-  );
+    bySlide.push({
+      slideIndex: entry.slideIndex,
+      slotId: entry.slotId,
+      status: entry.status,
+      attempts: entry.attempts ?? 1,
+      ...(entry.assetId ? { assetId: entry.assetId } : {}),
+      ...(entry.path ? { path: entry.path } : {}),
+      ...(debugPrompt ? { prompt: debugPrompt } : {})
+    });
+    imageCheckpoints[key] = entry;
+    await persist();
+  };
 
-  (progressMeta.images as Record<string, unknown>).total = totalImages;
-  progressMeta.stage = "images";
-  progressMeta.title = plan.slides[0]?.text.title ?? topicOrPrompt;
-  await supabase
-    .from("carousels")
-    .update({ generation_meta: progressMeta })
-    .eq("id", carouselId);
+  const pending = imageTasks.filter((task) => !imageCheckpoints[task.key]);
+
+  let cancelled = false;
+  await runBounded(pending, concurrency, async ({ slide, request, key }) => {
+    if (await wasCancelled()) {
+      cancelled = true;
+      return false;
+    }
+
+    const { entry, debugPrompt } = await generatePlannedImage({
+      db: supabase,
+      carousel,
+      ownerId: input.ownerId,
+      jobId: input.jobId,
+      plan,
+      template,
+      tone: typeof draft.tone === "string" ? draft.tone : undefined,
+      imageModel,
+      slideIndex: slide.index,
+      request,
+      shouldStop: wasCancelled
+    });
+    await recordImage(key, entry, debugPrompt);
+  });
+  await persistChain;
+  if (cancelled) return { ok: false as const, error: "CANCELLED" };
+
+  if (await wasCancelled()) return { ok: false as const, error: "CANCELLED" };
+  await input.onCheckpoint("editor_state", checkpoint);
 
   const editorState = visualTemplate
     ? applyPlanToVisualTemplate({ plan, template, visual: visualTemplate })
     : toEditorStateFromPlan({ plan, template });
 
-  const generatedAssets: Array<{ slideIndex: number; path: string }> = [];
-
   const editorSlides = Array.isArray(editorState.slides)
     ? (editorState.slides as Array<Record<string, unknown>>)
     : [];
 
-  const templateImageMap = new Map(template.images.map((img) => [img.id, img]));
-
-  const appendImagePrompt = (base: string, extra: string[]) => {
-    const text = [base, ...extra.filter(Boolean)].join("\n");
-    return text.trim();
-  };
-
-  const resolveSlotRect = (slotId?: string) => {
-    if (!slotId) return null;
-    const slot = templateImageMap.get(slotId);
-    if (!slot) return null;
-    return rectToPx(slot.bounds, template.slide.width, template.slide.height);
-  };
-
-  const assignAssetId = (slideIndex: number, slotId: string | undefined, assetId: string) => {
+  const assignAssetId = (slideIndex: number, slotId: string | null, assetId: string) => {
     if (!slotId) return;
     const slide = editorSlides.find(
       (s) => s && typeof s === "object" && (s as { id?: unknown }).id === `slide_${slideIndex}`
@@ -1109,170 +1471,670 @@ export async function generateFirstDraftForCarousel(input: {
     }
   };
 
-  for (const slide of plan.slides) {
-    const images = slide.images ?? [];
-    for (const request of images) {
-      const slotRect = resolveSlotRect(request.slotId);
-      const safeZones =
-        request.safeZones && request.safeZones.length > 0
-          ? request.safeZones
-          : request.slotId
-            ? templateImageMap.get(request.slotId)?.safeZones ?? []
-            : [];
-
-      const extra: string[] = [];
-      if (slotRect) {
-        extra.push(
-          `Formato do slot: ${slotRect.w}x${slotRect.h}px (proporção ${slotRect.w}:${slotRect.h}).`
-        );
-      } else if (request.aspect) {
-        extra.push(`Proporção: ${request.aspect}.`);
-      }
+  const generatedAssets: Array<{ slideIndex: number; path: string }> = [];
+  for (const entry of Object.values(imageCheckpoints)) {
+    if (entry.status !== "ready" || !entry.assetId) continue;
+    assignAssetId(entry.slideIndex, entry.slotId, entry.assetId);
+    if (entry.path) generatedAssets.push({ slideIndex: entry.slideIndex, path: entry.path });
+  }
 
-      if (safeZones.length > 0) {
-        const zoneHints = Array.from(new Set(safeZones.map(describeZone)));
-        extra.push(
-          `Reserve áreas limpas para texto nas regiões: ${zoneHints.join(", ")}.`
-        );
-        extra.push(
-          "Crie áreas de respiro (baixo contraste e poucos detalhes) nessas regiões."
-        );
-        extra.push(
-          "Não desenhe caixas, blur, faixas, guias, coordenadas ou texto para indicar essas áreas."
-        );
-      }
+  // A rerun keeps whatever the user locked on the slides it replaces.
+  const carried = carryOverLockedObjects({
+    fresh: editorSlides,
+    current: currentSlides,
+    locks
+  });
+  editorState.slides = carried.slides;
+  progressMeta.lockedSlides = { kept: carried.kept, dropped: carried.dropped };
+
+  await saveCarouselPlan(supabase, {
+    carousel,
+    ownerId: input.ownerId,
+    jobId: input.jobId,
+    source: "first_draft",
+    plan
+  });
 
-      extra.push(`Paleta: ${plan.globalStyle.palette.background}, ${plan.globalStyle.palette.text}, ${plan.globalStyle.palette.accent}.`);
-      extra.push(`Tom: ${typeof draft.tone === "string" ? draft.tone : "neutro"}.`);
-      if (!request.containsText) {
-        extra.push("Sem texto na imagem.");
-      }
+  // Last chance before the carousel is overwritten (cancel, or the job recovered elsewhere).
+  if (await wasCancelled()) return { ok: false as const, error: "CANCELLED" };
+  enterStage("done");
+  progressMeta.finished_at = new Date().toISOString();
 
-      const prompt = appendImagePrompt(request.prompt, extra);
-      const debugPrompt = generationDebugEnabled() ? truncateText(prompt, 300) : undefined;
-      if (debugPrompt) {
-        console.log(
-          `[generation] image prompt slide ${slide.index} slot ${request.slotId ?? "background"}: ${debugPrompt}`
-        );
+  await supabase
+    .from("carousels")
+    .update({
+      title: plan.slides[0]?.text.title ?? carousel.title,
+      editor_state: editorState,
+      generation_status: "succeeded",
+      generation_error: null,
+      generation_meta: progressMeta
+    })
+    .eq("id", carouselId);
+
+  return { ok: true as const, awaitingApproval: false as const, plan, assets: generatedAssets };
+}
+
+function slideObjectsOf(slide: unknown) {
+  const objects =
+    slide && typeof slide === "object" ? (slide as Record<string, unknown>).objects : null;
+  return Array.isArray(objects) ? (objects as Array<Record<string, unknown>>) : [];
+}
+
+/** `slideId:slotId` of image slots whose current object is locked; reruns keep those images. */
+function lockedImageSlots(current: unknown[], locks: ElementLocks) {
+  const slots = new Set<string>();
+  current.forEach((slide, idx) => {
+    const slideId = slideLockKey(slide, idx + 1);
+    for (const obj of slideObjectsOf(slide)) {
+      if (obj.type !== "image" || typeof obj.slotId !== "string" || typeof obj.id !== "string") continue;
+      if (isLocked({ locks, slideId, objectId: obj.id })) slots.add(`${slideId}:${obj.slotId}`);
+    }
+  });
+  return slots;
+}
+
+/**
+ * Fresh slides with the locked objects of the current slide with the same id kept
+ * unchanged (they replace the fresh object with that id or image slot, or are re-added).
+ * A locked background is kept too. Current slides with locks that no fresh slide matches
+ * (the rerun made fewer slides, or they were added in the studio) are inserted as they are
+ * at their original position while the deck stays within MAX_SLIDES; `kept` has their
+ * final numbers and `dropped` the original numbers of those that did not fit.
+ */
+function carryOverLockedObjects(input: {
+  fresh: Array<Record<string, unknown>>;
+  current: unknown[];
+  locks: ElementLocks;
+}) {
+  const currentById = new Map<string, Record<string, unknown>>();
+  input.current.forEach((slide, idx) => {
+    if (slide && typeof slide === "object") {
+      currentById.set(slideLockKey(slide, idx + 1), slide as Record<string, unknown>);
+    }
+  });
+
+  const matched = new Set<string>();
+  const slides = input.fresh.map((slide, idx) => {
+    const slideId = slideLockKey(slide, idx + 1);
+    const currentSlide = currentById.get(slideId);
+    if (!currentSlide || !input.locks.slides[slideId]) return slide;
+    matched.add(slideId);
+
+    const locked = (objectId: unknown) =>
+      typeof objectId === "string" && isLocked({ locks: input.locks, slideId, objectId });
+    const lockedObjects = slideObjectsOf(currentSlide).filter((obj) => obj && locked(obj.id));
+    const sameTarget = (a: Record<string, unknown>, b: Record<string, unknown>) =>
+      a.id === b.id ||
+      (a.type === "image" && b.type === "image" && typeof a.slotId === "string" && a.slotId === b.slotId);
+
+    const used = new Set<Record<string, unknown>>();
+    const objects = slideObjectsOf(slide).map((obj) => {
+      const lockedObj = lockedObjects.find((candidate) => !used.has(candidate) && sameTarget(candidate, obj));
+      if (!lockedObj) return obj;
+      used.add(lockedObj);
+      return lockedObj;
+    });
+    for (const obj of lockedObjects) if (!used.has(obj)) objects.push(obj);
+
+    const next: Record<string, unknown> = { ...slide, id: slideId, objects };
+    if (locked(BACKGROUND_LOCK_ID) && "background" in currentSlide) {
+      next.background = currentSlide.background;
+    }
+    return next;
+  });
+
+  const inserted: Array<Record<string, unknown>> = [];
+  const dropped: number[] = [];
+  input.current.forEach((slide, idx) => {
+    if (!slide || typeof slide !== "object") return;
+    const slideId = slideLockKey(slide, idx + 1);
+    if (matched.has(slideId) || !input.locks.slides[slideId]) return;
+    if (slides.length >= MAX_SLIDES) {
+      dropped.push(idx + 1);
+      return;
+    }
+    const next = { ...(slide as Record<string, unknown>), id: slideId };
+    slides.splice(Math.min(idx, slides.length), 0, next);
+    inserted.push(next);
+  });
+  const kept = inserted.map((slide) => slides.indexOf(slide) + 1).sort((a, b) => a - b);
+  return { slides, kept, dropped };
+}
+
+const TEXT_VARIANTS = ["tagline", "title", "body", "cta"] as const;
+
+function readSlideTexts(slide: Record<string, unknown>) {
+  const objects = Array.isArray(slide.objects)
+    ? (slide.objects as Array<Record<string, unknown>>)
+    : [];
+  const texts: Partial<Record<(typeof TEXT_VARIANTS)[number], string>> = {};
+  for (const obj of objects) {
+    if (!obj || obj.type !== "text" || obj.hidden === true) continue;
+    const variant =
+      typeof obj.variant === "string" ? obj.variant : typeof obj.id === "string" ? obj.id : null;
+    if (!variant || !(TEXT_VARIANTS as readonly string[]).includes(variant)) continue;
+    const text = typeof obj.text === "string" ? obj.text.trim() : "";
+    if (text) texts[variant as (typeof TEXT_VARIANTS)[number]] = text;
+  }
+  return texts;
+}
+
+/**
+ * Rebuilds a PlannerOutput whose texts mirror the current editor_state (user edits included).
+ * Global style and image requests come from the last planner run when available.
+ */
+function planFromEditorState(input: {
+  state: CarouselEditorState;
+  template: TemplateDataV1;
+  draft: Record<string, unknown>;
+  base: PlannerOutput | null;
+}): PlannerOutput | null {
+  const slides = Array.isArray(input.state.slides) ? input.state.slides : [];
+  if (slides.length === 0) return null;
+
+  const global =
+    input.state.global && typeof input.state.global === "object"
+      ? (input.state.global as Record<string, unknown>)
+      : {};
+  const typography =
+    global.typography && typeof global.typography === "object"
+      ? (global.typography as Record<string, unknown>)
+      : {};
+  const defaults = input.template.defaults.typography;
+
+  const globalStyle = input.base?.globalStyle ?? {
+    palette: resolvePaletteFromVisual(input.state) ??
+      resolvePaletteFromDraft(input.draft) ?? {
+        background: "#ffffff",
+        text: "#111111",
+        accent: "#ff5500"
+      },
+    typography: {
+      titleFontFamily:
+        typeof typography.titleFontFamily === "string"
+          ? typography.titleFontFamily
+          : defaults.fontFamily,
+      bodyFontFamily:
+        typeof typography.bodyFontFamily === "string"
+          ? typography.bodyFontFamily
+          : defaults.fontFamily,
+      titleSize: Number(typography.titleSize ?? defaults.titleSize),
+      bodySize: Number(typography.bodySize ?? defaults.bodySize),
+      ctaSize: Number(typography.ctaSize ?? defaults.ctaSize ?? 26),
+      alignment: "left"
+    },
+    spacing: { padding: input.template.defaults.spacing.padding },
+    templateId: input.template.id
+  };
+
+  const parsed = plannerOutputSchema.safeParse({
+    version: 1,
+    globalStyle,
+    slides: slides.map((slide, idx) => {
+      const index = idx + 1;
+      const basePlanSlide = input.base?.slides.find((s) => s.index === index) ?? null;
+      const texts = readSlideTexts(slide);
+      return {
+        index,
+        text: {
+          ...texts,
+          title: texts.title ?? basePlanSlide?.text.title ?? `Slide ${index}`
+        },
+        images: basePlanSlide?.images
+      };
+    })
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+function buildSlideRegenerationPrompt(input: {
+  plan: PlannerOutput;
+  slideIndex: number;
+  template: TemplateDataV1;
+  templatePrompt?: string | null;
+  topicOrPrompt: string;
+  tone?: string;
+  targetAudience?: string;
+  language?: string;
+  lockedObjectIds: string[];
+  instruction?: string;
+  memory: CarouselMemory;
+}): { system: string; user: string } {
+  const system = [
+    "Você é o Planner de um gerador de carrosséis.",
+    `Reescreva SOMENTE o slide ${input.slideIndex}; os demais slides são contexto e não mudam.`,
+    "Mantenha o tom, a paleta e a continuidade narrativa com os slides vizinhos.",
+    "Não repita textos de outros slides.",
+    "Elementos em `lockedObjectIds` serão mantidos como estão; não dependa de mudá-los.",
+    "`memory` resume pedidos anteriores do usuário neste carrossel; siga as preferências aceitas (ex.: \"curto como antes\").",
+    "Para ênfase no texto, use tags: <mark>marca texto</mark>, <u>sublinhado</u>, <b>negrito</b>.",
+    "Nos prompts de imagem, não mencione marca texto, sublinhado, tipografia ou layout do texto.",
+    "Não inclua coordenadas, caixas, blur, faixas, guias ou rótulos nas imagens.",
+    input.templatePrompt
+      ? "Siga as instruções em `templateInstructions` para preencher textos e imagens."
+      : null,
+    "Formato JSON obrigatório (um único slide do PlannerOutputV1):",
+    JSON.stringify(
+      {
+        index: input.slideIndex,
+        text: { tagline: "opcional", title: "obrigatório", body: "opcional", cta: "opcional" },
+        images: [
+          {
+            slotId: input.template.images[0]?.id ?? "hero",
+            purpose: "slot",
+            prompt: "descrição da imagem",
+            containsText: false
+          }
+        ]
+      },
+      null,
+      2
+    ),
+    "Responda SOMENTE com JSON válido (sem Markdown, sem texto extra)."
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const user = {
+    project: {
+      language: input.language ?? "pt-BR",
+      topicOrPrompt: input.topicOrPrompt,
+      tone: input.tone ?? null,
+      audience: input.targetAudience ?? null
+    },
+    layout: { templateId: input.template.id, templateData: input.template },
+    templateInstructions: input.templatePrompt ?? null,
+    globalStyle: input.plan.globalStyle,
+    slides: input.plan.slides,
+    targetSlideIndex: input.slideIndex,
+    lockedObjectIds: input.lockedObjectIds,
+    instruction: input.instruction ?? null,
+    memory: memoryForPrompt(input.memory)
+  };
+
+  return { system, user: JSON.stringify(user, null, 2) };
+}
+
+/**
+ * Re-plans one slide (texts + image requests) and regenerates its images, merging the result
+ * into editor_state with the same mapping as a full run. Locked objects are carried over as-is.
+ */
+export async function regenerateCarouselSlide(input: {
+  db: SupabaseDb;
+  carouselId: string;
+  ownerId: string;
+  slideIndex: number;
+  imageModel?: GeminiImageModel;
+  instruction?: string;
+  forceNewImage?: boolean;
+}) {
+  const supabase = input.db;
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("*")
+    .eq("id", input.carouselId)
+    .maybeSingle();
+
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (
+    carousel.generation_status === "running" ||
+    carousel.generation_status === "queued" ||
+    carousel.generation_status === "awaiting_approval"
+  ) {
+    return { ok: false as const, error: "GENERATION_RUNNING" };
+  }
+
+  const state = carousel.editor_state as CarouselEditorState | null;
+  const currentSlides = Array.isArray(state?.slides) ? state.slides : [];
+  const slideIndex = input.slideIndex;
+  const currentSlide = currentSlides[slideIndex - 1];
+  if (!state || !currentSlide) return { ok: false as const, error: "SLIDE_NOT_FOUND" };
+
+  const draft = carousel.draft as Record<string, unknown>;
+  const topicOrPrompt =
+    (draft.inputMode === "prompt" ? draft.prompt : draft.topic) ?? draft.prompt ?? draft.topic;
+  const tone = typeof draft.tone === "string" ? draft.tone : undefined;
+
+  const templateBundle = await resolveTemplateBundle({
+    supabase,
+    templateId:
+      typeof draft.templateId === "string"
+        ? draft.templateId
+        : typeof draft.template_id === "string"
+          ? draft.template_id
+          : undefined
+  });
+  const template = templateBundle.layout;
+
+  const contextPlan = planFromEditorState({
+    state,
+    template,
+    draft,
+    base: await loadLatestCarouselPlan(supabase, carousel.id)
+  });
+  if (!contextPlan) {
+    return { ok: false as const, error: "Não foi possível montar o contexto do carrossel." };
+  }
+
+  const slideId = slideLockKey(currentSlide, slideIndex);
+  const locks = normalizeElementLocks(carousel.element_locks, currentSlides);
+  const currentObjects = Array.isArray(currentSlide.objects)
+    ? (currentSlide.objects as Array<Record<string, unknown>>)
+    : [];
+  const objectLocked = (objectId: unknown) =>
+    typeof objectId === "string" &&
+    isLocked({ locks, slideId, objectId });
+  const lockedObjectIds = currentObjects
+    .map((obj) => obj.id)
+    .filter((id): id is string => objectLocked(id));
+
+  const { system, user } = buildSlideRegenerationPrompt({
+    plan: contextPlan,
+    slideIndex,
+    template,
+    templatePrompt: templateBundle.prompt,
+    topicOrPrompt: typeof topicOrPrompt === "string" ? topicOrPrompt : "",
+    tone,
+    targetAudience: typeof draft.targetAudience === "string" ? draft.targetAudience : undefined,
+    language: typeof draft.language === "string" ? draft.language : undefined,
+    lockedObjectIds,
+    instruction: input.instruction,
+    memory: await loadCarouselMemory(supabase, carousel.id)
+  });
+
+  const gen = await aiGenerateJson(
+    "planner",
+    { system, user, schema: slidePlanSchema },
+    createAiUsageMeter(supabase, {
+      workspaceId: carousel.workspace_id,
+      userId: input.ownerId,
+      carouselId: carousel.id
+    })
+  );
+  if (!gen.ok) return { ok: false as const, error: gen.error };
+  const nextSlidePlan: SlidePlan = { ...slidePlanSchema.parse(gen.data), index: slideIndex };
+
+  const nextPlan: PlannerOutput = {
+    ...contextPlan,
+    slides: contextPlan.slides.map((s) => (s.index === slideIndex ? nextSlidePlan : s))
+  };
+
+  // Only slots that exist in the template and are not locked get a new image.
+  const slotObjectLocked = (slotId: string) =>
+    currentObjects.some(
+      (obj) =>
+        obj.type === "image" &&
+        (obj.slotId === slotId || obj.id === `image_${slotId}`) &&
+        objectLocked(obj.id)
+    );
+  const templateSlotIds = new Set(template.images.map((img) => img.id));
+  const requests = (nextSlidePlan.images ?? []).filter(
+    (request) =>
+      request.slotId && templateSlotIds.has(request.slotId) && !slotObjectLocked(request.slotId)
+  );
+
+  const imageModel = isSupportedGeminiImageModel(input.imageModel)
+    ? input.imageModel
+    : GEMINI_IMAGE_MODELS.NANO_BANANA;
+  const concurrency = await loadImageConcurrency(supabase, carousel.workspace_id);
+  const entries: FirstDraftImageCheckpoint[] = [];
+  await runBounded(requests, concurrency, async (request) => {
+    const { entry } = await generatePlannedImage({
+      db: supabase,
+      carousel,
+      ownerId: input.ownerId,
+      source: "slide_regeneration",
+      plan: nextPlan,
+      template,
+      tone,
+      imageModel,
+      slideIndex,
+      request,
+      forceNewImage: input.forceNewImage
+    });
+    entries.push(entry);
+  });
+
+  const assetBySlot = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.status === "ready" && entry.assetId && entry.slotId) {
+      assetBySlot.set(entry.slotId, entry.assetId);
+    }
+  }
+
+  const fresh = templateBundle.visual
+    ? applyPlanToVisualTemplate({ plan: nextPlan, template, visual: templateBundle.visual })
+    : toEditorStateFromPlan({ plan: nextPlan, template });
+  const freshSlide = (Array.isArray(fresh.slides) ? fresh.slides : [])[slideIndex - 1] ?? null;
+  if (!freshSlide) return { ok: false as const, error: "SLIDE_NOT_FOUND" };
+
+  const freshObjects = Array.isArray(freshSlide.objects)
+    ? (freshSlide.objects as Array<Record<string, unknown>>)
+    : [];
+  const mergedObjects = freshObjects.map((obj) => {
+    const current = currentObjects.find((o) => o.id === obj.id);
+    if (current && objectLocked(current.id)) return current;
+    if (obj.type !== "image") return obj;
+    const slotId = typeof obj.slotId === "string" ? obj.slotId : null;
+    const assetId = slotId ? assetBySlot.get(slotId) : undefined;
+    if (assetId) return { ...obj, assetId };
+    // No new image for this slot (not requested or failed): keep the one already there.
+    return current?.assetId ? { ...obj, assetId: current.assetId } : obj;
+  });
+  const mergedIds = new Set(mergedObjects.map((obj) => obj.id));
+  for (const obj of currentObjects) {
+    if (objectLocked(obj.id) && !mergedIds.has(obj.id)) mergedObjects.push(obj);
+  }
+
+  const nextState: CarouselEditorState = {
+    ...state,
+    slides: currentSlides.map((slide, idx) =>
+      idx === slideIndex - 1 ? { ...freshSlide, id: slideId, objects: mergedObjects } : slide
+    )
+  };
+
+  const prevMeta =
+    carousel.generation_meta && typeof carousel.generation_meta === "object"
+      ? (carousel.generation_meta as Record<string, unknown>)
+      : {};
+  const history = Array.isArray(prevMeta.regenerations)
+    ? (prevMeta.regenerations as unknown[])
+    : [];
+  const imagesDone = entries.filter((e) => e.status === "ready").length;
+  const imagesFailed = entries.length - imagesDone;
+
+  const { error: updateError } = await supabase
+    .from("carousels")
+    .update({
+      editor_state: nextState,
+      generation_meta: {
+        ...prevMeta,
+        regenerations: [
+          {
+            at: new Date().toISOString(),
+            slideIndex,
+            instruction: input.instruction ?? null,
+            imagesDone,
+            imagesFailed,
+            keptLocked: lockedObjectIds.length
+          },
+          ...history
+        ].slice(0, 20)
       }
-      const model = request.containsText ? GEMINI_IMAGE_MODELS.NANO_BANANA_PRO : imageModel;
-      const image = await geminiNanoBananaGenerateImage({ prompt, model });
-
-      const imagesMeta = progressMeta.images as Record<string, unknown>;
-      const bySlide = imagesMeta.bySlide as Array<Record<string, unknown>>;
-
-      if (!image.ok) {
-        imagesMeta.failed = Number(imagesMeta.failed ?? 0) + 1;
-        bySlide.push({
-          slideIndex: slide.index,
-          slotId: request.slotId ?? null,
-          status: "failed",
-          ...(debugPrompt ? { prompt: debugPrompt } : {})
-        });
-        await supabase
-          .from("carousels")
-          .update({ generation_meta: progressMeta })
-          .eq("id", carouselId);
-        continue;
+    })
+    .eq("id", carousel.id);
+
+  if (updateError) return { ok: false as const, error: updateError.message };
+
+  await saveCarouselPlan(supabase, {
+    carousel,
+    ownerId: input.ownerId,
+    source: "slide_regeneration",
+    plan: nextPlan
+  });
+  if (input.instruction) {
+    await rememberCarouselTurn(supabase, {
+      carousel,
+      ownerId: input.ownerId,
+      turn: {
+        kind: "slide_regeneration",
+        instruction: input.instruction,
+        outcome: "accepted",
+        slideIndex
       }
+    });
+  }
+
+  return {
+    ok: true as const,
+    slideIndex,
+    nextState,
+    imagesDone,
+    imagesFailed,
+    keptLocked: lockedObjectIds.length,
+    assets: entries
+      .filter((e) => e.status === "ready" && e.assetId && e.path)
+      .map((e) => ({ id: e.assetId as string, path: e.path as string }))
+  };
+}
 
-      const ext = image.mimeType.includes("png")
-        ? "png"
-        : image.mimeType.includes("jpeg") || image.mimeType.includes("jpg")
-          ? "jpg"
-          : "png";
+/**
+ * Rebuilds editor_state from the stored plan against another template, reusing the images
+ * already placed on each slide. No LLM or image calls. Current slide texts win over the plan's.
+ */
+export async function rerenderCarouselWithTemplate(input: {
+  db: SupabaseDb;
+  carouselId: string;
+  ownerId: string;
+  templateId: string;
+}) {
+  const supabase = input.db;
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("*")
+    .eq("id", input.carouselId)
+    .maybeSingle();
 
-      const path = `workspaces/${carousel.workspace_id}/carousels/${carousel.id}/generated/${crypto.randomUUID()}.${ext}`;
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (
+    carousel.generation_status === "running" ||
+    carousel.generation_status === "queued" ||
+    carousel.generation_status === "awaiting_approval"
+  ) {
+    return { ok: false as const, error: "GENERATION_RUNNING" };
+  }
 
-      const { error: uploadError } = await uploadBytesToStorage({
-        bucket: "carousel-assets",
-        path,
-        bytes: image.bytes,
-        contentType: image.mimeType
-      });
+  const storedPlan = await loadLatestCarouselPlan(supabase, carousel.id);
+  if (!storedPlan) return { ok: false as const, error: "NO_PLAN" };
+
+  // resolveTemplateBundle silently falls back to the first builtin; an unknown id is an error here.
+  if (!BUILTIN_TEMPLATES.some((t) => t.id === input.templateId)) {
+    const { data: row } = await supabase
+      .from("carousel_templates")
+      .select("id")
+      .eq("id", input.templateId)
+      .maybeSingle();
+    if (!row) return { ok: false as const, error: "TEMPLATE_NOT_FOUND" };
+  }
+  const templateBundle = await resolveTemplateBundle({
+    supabase,
+    templateId: input.templateId
+  });
+  const template = templateBundle.layout;
 
-      if (uploadError) {
-        imagesMeta.failed = Number(imagesMeta.failed ?? 0) + 1;
-        bySlide.push({
-          slideIndex: slide.index,
-          slotId: request.slotId ?? null,
-          status: "failed_upload",
-          ...(debugPrompt ? { prompt: debugPrompt } : {})
-        });
-        await supabase
-          .from("carousels")
-          .update({ generation_meta: progressMeta })
-          .eq("id", carouselId);
-        continue;
-      }
+  const state = (carousel.editor_state as CarouselEditorState | null) ?? { version: 1 };
+  const draft = carousel.draft as Record<string, unknown>;
+  const contextPlan =
+    planFromEditorState({ state, template, draft, base: storedPlan }) ?? storedPlan;
+  const plan: PlannerOutput = {
+    ...contextPlan,
+    globalStyle: {
+      ...contextPlan.globalStyle,
+      spacing: { padding: template.defaults.spacing.padding },
+      templateId: template.id
+    }
+  };
 
-      const { data: inserted, error: insertError } = await supabase
-        .from("carousel_assets")
-        .insert({
-          workspace_id: carousel.workspace_id,
-          carousel_id: carousel.id,
-          owner_id: userData.user.id,
-          asset_type: "generated",
-          storage_bucket: "carousel-assets",
-          storage_path: path,
-          mime_type: image.mimeType,
-          status: "ready",
-          metadata: {
-            provider: image.provider,
-            model: image.model,
-            slideIndex: slide.index,
-            slotId: request.slotId ?? null,
-            prompt: request.prompt ?? null,
-            aspect: request.aspect ?? null
-          }
-        })
-        .select("id")
-        .maybeSingle();
-
-      if (!insertError && inserted) {
-        generatedAssets.push({ slideIndex: slide.index, path });
-        imagesMeta.done = Number(imagesMeta.done ?? 0) + 1;
-        bySlide.push({
-          slideIndex: slide.index,
-          slotId: request.slotId ?? null,
-          status: "ready",
-          path,
-          ...(debugPrompt ? { prompt: debugPrompt } : {})
-        });
-        assignAssetId(slide.index, request.slotId, inserted.id);
-        await supabase
-          .from("carousels")
-          .update({ generation_meta: progressMeta })
-          .eq("id", carouselId);
-      } else {
-        imagesMeta.failed = Number(imagesMeta.failed ?? 0) + 1;
-        bySlide.push({
-          slideIndex: slide.index,
-          slotId: request.slotId ?? null,
-          status: "failed_db",
-          ...(debugPrompt ? { prompt: debugPrompt } : {})
-        });
-        await supabase
-          .from("carousels")
-          .update({ generation_meta: progressMeta })
-          .eq("id", carouselId);
+  const rendered = templateBundle.visual
+    ? applyPlanToVisualTemplate({ plan, template, visual: templateBundle.visual })
+    : toEditorStateFromPlan({ plan, template });
+
+  const currentSlides = Array.isArray(state.slides) ? state.slides : [];
+  const renderedSlides = Array.isArray(rendered.slides) ? rendered.slides : [];
+  const locks = normalizeElementLocks(carousel.element_locks, currentSlides);
+  let reusedImages = 0;
+
+  const slides = renderedSlides.map((slide, idx) => {
+    const current = currentSlides[idx];
+    const currentId = current ? slideLockKey(current, idx + 1) : null;
+    // Locked images are carried over as they are below; only the others are redistributed.
+    const currentImages = slideObjectsOf(current)
+      .filter((obj) => obj.type === "image" && typeof obj.assetId === "string")
+      .filter(
+        (obj) =>
+          !currentId ||
+          typeof obj.id !== "string" ||
+          !isLocked({ locks, slideId: currentId, objectId: obj.id })
+      )
+      .map((obj) => ({
+        slotId: typeof obj.slotId === "string" ? obj.slotId : null,
+        assetId: obj.assetId as string
+      }));
+    const objects = Array.isArray(slide.objects)
+      ? (slide.objects as Array<Record<string, unknown>>).map((obj) => ({ ...obj }))
+      : [];
+    const imageObjects = objects.filter((obj) => obj.type === "image");
+
+    // Same slot id first, then whatever is left in slide order.
+    const used = new Set<number>();
+    const pending: Array<Record<string, unknown>> = [];
+    for (const obj of imageObjects) {
+      const match = currentImages.findIndex(
+        (img, i) => !used.has(i) && img.slotId !== null && img.slotId === obj.slotId
+      );
+      if (match === -1) {
+        pending.push(obj);
+        continue;
       }
+      used.add(match);
+      obj.assetId = currentImages[match]!.assetId;
+      reusedImages += 1;
+    }
+    for (const obj of pending) {
+      const next = currentImages.findIndex((_, i) => !used.has(i));
+      if (next === -1) break;
+      used.add(next);
+      obj.assetId = currentImages[next]!.assetId;
+      reusedImages += 1;
     }
-  }
 
-  progressMeta.stage = "done";
-  progressMeta.finished_at = new Date().toISOString();
+    return { ...slide, id: currentId ?? slide.id, objects };
+  });
 
-  await supabase
+  const carried = carryOverLockedObjects({ fresh: slides, current: currentSlides, locks });
+  const nextState: CarouselEditorState = { ...rendered, slides: carried.slides };
+
+  const { error: updateError } = await supabase
     .from("carousels")
     .update({
-      title: plan.slides[0]?.text.title ?? carousel.title,
-      editor_state: editorState,
-      generation_status: "succeeded",
-      generation_error: null,
-      generation_meta: progressMeta
+      editor_state: nextState,
+      draft: { ...(carousel.draft ?? {}), templateId: input.templateId }
     })
-    .eq("id", carouselId);
+    .eq("id", carousel.id);
+  if (updateError) return { ok: false as const, error: updateError.message };
+
+  await saveCarouselPlan(supabase, {
+    carousel,
+    ownerId: input.ownerId,
+    source: "rerender",
+    plan
+  });
 
-  return { ok: true as const, result: gen.data, assets: generatedAssets };
+  return {
+    ok: true as const,
+    nextState,
+    reusedImages,
+    lockedSlides: { kept: carried.kept, dropped: carried.dropped },
+    templateId: input.templateId
+  };
 }
@@ -0,0 +1,95 @@
+import "server-only";
+
+export type GenerationStreamEvent =
+  | { type: "stage"; stage: string; at: string | null }
+  | { type: "progress"; done: number; failed: number; total: number }
+  | {
+      type: "image";
+      slideIndex: number | null;
+      slotId: string | null;
+      status: string;
+      assetId: string | null;
+      path: string | null;
+    }
+  | { type: "end"; status: string; error: string | null };
+
+/** What the stream has already sent for one carousel. */
+export type GenerationStreamCursor = {
+  stagesSeen: number;
+  lastStage: string | null;
+  imagesSeen: number;
+  progressKey: string | null;
+};
+
+export function createGenerationStreamCursor(): GenerationStreamCursor {
+  return { stagesSeen: 0, lastStage: null, imagesSeen: 0, progressKey: null };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Turns the latest generation_meta into the events not yet sent, advancing the cursor.
+ * A new run resets generation_meta, so shrinking lists restart the cursor.
+ */
+export function diffGenerationMeta(
+  cursor: GenerationStreamCursor,
+  input: { status: string; error: string | null; meta: unknown }
+): GenerationStreamEvent[] {
+  const events: GenerationStreamEvent[] = [];
+  const meta = asRecord(input.meta);
+
+  const stages = Array.isArray(meta.stages) ? meta.stages.map(asRecord) : [];
+  if (stages.length < cursor.stagesSeen) cursor.stagesSeen = 0;
+  for (const entry of stages.slice(cursor.stagesSeen)) {
+    if (typeof entry.stage !== "string") continue;
+    events.push({
+      type: "stage",
+      stage: entry.stage,
+      at: typeof entry.at === "string" ? entry.at : null
+    });
+    cursor.lastStage = entry.stage;
+  }
+  cursor.stagesSeen = stages.length;
+
+  // Stages written outside the pipeline (queued, cancelled) only show up in `stage`.
+  if (typeof meta.stage === "string" && meta.stage !== cursor.lastStage) {
+    events.push({ type: "stage", stage: meta.stage, at: null });
+    cursor.lastStage = meta.stage;
+  }
+
+  const images = asRecord(meta.images);
+  const bySlide = Array.isArray(images.bySlide) ? images.bySlide.map(asRecord) : [];
+  if (bySlide.length < cursor.imagesSeen) cursor.imagesSeen = 0;
+  for (const entry of bySlide.slice(cursor.imagesSeen)) {
+    events.push({
+      type: "image",
+      slideIndex: typeof entry.slideIndex === "number" ? entry.slideIndex : null,
+      slotId: typeof entry.slotId === "string" ? entry.slotId : null,
+      status: typeof entry.status === "string" ? entry.status : "failed",
+      assetId: typeof entry.assetId === "string" ? entry.assetId : null,
+      path: typeof entry.path === "string" ? entry.path : null
+    });
+  }
+  cursor.imagesSeen = bySlide.length;
+
+  const progress = {
+    done: Number(images.done ?? 0) || 0,
+    failed: Number(images.failed ?? 0) || 0,
+    total: Number(images.total ?? 0) || 0
+  };
+  const progressKey = `${progress.done}/${progress.failed}/${progress.total}`;
+  if (progressKey !== cursor.progressKey) {
+    events.push({ type: "progress", ...progress });
+    cursor.progressKey = progressKey;
+  }
+
+  if (input.status !== "running" && input.status !== "queued") {
+    events.push({ type: "end", status: input.status, error: input.error });
+  }
+
+  return events;
+}
@@ -0,0 +1,73 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+import { resolveAiImageTarget } from "@/lib/ai/provider";
+import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+export type CachedImage = {
+  path: string;
+  mimeType: string;
+  provider: string;
+  model: string;
+  cachedFrom: string;
+};
+
+/**
+ * Cache key for an image request: provider and effective model, the final prompt (which
+ * already carries palette, tone and safe-zone hints) and the target size.
+ */
+export function imageCacheKey(input: {
+  model?: string;
+  prompt: string;
+  size?: { width: number; height: number };
+}) {
+  const target = resolveAiImageTarget(input.model);
+  const aspect = input.size ? `${input.size.width}x${input.size.height}` : "default";
+  return createHash("sha256")
+    .update(JSON.stringify([target.provider, target.model ?? "default", input.prompt.trim(), aspect]))
+    .digest("hex");
+}
+
+/**
+ * Looks for a ready generated asset in the workspace with the same cache key and copies its
+ * file into `carouselId`'s folder. Each carousel keeps its own copy, so deleting or rolling
+ * back one carousel never removes another's image. Returns null on a miss or copy failure.
+ */
+export async function reuseCachedImage(input: {
+  db: SupabaseDb;
+  workspaceId: string;
+  carouselId: string;
+  cacheKey: string;
+}): Promise<CachedImage | null> {
+  const { data: source } = await input.db
+    .from("carousel_assets")
+    .select("id, storage_bucket, storage_path, mime_type, metadata")
+    .eq("workspace_id", input.workspaceId)
+    .eq("asset_type", "generated")
+    .eq("status", "ready")
+    .eq("metadata->>cache_key", input.cacheKey)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!source || source.storage_bucket !== "carousel-assets") return null;
+
+  const ext = source.storage_path.split(".").pop() || "png";
+  const path = `workspaces/${input.workspaceId}/carousels/${input.carouselId}/generated/${crypto.randomUUID()}.${ext}`;
+  const storageClient = createSupabaseAdminClientIfAvailable() ?? input.db;
+  const { error } = await storageClient.storage
+    .from(source.storage_bucket)
+    .copy(source.storage_path, path);
+  if (error) return null;
+
+  const metadata = (source.metadata ?? {}) as Record<string, unknown>;
+  return {
+    path,
+    mimeType: source.mime_type ?? "image/png",
+    provider: typeof metadata.provider === "string" ? metadata.provider : "cache",
+    model: typeof metadata.model === "string" ? metadata.model : "unknown",
+    cachedFrom: source.id
+  };
+}
@@ -0,0 +1,67 @@
+import "server-only";
+
+export const DEFAULT_IMAGE_CONCURRENCY = 3;
+export const MAX_IMAGE_CONCURRENCY = 8;
+
+export function clampImageConcurrency(value: unknown): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return DEFAULT_IMAGE_CONCURRENCY;
+  return Math.max(1, Math.min(MAX_IMAGE_CONCURRENCY, Math.trunc(n)));
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retries `fn` while it reports a retryable failure, waiting base * 2^attempt (+ jitter)
+ * between tries. Returns the last result together with the number of attempts made.
+ */
+export async function withImageRetry<T extends { ok: boolean; retryable?: boolean }>(
+  fn: (attempt: number) => Promise<T>,
+  options: {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    shouldStop?: () => Promise<boolean>;
+  } = {}
+): Promise<{ result: T; attempts: number }> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 15000;
+
+  let attempt = 0;
+  for (;;) {
+    attempt += 1;
+    const result = await fn(attempt);
+    if (result.ok || !result.retryable || attempt >= maxAttempts) {
+      return { result, attempts: attempt };
+    }
+    if (options.shouldStop && (await options.shouldStop())) {
+      return { result, attempts: attempt };
+    }
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    await sleep(backoff + Math.round(Math.random() * backoff * 0.25));
+  }
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight.
+ * A worker returning `false` stops new items from being picked up (in-flight ones finish).
+ */
+export async function runBounded<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<boolean | void>
+) {
+  let next = 0;
+  let stopped = false;
+  const lanes = Array.from({ length: Math.min(items.length, Math.max(1, concurrency)) }, async () => {
+    while (!stopped && next < items.length) {
+      const index = next;
+      next += 1;
+      const keepGoing = await worker(items[index] as T, index);
+      if (keepGoing === false) stopped = true;
+    }
+  });
+  await Promise.all(lanes);
+  return { stopped };
+}
@@ -0,0 +1,569 @@
+import "server-only";
+
+import { after } from "next/server";
+import { createSupabaseAdminClientIfAvailable } from "@/lib/supabase/admin";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { checkAiQuota, describeQuotaError } from "@/lib/studio/usage";
+import type { Database } from "@/types/supabase";
+import type { CarouselEditorState, CarouselGenerationStatus } from "@/lib/db/types";
+import {
+  isSupportedGeminiImageModel,
+  type GeminiImageModel
+} from "@/lib/ai/gemini_image";
+import { plannerOutputSchema } from "@/lib/studio/planner_contract";
+import {
+  runFirstDraftGeneration,
+  type FirstDraftCheckpoint
+} from "@/lib/studio/generation";
+
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+export type GenerationJob = Database["public"]["Tables"]["generation_jobs"]["Row"];
+
+const STALE_AFTER_SECONDS = 180;
+// Written on a timer while the run is in flight: one provider call (timeout × retries) can
+// outlast STALE_AFTER_SECONDS, so stage checkpoints alone would get a live job recovered.
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const ACTIVE_JOB_STATUSES: GenerationJob["status"][] = ["queued", "running", "awaiting_approval"];
+
+/** Carousel state captured at enqueue time, restored when the run is cancelled. */
+type GenerationSnapshot = {
+  editorState: CarouselEditorState | null;
+  generationStatus: CarouselGenerationStatus;
+};
+
+function readSnapshot(payload: Record<string, unknown>): GenerationSnapshot | null {
+  const raw = payload.previous;
+  if (!raw || typeof raw !== "object") return null;
+  const previous = raw as Record<string, unknown>;
+  const editorState =
+    previous.editorState && typeof previous.editorState === "object"
+      ? (previous.editorState as CarouselEditorState)
+      : null;
+  const status = previous.generationStatus;
+  const generationStatus: CarouselGenerationStatus =
+    status === "succeeded" || status === "failed" ? status : "idle";
+  return { editorState, generationStatus };
+}
+
+function parseCheckpoint(value: unknown): FirstDraftCheckpoint {
+  if (!value || typeof value !== "object") return {};
+  const raw = value as Record<string, unknown>;
+  const plan = plannerOutputSchema.safeParse(raw.plan);
+  return {
+    progress:
+      raw.progress && typeof raw.progress === "object"
+        ? (raw.progress as Record<string, unknown>)
+        : undefined,
+    plan: plan.success ? plan.data : undefined,
+    // A review without a valid plan is meaningless; redo both.
+    reviewed: plan.success && raw.reviewed === true,
+    approved: plan.success && raw.approved === true,
+    images:
+      raw.images && typeof raw.images === "object"
+        ? (raw.images as FirstDraftCheckpoint["images"])
+        : undefined
+  };
+}
+
+export async function enqueueFirstDraftJob(input: {
+  carouselId: string;
+  imageModel?: GeminiImageModel;
+  reviewPlan?: boolean;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("id, workspace_id, owner_id, editor_state, generation_status")
+    .eq("id", input.carouselId)
+    .maybeSingle();
+
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (carousel.owner_id !== userData.user.id)
+    return { ok: false as const, error: "FORBIDDEN" };
+
+  const { data: active } = await supabase
+    .from("generation_jobs")
+    .select("id")
+    .eq("carousel_id", carousel.id)
+    .in("status", ACTIVE_JOB_STATUSES)
+    .limit(1)
+    .maybeSingle();
+
+  if (active) return { ok: false as const, error: "GENERATION_RUNNING" };
+
+  const quota = await checkAiQuota(supabase, {
+    workspaceId: carousel.workspace_id,
+    userId: userData.user.id
+  });
+  if (!quota.ok) return { ok: false as const, error: describeQuotaError(quota) };
+
+  const { data: job, error } = await supabase
+    .from("generation_jobs")
+    .insert({
+      workspace_id: carousel.workspace_id,
+      carousel_id: carousel.id,
+      owner_id: userData.user.id,
+      kind: "first_draft",
+      payload: {
+        ...(input.imageModel ? { imageModel: input.imageModel } : {}),
+        ...(input.reviewPlan ? { reviewPlan: true } : {}),
+        previous: {
+          editorState: carousel.editor_state ?? null,
+          generationStatus: carousel.generation_status
+        }
+      }
+    })
+    .select("id")
+    .single();
+
+  if (error || !job) {
+    // Unique violation on the "one active job per carousel" index.
+    if (error?.code === "23505") return { ok: false as const, error: "GENERATION_RUNNING" };
+    return { ok: false as const, error: error?.message ?? "Falha ao enfileirar geração." };
+  }
+
+  await supabase
+    .from("carousels")
+    .update({
+      generation_status: "queued",
+      generation_error: null,
+      generation_meta: {
+        stage: "queued",
+        job_id: job.id,
+        queued_at: new Date().toISOString()
+      }
+    })
+    .eq("id", carousel.id);
+
+  return { ok: true as const, jobId: job.id };
+}
+
+export async function claimGenerationJob(
+  db: SupabaseDb,
+  workerId: string,
+  jobId?: string
+): Promise<GenerationJob | null> {
+  const { data, error } = await db.rpc("claim_generation_job", {
+    p_worker_id: workerId,
+    p_job_id: jobId ?? null
+  });
+  if (error || !data || data.length === 0) return null;
+  return data[0] ?? null;
+}
+
+export async function recoverStaleGenerationJobs(
+  db: SupabaseDb,
+  staleAfterSeconds = STALE_AFTER_SECONDS
+) {
+  const { data, error } = await db.rpc("recover_stale_generation_jobs", {
+    p_stale_after_seconds: staleAfterSeconds
+  });
+  if (error || !data) return 0;
+
+  for (const job of data) {
+    await db
+      .from("carousels")
+      .update(
+        job.status === "failed"
+          ? { generation_status: "failed", generation_error: job.last_error }
+          : { generation_status: "queued" }
+      )
+      .eq("id", job.carousel_id);
+  }
+
+  return data.length;
+}
+
+export async function processGenerationJob(db: SupabaseDb, job: GenerationJob) {
+  const payload = job.payload ?? {};
+  const imageModel = isSupportedGeminiImageModel(payload.imageModel)
+    ? payload.imageModel
+    : undefined;
+
+  // Claim token: a worker that recovered this job holds another locked_by/attempts pair, and
+  // from then on every write of ours is a no-op.
+  const claimedBy = job.locked_by ?? "";
+  let claimLost = false;
+  const heartbeat = async () => {
+    const { data } = await db
+      .from("generation_jobs")
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", claimedBy)
+      .eq("attempts", job.attempts)
+      .select("id");
+    if (data && data.length === 0) claimLost = true;
+  };
+  const heartbeatTimer = setInterval(() => {
+    void heartbeat().catch(() => undefined);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await runFirstDraftGeneration({
+      db,
+      carouselId: job.carousel_id,
+      ownerId: job.owner_id,
+      jobId: job.id,
+      imageModel,
+      checkpoint: parseCheckpoint(job.checkpoint),
+      isCancelled: async () => claimLost || (await isGenerationJobCancelled(db, job.id)),
+      requirePlanApproval: payload.reviewPlan === true,
+      onCheckpoint: async (stage, checkpoint) => {
+        await db
+          .from("generation_jobs")
+          .update({
+            stage,
+            checkpoint,
+            heartbeat_at: new Date().toISOString()
+          })
+          .eq("id", job.id)
+          .eq("locked_by", claimedBy)
+          .eq("attempts", job.attempts);
+      }
+    });
+
+    const finishedAt = new Date().toISOString();
+    if (!result.ok && result.error === "CANCELLED") {
+      // Recovered by another worker: its run owns the job, the carousel and the assets now.
+      if (claimLost && !(await isGenerationJobCancelled(db, job.id))) {
+        return { ok: false as const, error: "CLAIM_LOST" };
+      }
+      // The cancel action already restored the carousel; only clean up what this worker produced.
+      await rollbackGenerationJob(db, job, { restoreEditorState: false });
+      return { ok: false as const, error: result.error };
+    }
+    if (result.ok && result.awaitingApproval) {
+      // Paused, not finished: approvePlannedGeneration re-queues it.
+      await db
+        .from("generation_jobs")
+        .update({ status: "awaiting_approval", locked_by: null, locked_at: null })
+        .eq("id", job.id)
+        .eq("status", "running")
+        .eq("locked_by", claimedBy)
+        .eq("attempts", job.attempts);
+      return { ok: true as const };
+    }
+    if (!result.ok) {
+      const { data: failed } = await db
+        .from("generation_jobs")
+        .update({
+          status: "failed",
+          last_error: result.error,
+          locked_by: null,
+          locked_at: null,
+          finished_at: finishedAt
+        })
+        .eq("id", job.id)
+        .eq("status", "running")
+        .eq("locked_by", claimedBy)
+        .eq("attempts", job.attempts)
+        .select("id");
+      if (await isGenerationJobCancelled(db, job.id)) {
+        return { ok: false as const, error: "CANCELLED" };
+      }
+      if (!failed || failed.length === 0) return { ok: false as const, error: "CLAIM_LOST" };
+      // Early returns (NOT_FOUND, missing prompt) leave the carousel queued otherwise.
+      await db
+        .from("carousels")
+        .update({ generation_status: "failed", generation_error: result.error })
+        .eq("id", job.carousel_id);
+      return { ok: false as const, error: result.error };
+    }
+
+    await db
+      .from("generation_jobs")
+      .update({
+        status: "succeeded",
+        stage: "done",
+        last_error: null,
+        locked_by: null,
+        locked_at: null,
+        finished_at: finishedAt
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", claimedBy)
+      .eq("attempts", job.attempts);
+
+    // Cancelled while the final editor_state was being written: undo that write too.
+    if (await isGenerationJobCancelled(db, job.id)) {
+      await rollbackGenerationJob(db, job, { restoreEditorState: true });
+      return { ok: false as const, error: "CANCELLED" };
+    }
+    return { ok: true as const };
+  } catch (err) {
+    // Unexpected crash: keep the checkpoint and let another attempt resume it.
+    const message = err instanceof Error ? err.message : "Erro inesperado na geração.";
+    const retry = job.attempts < job.max_attempts;
+    const { data: released } = await db
+      .from("generation_jobs")
+      .update({
+        status: retry ? "queued" : "failed",
+        last_error: message,
+        locked_by: null,
+        locked_at: null,
+        finished_at: retry ? null : new Date().toISOString()
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", claimedBy)
+      .eq("attempts", job.attempts)
+      .select("id");
+    if (await isGenerationJobCancelled(db, job.id)) {
+      return { ok: false as const, error: "CANCELLED" };
+    }
+    if (!released || released.length === 0) return { ok: false as const, error: "CLAIM_LOST" };
+    await db
+      .from("carousels")
+      .update(
+        retry
+          ? { generation_status: "queued" }
+          : { generation_status: "failed", generation_error: message }
+      )
+      .eq("id", job.carousel_id);
+    return { ok: false as const, error: message };
+  } finally {
+    clearInterval(heartbeatTimer);
+  }
+}
+
+async function isGenerationJobCancelled(db: SupabaseDb, jobId: string) {
+  const { data } = await db
+    .from("generation_jobs")
+    .select("status")
+    .eq("id", jobId)
+    .maybeSingle();
+  return data?.status === "cancelled";
+}
+
+/**
+ * Deletes every asset produced by the job and marks the run as cancelled in generation_meta.
+ * Safe to run more than once (cancel action and worker may both call it).
+ */
+async function rollbackGenerationJob(
+  db: SupabaseDb,
+  job: GenerationJob,
+  options: { restoreEditorState: boolean }
+) {
+  const { data: assets } = await db
+    .from("carousel_assets")
+    .select("id, storage_bucket, storage_path")
+    .eq("carousel_id", job.carousel_id)
+    .eq("asset_type", "generated")
+    .contains("metadata", { jobId: job.id });
+
+  const produced = assets ?? [];
+  if (produced.length > 0) {
+    const storageClient = createSupabaseAdminClientIfAvailable() ?? db;
+    const byBucket = new Map<string, string[]>();
+    for (const a of produced) {
+      const list = byBucket.get(a.storage_bucket) ?? [];
+      list.push(a.storage_path);
+      byBucket.set(a.storage_bucket, list);
+    }
+    for (const [bucket, paths] of byBucket.entries()) {
+      for (let i = 0; i < paths.length; i += 100) {
+        await storageClient.storage.from(bucket).remove(paths.slice(i, i + 100));
+      }
+    }
+    await db
+      .from("carousel_assets")
+      .delete()
+      .in(
+        "id",
+        produced.map((a) => a.id)
+      );
+  }
+
+  const { data: carousel } = await db
+    .from("carousels")
+    .select("generation_meta")
+    .eq("id", job.carousel_id)
+    .maybeSingle();
+  const prevMeta =
+    carousel?.generation_meta && typeof carousel.generation_meta === "object"
+      ? (carousel.generation_meta as Record<string, unknown>)
+      : {};
+  const previousDeleted = Number(prevMeta.deleted_assets ?? 0);
+
+  const snapshot = readSnapshot(job.payload ?? {});
+  await db
+    .from("carousels")
+    .update({
+      generation_status: snapshot?.generationStatus ?? "idle",
+      generation_error: null,
+      generation_meta: {
+        ...prevMeta,
+        job_id: job.id,
+        stage: "cancelled",
+        cancelled_at:
+          typeof prevMeta.cancelled_at === "string"
+            ? prevMeta.cancelled_at
+            : new Date().toISOString(),
+        deleted_assets:
+          (Number.isFinite(previousDeleted) ? previousDeleted : 0) + produced.length
+      },
+      ...(options.restoreEditorState && snapshot?.editorState
+        ? { editor_state: snapshot.editorState }
+        : {})
+    })
+    .eq("id", job.carousel_id);
+
+  return { deleted: produced.length };
+}
+
+export async function cancelGenerationJob(input: { carouselId: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: carousel } = await supabase
+    .from("carousels")
+    .select("id, owner_id")
+    .eq("id", input.carouselId)
+    .maybeSingle();
+
+  if (!carousel) return { ok: false as const, error: "NOT_FOUND" };
+  if (carousel.owner_id !== userData.user.id)
+    return { ok: false as const, error: "FORBIDDEN" };
+
+  const now = new Date().toISOString();
+  const { data: job } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: "cancelled",
+      cancel_requested_at: now,
+      finished_at: now,
+      locked_by: null,
+      locked_at: null
+    })
+    .eq("carousel_id", carousel.id)
+    .in("status", ACTIVE_JOB_STATUSES)
+    .select("*")
+    .maybeSingle();
+
+  if (!job) return { ok: false as const, error: "NO_ACTIVE_GENERATION" };
+
+  const db = createSupabaseAdminClientIfAvailable() ?? supabase;
+  const { deleted } = await rollbackGenerationJob(db, job, { restoreEditorState: true });
+  return { ok: true as const, jobId: job.id, deleted };
+}
+
+/** Owner-edited parts of a paused plan: slide texts and image prompts (by position). */
+export type PlanApprovalEdits = {
+  slides: Array<{
+    index: number;
+    text: { tagline?: string; title: string; body?: string; cta?: string };
+    imagePrompts: string[];
+  }>;
+};
+
+export async function approvePlannedGeneration(input: {
+  carouselId: string;
+  edits: PlanApprovalEdits;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return { ok: false as const, error: "UNAUTHENTICATED" };
+
+  const { data: job } = await supabase
+    .from("generation_jobs")
+    .select("*")
+    .eq("carousel_id", input.carouselId)
+    .eq("status", "awaiting_approval")
+    .maybeSingle();
+
+  if (!job) return { ok: false as const, error: "NO_PLAN_TO_APPROVE" };
+  if (job.owner_id !== userData.user.id) return { ok: false as const, error: "FORBIDDEN" };
+
+  const checkpoint = parseCheckpoint(job.checkpoint);
+  if (!checkpoint.plan) return { ok: false as const, error: "NO_PLAN_TO_APPROVE" };
+
+  const editsByIndex = new Map(input.edits.slides.map((slide) => [slide.index, slide]));
+  const merged = plannerOutputSchema.safeParse({
+    ...checkpoint.plan,
+    slides: checkpoint.plan.slides.map((slide) => {
+      const edit = editsByIndex.get(slide.index);
+      if (!edit) return slide;
+      return {
+        ...slide,
+        text: edit.text,
+        images: slide.images?.map((image, position) => ({
+          ...image,
+          prompt: edit.imagePrompts[position]?.trim() || image.prompt
+        }))
+      };
+    })
+  });
+  if (!merged.success) return { ok: false as const, error: "Plano inválido." };
+
+  const now = new Date().toISOString();
+  const progress = checkpoint.progress ?? {};
+  const stages = Array.isArray(progress.stages) ? progress.stages : [];
+  const nextProgress = {
+    ...progress,
+    plan: merged.data,
+    approved_at: now,
+    stage: "plan_approved",
+    stages: [...stages, { stage: "plan_approved", at: now }]
+  };
+
+  const { data: requeued } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: "queued",
+      checkpoint: { ...checkpoint, plan: merged.data, approved: true, progress: nextProgress }
+    })
+    .eq("id", job.id)
+    .eq("status", "awaiting_approval")
+    .select("id")
+    .maybeSingle();
+  if (!requeued) return { ok: false as const, error: "NO_PLAN_TO_APPROVE" };
+
+  await supabase
+    .from("carousels")
+    .update({ generation_status: "queued", generation_meta: nextProgress })
+    .eq("id", job.carousel_id);
+
+  return { ok: true as const, jobId: job.id };
+}
+
+export async function runGenerationWorker(
+  input: { db?: SupabaseDb; jobId?: string; maxJobs?: number; workerId?: string } = {}
+) {
+  const db = input.db ?? createSupabaseAdminClientIfAvailable();
+  if (!db) {
+    return { ok: false as const, error: "SUPABASE_SERVICE_ROLE_KEY não configurada." };
+  }
+
+  const workerId = input.workerId ?? `worker_${crypto.randomUUID()}`;
+  const recovered = await recoverStaleGenerationJobs(db);
+  const maxJobs = Math.max(1, Math.floor(input.maxJobs ?? 1));
+  const processed: Array<{ jobId: string; carouselId: string; ok: boolean }> = [];
+
+  for (let i = 0; i < maxJobs; i++) {
+    const job = await claimGenerationJob(db, workerId, input.jobId);
+    if (!job) break;
+    const result = await processGenerationJob(db, job);
+    processed.push({ jobId: job.id, carouselId: job.carousel_id, ok: result.ok });
+    if (input.jobId) break;
+  }
+
+  return { ok: true as const, workerId, recovered, processed };
+}
+
+/**
+ * Runs the job after the current response is sent. The worker route remains the
+ * durable path: anything this kick does not finish is recovered and resumed there.
+ */
+export async function scheduleGenerationJob(jobId: string) {
+  const db = createSupabaseAdminClientIfAvailable() ?? (await createSupabaseServerClient());
+  after(async () => {
+    await runGenerationWorker({ db, jobId, maxJobs: 1 });
+  });
+}
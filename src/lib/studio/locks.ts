@@ -1,58 +1,142 @@
-import "server-only";
+import { z } from "zod";
+import type { CarouselElementLocks, LockKind } from "@/lib/db/types";
 
-export type ElementLocks = Record<string, unknown>;
+// Shared by the server and the studio: element_locks is always handled in its canonical
+// version 2 shape (see the element_locks_v2 migration).
 
-function getNested(lockRoot: unknown, k1: string, k2: string): boolean {
-  if (!lockRoot || typeof lockRoot !== "object") return false;
-  const level1 = (lockRoot as Record<string, unknown>)[k1];
-  if (!level1 || typeof level1 !== "object") return false;
-  const v = (level1 as Record<string, unknown>)[k2];
-  return Boolean(v);
+export type ElementLocks = CarouselElementLocks;
+
+export const LOCK_KINDS: readonly LockKind[] = ["content", "style", "position", "image"];
+
+// Slide backgrounds are locked through this pseudo object id.
+export const BACKGROUND_LOCK_ID = "background";
+
+const lockKindSchema = z.enum(["content", "style", "position", "image"]);
+
+export const elementLocksSchema = z.object({
+  version: z.literal(2),
+  slides: z.record(z.record(z.array(lockKindSchema).max(LOCK_KINDS.length)))
+});
+
+export function emptyElementLocks(): ElementLocks {
+  return { version: 2, slides: {} };
 }
 
-function getTopLevel(lockRoot: unknown, key: string): boolean {
-  if (!lockRoot || typeof lockRoot !== "object") return false;
-  return Boolean((lockRoot as Record<string, unknown>)[key]);
+/** Slide id the studio and apply use for slides without one: `slide_<n>` (1-based). */
+export function slideLockKey(slide: unknown, slideIndex: number) {
+  const id = slide && typeof slide === "object" ? (slide as Record<string, unknown>).id : null;
+  return typeof id === "string" && id.trim().length > 0 ? id : `slide_${slideIndex}`;
 }
 
-export function isLocked(input: {
-  locks: unknown;
-  slideId?: string;
-  slideIndex?: number;
-  objectId: string;
-}): boolean {
-  const { locks, slideId, slideIndex, objectId } = input;
-
-  // Array format: ["slide_1:title", "1:title", ...]
-  if (Array.isArray(locks)) {
-    const tokens = locks.filter((x): x is string => typeof x === "string");
-    if (slideId && tokens.includes(`${slideId}:${objectId}`)) return true;
-    if (typeof slideIndex === "number" && tokens.includes(`${slideIndex}:${objectId}`))
-      return true;
-    return false;
+function withKinds(locks: ElementLocks, slideId: string, objectId: string, kinds: LockKind[]) {
+  const unique = LOCK_KINDS.filter((k) => kinds.includes(k));
+  const slide = { ...(locks.slides[slideId] ?? {}) };
+  if (unique.length > 0) slide[objectId] = unique;
+  else delete slide[objectId];
+  const slides = { ...locks.slides };
+  if (Object.keys(slide).length > 0) slides[slideId] = slide;
+  else delete slides[slideId];
+  return { version: 2 as const, slides };
+}
+
+/** Pairs (slide key, object id) from the legacy encodings; each one locks every kind. */
+function legacyPairs(raw: unknown): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  const split = (token: string, sep: string) => {
+    const at = token.indexOf(sep);
+    if (at > 0 && at < token.length - 1) pairs.push([token.slice(0, at), token.slice(at + 1)]);
+  };
+
+  // ["slide_1:title", "1:title"]
+  if (Array.isArray(raw)) {
+    for (const token of raw) if (typeof token === "string") split(token, ":");
+    return pairs;
   }
+  if (!raw || typeof raw !== "object") return pairs;
+
+  const root = raw as Record<string, unknown>;
+  const nested = (container: unknown) => {
+    if (!container || typeof container !== "object") return;
+    for (const [slideKey, value] of Object.entries(container as Record<string, unknown>)) {
+      // { slide_1: { title: true } }, { "1": { title: true } }
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [objectId, locked] of Object.entries(value as Record<string, unknown>)) {
+          if (locked) pairs.push([slideKey, objectId]);
+        }
+      } else if (value === true) {
+        // { "slide_1.title": true }, { "1.title": true }
+        split(slideKey, ".");
+      }
+    }
+  };
+  nested(Object.fromEntries(Object.entries(root).filter(([key]) => key !== "bySlide")));
+  nested(root.bySlide);
+  return pairs;
+}
 
-  // Object formats:
-  // - { slide_1: { title: true } }
-  // - { "1": { title: true } }
-  // - { "slide_1.title": true }
-  // - { "1.title": true }
-  if (slideId && getNested(locks, slideId, objectId)) return true;
-  if (typeof slideIndex === "number" && getNested(locks, String(slideIndex), objectId))
-    return true;
-
-  if (slideId && getTopLevel(locks, `${slideId}.${objectId}`)) return true;
-  if (typeof slideIndex === "number" && getTopLevel(locks, `${slideIndex}.${objectId}`))
-    return true;
-
-  // Alternate root container
-  if (locks && typeof locks === "object" && "bySlide" in locks) {
-    const bySlide = (locks as Record<string, unknown>).bySlide;
-    if (slideId && getNested(bySlide, slideId, objectId)) return true;
-    if (typeof slideIndex === "number" && getNested(bySlide, String(slideIndex), objectId))
-      return true;
+/**
+ * Canonical locks for a carousel. Version 2 passes through (invalid entries dropped);
+ * legacy encodings are converted like the migration does: index keys resolve to the
+ * slide's id and every kind is locked.
+ */
+export function normalizeElementLocks(raw: unknown, slides: unknown[]): ElementLocks {
+  if (raw && typeof raw === "object" && (raw as Record<string, unknown>).version === 2) {
+    const parsed = elementLocksSchema.safeParse(raw);
+    if (parsed.success) return parsed.data;
+    // Keep what is readable from a partially broken v2 payload.
+    let locks = emptyElementLocks();
+    const slidesRaw = (raw as Record<string, unknown>).slides;
+    for (const [slideId, objects] of Object.entries(
+      slidesRaw && typeof slidesRaw === "object" ? (slidesRaw as Record<string, unknown>) : {}
+    )) {
+      if (!objects || typeof objects !== "object") continue;
+      for (const [objectId, kinds] of Object.entries(objects as Record<string, unknown>)) {
+        if (!Array.isArray(kinds)) continue;
+        const valid = kinds.filter((k): k is LockKind => lockKindSchema.safeParse(k).success);
+        locks = withKinds(locks, slideId, objectId, valid);
+      }
+    }
+    return locks;
   }
 
-  return false;
+  let locks = emptyElementLocks();
+  for (const [slideKey, objectId] of legacyPairs(raw)) {
+    const slideId = /^[1-9]\d{0,2}$/.test(slideKey)
+      ? slideLockKey(slides[Number(slideKey) - 1], Number(slideKey))
+      : slideKey;
+    locks = withKinds(locks, slideId, objectId, [...LOCK_KINDS]);
+  }
+  return locks;
+}
+
+export function lockedKinds(input: {
+  locks: ElementLocks;
+  slideId: string;
+  objectId: string;
+}): LockKind[] {
+  return input.locks.slides[input.slideId]?.[input.objectId] ?? [];
+}
+
+/** With `kind`, whether that kind is locked; without it, whether any kind is. */
+export function isLocked(input: {
+  locks: ElementLocks;
+  slideId: string;
+  objectId: string;
+  kind?: LockKind;
+}): boolean {
+  const kinds = lockedKinds(input);
+  return input.kind ? kinds.includes(input.kind) : kinds.length > 0;
 }
 
+export function isFullyLocked(input: { locks: ElementLocks; slideId: string; objectId: string }) {
+  const kinds = lockedKinds(input);
+  return LOCK_KINDS.every((k) => kinds.includes(k));
+}
+
+/** Replaces the locked kinds of one object; an empty list unlocks it. */
+export function setLockedKinds(
+  locks: ElementLocks,
+  input: { slideId: string; objectId: string; kinds: LockKind[] }
+): ElementLocks {
+  return withKinds(locks, input.slideId, input.objectId, input.kinds);
+}
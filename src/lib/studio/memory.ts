@@ -0,0 +1,90 @@
+import "server-only";
+
+import type { CarouselMemoryTurn } from "@/lib/db/types";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+export type CarouselMemory = { summary: string; lastTurns: CarouselMemoryTurn[] };
+
+// The newest turns are kept verbatim; older ones are folded into the summary, one line each.
+const MAX_TURNS = 8;
+const MAX_SUMMARY_CHARS = 1500;
+
+const OUTCOME_LABEL: Record<CarouselMemoryTurn["outcome"], string> = {
+  accepted: "aceito",
+  partial: "aplicado em parte",
+  rejected: "rejeitado"
+};
+
+function truncate(value: string, max: number) {
+  const text = value.replace(/\s+/g, " ").trim();
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function summarizeTurn(turn: CarouselMemoryTurn) {
+  const where = turn.slideIndex ? `slide ${turn.slideIndex}` : "carrossel";
+  const note = turn.note ? ` (${truncate(turn.note, 120)})` : "";
+  return `[${OUTCOME_LABEL[turn.outcome]}] ${where}: "${truncate(turn.instruction, 160)}"${note}`;
+}
+
+/** Appends lines and drops the oldest ones once the summary grows past MAX_SUMMARY_CHARS. */
+function rollSummary(summary: string, lines: string[]) {
+  const all = [...summary.split("\n").filter(Boolean), ...lines];
+  while (all.length > 1 && all.join("\n").length > MAX_SUMMARY_CHARS) all.shift();
+  return all.join("\n");
+}
+
+export async function loadCarouselMemory(
+  db: SupabaseDb,
+  carouselId: string
+): Promise<CarouselMemory> {
+  const { data } = await db
+    .from("carousel_memory")
+    .select("summary, turns")
+    .eq("carousel_id", carouselId)
+    .maybeSingle();
+  return {
+    summary: data?.summary ?? "",
+    lastTurns: Array.isArray(data?.turns) ? data.turns : []
+  };
+}
+
+/** Records one user turn. Memory is best-effort: a failed write never fails the edit. */
+export async function rememberCarouselTurn(
+  db: SupabaseDb,
+  input: {
+    carousel: { id: string; workspace_id: string };
+    ownerId: string;
+    turn: Omit<CarouselMemoryTurn, "at">;
+  }
+) {
+  const current = await loadCarouselMemory(db, input.carousel.id);
+  const turns = [...current.lastTurns, { ...input.turn, at: new Date().toISOString() }];
+  const overflow = turns.splice(0, Math.max(0, turns.length - MAX_TURNS));
+  const summary =
+    overflow.length > 0 ? rollSummary(current.summary, overflow.map(summarizeTurn)) : current.summary;
+
+  const { error } = await db.from("carousel_memory").upsert({
+    carousel_id: input.carousel.id,
+    workspace_id: input.carousel.workspace_id,
+    owner_id: input.ownerId,
+    summary,
+    turns,
+    updated_at: new Date().toISOString()
+  });
+  if (error) console.warn(`[memory] falha ao salvar memória do carrossel: ${error.message}`);
+}
+
+/** Prompt-facing shape: timestamps dropped, texts trimmed. */
+export function memoryForPrompt(memory: CarouselMemory) {
+  return {
+    summary: memory.summary,
+    lastTurns: memory.lastTurns.map((turn) => ({
+      instruction: truncate(turn.instruction, 400),
+      outcome: turn.outcome,
+      slideIndex: turn.slideIndex ?? null,
+      note: turn.note ?? null
+    }))
+  };
+}
@@ -0,0 +1,110 @@
+import "server-only";
+
+import type {
+  CarouselChatMessage,
+  CarouselMessageResult,
+  CarouselMessageRole
+} from "@/lib/db/types";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { Database } from "@/types/supabase";
+
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+type MessageRow = Database["public"]["Tables"]["carousel_messages"]["Row"];
+
+function toChatMessage(row: MessageRow): CarouselChatMessage {
+  const patch =
+    row.patch && typeof row.patch === "object" && Array.isArray(row.patch.ops)
+      ? (row.patch as CarouselChatMessage["patch"])
+      : null;
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    slideIndex: row.slide_index,
+    patch,
+    result: row.result,
+    replyTo: row.reply_to,
+    createdAt: row.created_at
+  };
+}
+
+/** Newest `limit` messages of the carousel, oldest first. */
+export async function listCarouselMessages(
+  db: SupabaseDb,
+  carouselId: string,
+  limit = 50
+): Promise<CarouselChatMessage[]> {
+  const { data } = await db
+    .from("carousel_messages")
+    .select("*")
+    .eq("carousel_id", carouselId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  return (data ?? []).map(toChatMessage).reverse();
+}
+
+export async function appendCarouselMessage(
+  db: SupabaseDb,
+  input: {
+    carousel: { id: string; workspace_id: string };
+    ownerId: string;
+    role: CarouselMessageRole;
+    content: string;
+    slideIndex?: number | null;
+    patch?: Record<string, unknown> | null;
+    result?: CarouselMessageResult | null;
+    replyTo?: string | null;
+  }
+): Promise<CarouselChatMessage | null> {
+  const { data, error } = await db
+    .from("carousel_messages")
+    .insert({
+      workspace_id: input.carousel.workspace_id,
+      carousel_id: input.carousel.id,
+      owner_id: input.ownerId,
+      role: input.role,
+      content: input.content,
+      slide_index: input.slideIndex ?? null,
+      patch: input.patch ?? null,
+      result: input.result ?? null,
+      reply_to: input.replyTo ?? null
+    })
+    .select("*")
+    .single();
+  if (error || !data) {
+    console.warn(`[chat] falha ao salvar mensagem: ${error?.message ?? "sem dados"}`);
+    return null;
+  }
+  return toChatMessage(data);
+}
+
+function clip(value: unknown, max: number) {
+  if (typeof value !== "string") return value;
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/**
+ * Conversation excerpt for the NL edit prompt. Assistant turns list the ops they applied,
+ * so "desfaça a mudança anterior" or "faça o mesmo no slide 3" can be resolved.
+ */
+export function messagesForPrompt(messages: CarouselChatMessage[]) {
+  return messages.map((m) =>
+    m.role === "user"
+      ? { role: "user", slideIndex: m.slideIndex, text: clip(m.content, 600) }
+      : {
+          role: "assistant",
+          summary: clip(m.content, 300),
+          ops: (m.patch?.ops ?? []).map((op) =>
+            Object.fromEntries(Object.entries(op).map(([k, v]) => [k, clip(v, 200)]))
+          ),
+          // Proposals that were discarded (or not yet accepted) never touched the carousel.
+          preview: m.result?.preview ?? null,
+          applied:
+            m.result?.preview === "pending" || m.result?.preview === "discarded"
+              ? 0
+              : (m.result?.applied ?? 0),
+          blockedByLock: m.result?.blockedByLock ?? 0,
+          error: m.result?.error ?? null
+        }
+  );
+}
@@ -46,7 +46,7 @@ const slideTextSchema = z.object({
   cta: optionalText(140)
 });
 
-const slidePlanSchema = z.object({
+export const slidePlanSchema = z.object({
   index: z.number().int().min(1),
   text: slideTextSchema,
   images: z.array(imageRequestSchema).max(6).optional()
@@ -89,3 +89,4 @@ export const plannerOutputSchema = z.object({
 });
 
 export type PlannerOutput = z.infer<typeof plannerOutputSchema>;
+export type SlidePlan = z.infer<typeof slidePlanSchema>;
@@ -0,0 +1,62 @@
+import "server-only";
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { CarouselPlanSource } from "@/lib/db/types";
+import { plannerOutputSchema, type PlannerOutput } from "@/lib/studio/planner_contract";
+
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+export async function saveCarouselPlan(
+  db: SupabaseDb,
+  input: {
+    carousel: { id: string; workspace_id: string };
+    ownerId: string;
+    jobId?: string | null;
+    source: CarouselPlanSource;
+    plan: PlannerOutput;
+  }
+) {
+  const { error } = await db.from("carousel_plans").insert({
+    workspace_id: input.carousel.workspace_id,
+    carousel_id: input.carousel.id,
+    owner_id: input.ownerId,
+    job_id: input.jobId ?? null,
+    source: input.source,
+    plan: input.plan as unknown as Record<string, unknown>
+  });
+  return { error };
+}
+
+/**
+ * Newest stored plan for a carousel. Carousels generated before plans were stored
+ * fall back to the checkpoint of their last successful job.
+ */
+export async function loadLatestCarouselPlan(
+  db: SupabaseDb,
+  carouselId: string
+): Promise<PlannerOutput | null> {
+  const { data: stored } = await db
+    .from("carousel_plans")
+    .select("plan")
+    .eq("carousel_id", carouselId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const fromTable = plannerOutputSchema.safeParse(stored?.plan);
+  if (fromTable.success) return fromTable.data;
+
+  const { data: job } = await db
+    .from("generation_jobs")
+    .select("checkpoint")
+    .eq("carousel_id", carouselId)
+    .eq("status", "succeeded")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const checkpoint =
+    job?.checkpoint && typeof job.checkpoint === "object"
+      ? (job.checkpoint as Record<string, unknown>)
+      : null;
+  const fromJob = plannerOutputSchema.safeParse(checkpoint?.plan);
+  return fromJob.success ? fromJob.data : null;
+}
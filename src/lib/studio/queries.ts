@@ -3,6 +3,7 @@ import "server-only";
 import { z } from "zod";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import type { CarouselEditorState } from "@/lib/db/types";
+import { listCarouselMessages } from "@/lib/studio/messages";
 
 export const editorStateSchema: z.ZodType<CarouselEditorState> = z.object({
   version: z.number().int().min(1),
@@ -65,6 +66,8 @@ export async function getStudioProject(carouselId: string) {
     )
     .order("updated_at", { ascending: false });
 
+  const messages = await listCarouselMessages(supabase, carouselId);
+
   return {
     user: userData.user,
     project: {
@@ -75,7 +78,8 @@ export async function getStudioProject(carouselId: string) {
       palettes: palettes ?? [],
       templates: templates ?? [],
       presets: presets ?? [],
-      creatorProfiles: creatorProfiles ?? []
+      creatorProfiles: creatorProfiles ?? [],
+      messages
     }
   };
 }
@@ -0,0 +1,41 @@
+// Shared by the studio picker and the server: slide sets written as "2-5, 7".
+
+/**
+ * Parses a list of slides and ranges ("2-5, 7", "2–5", "3") into sorted, unique 1-based
+ * indexes. Null when the text is malformed or names a slide outside 1..slideCount.
+ */
+export function parseSlideTargets(text: string, slideCount: number): number[] | null {
+  const parts = text
+    .replace(/\s*[-–]\s*/g, "-")
+    .split(/[,;\s]+/)
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const indexes = new Set<number>();
+  for (const part of parts) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to > slideCount || from > to) return null;
+    for (let i = from; i <= to; i++) indexes.add(i);
+  }
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+/** Every slide except the cover (slide 1). */
+export function contentSlideIndexes(slideCount: number) {
+  return Array.from({ length: Math.max(0, slideCount - 1) }, (_, i) => i + 2);
+}
+
+/** Compact label for a set of indexes: [2, 3, 4, 5, 7] -> "2–5, 7". */
+export function formatSlideTargets(indexes: number[]) {
+  const sorted = Array.from(new Set(indexes)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]!;
+    while (sorted[i + 1] === sorted[i]! + 1) i++;
+    ranges.push(sorted[i] === start ? String(start) : `${start}–${sorted[i]}`);
+  }
+  return ranges.join(", ");
+}
@@ -0,0 +1,107 @@
+import "server-only";
+
+import type { AiUsageEntry, AiUsageMeter } from "@/lib/ai/provider";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+type SupabaseDb = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/** Writes one ai_usage row per provider call. Metering never fails the caller. */
+export function createAiUsageMeter(
+  db: SupabaseDb,
+  context: { workspaceId: string; userId: string | null; carouselId?: string | null }
+): AiUsageMeter {
+  return async (entry: AiUsageEntry) => {
+    // Members can't insert ledger rows directly; record_ai_usage checks membership.
+    const count = (value: number) => Math.max(0, Math.round(value));
+    const { error } = await db.rpc("record_ai_usage", {
+      p_workspace_id: context.workspaceId,
+      p_user_id: context.userId,
+      p_carousel_id: context.carouselId ?? null,
+      p_task: entry.task,
+      p_kind: entry.kind,
+      p_provider: entry.provider,
+      p_model: entry.model,
+      p_input_tokens: count(entry.inputTokens),
+      p_output_tokens: count(entry.outputTokens),
+      p_image_count: count(entry.imageCount),
+      p_latency_ms: count(entry.latencyMs),
+      p_ok: entry.ok
+    });
+    if (error) console.warn(`[ai-usage] falha ao registrar uso: ${error.message}`);
+  };
+}
+
+export type AiQuotaCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      error: "QUOTA_EXCEEDED";
+      scope: "workspace" | "user";
+      resource: "tokens" | "images";
+      used: number;
+      limit: number;
+    };
+
+/** Compares this month's usage with the workspace quotas (null quota = unlimited). */
+export async function checkAiQuota(
+  db: SupabaseDb,
+  input: { workspaceId: string; userId: string }
+): Promise<AiQuotaCheck> {
+  const { data: workspace } = await db
+    .from("workspaces")
+    .select(
+      "ai_monthly_token_quota, ai_monthly_image_quota, ai_user_monthly_token_quota, ai_user_monthly_image_quota"
+    )
+    .eq("id", input.workspaceId)
+    .maybeSingle();
+  if (!workspace) return { ok: true };
+
+  const limits = [
+    { scope: "workspace", resource: "tokens", limit: workspace.ai_monthly_token_quota },
+    { scope: "workspace", resource: "images", limit: workspace.ai_monthly_image_quota },
+    { scope: "user", resource: "tokens", limit: workspace.ai_user_monthly_token_quota },
+    { scope: "user", resource: "images", limit: workspace.ai_user_monthly_image_quota }
+  ] as const;
+  if (limits.every((l) => l.limit === null)) return { ok: true };
+
+  const { data: totals, error } = await db
+    .rpc("ai_usage_month_totals", {
+      p_workspace_id: input.workspaceId,
+      p_user_id: input.userId
+    })
+    .maybeSingle();
+  if (error || !totals) {
+    // Fail open: a broken ledger query should not block the studio.
+    console.warn(`[ai-usage] falha ao ler totais do mês: ${error?.message ?? "sem dados"}`);
+    return { ok: true };
+  }
+
+  const used = {
+    workspace: { tokens: Number(totals.workspace_tokens), images: Number(totals.workspace_images) },
+    user: { tokens: Number(totals.user_tokens), images: Number(totals.user_images) }
+  };
+  for (const l of limits) {
+    if (l.limit === null) continue;
+    const current = used[l.scope][l.resource];
+    if (current >= l.limit) {
+      return {
+        ok: false,
+        error: "QUOTA_EXCEEDED",
+        scope: l.scope,
+        resource: l.resource,
+        used: current,
+        limit: l.limit
+      };
+    }
+  }
+  return { ok: true };
+}
+
+export function describeQuotaError(input: {
+  scope?: "workspace" | "user";
+  resource?: "tokens" | "images";
+}) {
+  const who = input.scope === "user" ? "Sua cota mensal" : "A cota mensal do workspace";
+  const what = input.resource === "images" ? "imagens" : "tokens de IA";
+  return `${who} de ${what} foi atingida. Fale com o administrador.`;
+}
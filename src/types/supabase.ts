@@ -1,7 +1,15 @@
 import type {
+  AiUsageTask,
   CarouselDraft,
   CarouselEditorState,
-  CarouselGenerationStatus
+  CarouselElementLocks,
+  CarouselGenerationStatus,
+  CarouselMemoryTurn,
+  CarouselMessageResult,
+  CarouselMessageRole,
+  CarouselPlanSource,
+  GenerationJobStage,
+  GenerationJobStatus
 } from "@/lib/db/types";
 
 export type Database = {
@@ -61,6 +69,11 @@ export type Database = {
           id: string;
           name: string;
           logo_path: string | null;
+          image_generation_concurrency: number;
+          ai_monthly_token_quota: number | null;
+          ai_monthly_image_quota: number | null;
+          ai_user_monthly_token_quota: number | null;
+          ai_user_monthly_image_quota: number | null;
           created_by: string;
           created_at: string;
           updated_at: string;
@@ -69,11 +82,21 @@ export type Database = {
           id?: string;
           name: string;
           logo_path?: string | null;
+          image_generation_concurrency?: number;
+          ai_monthly_token_quota?: number | null;
+          ai_monthly_image_quota?: number | null;
+          ai_user_monthly_token_quota?: number | null;
+          ai_user_monthly_image_quota?: number | null;
           created_by: string;
         };
         Update: {
           name?: string;
           logo_path?: string | null;
+          image_generation_concurrency?: number;
+          ai_monthly_token_quota?: number | null;
+          ai_monthly_image_quota?: number | null;
+          ai_user_monthly_token_quota?: number | null;
+          ai_user_monthly_image_quota?: number | null;
         };
         Relationships: [];
       };
@@ -101,7 +124,7 @@ export type Database = {
           owner_id: string;
           title: string | null;
           draft: CarouselDraft;
-          element_locks: Record<string, unknown>;
+          element_locks: CarouselElementLocks;
           editor_state: CarouselEditorState;
           generation_status: CarouselGenerationStatus;
           generation_meta: Record<string, unknown>;
@@ -115,7 +138,7 @@ export type Database = {
           owner_id: string;
           title?: string | null;
           draft: CarouselDraft;
-          element_locks?: Record<string, unknown>;
+          element_locks?: CarouselElementLocks;
           editor_state?: CarouselEditorState;
           generation_status?: CarouselGenerationStatus;
           generation_meta?: Record<string, unknown>;
@@ -124,7 +147,7 @@ export type Database = {
         Update: {
           title?: string | null;
           draft?: CarouselDraft;
-          element_locks?: Record<string, unknown>;
+          element_locks?: CarouselElementLocks;
           editor_state?: CarouselEditorState;
           generation_status?: CarouselGenerationStatus;
           generation_meta?: Record<string, unknown>;
@@ -161,6 +184,166 @@ export type Database = {
         Update: never;
         Relationships: [];
       };
+      generation_jobs: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          carousel_id: string;
+          owner_id: string;
+          kind: string;
+          status: GenerationJobStatus;
+          stage: GenerationJobStage;
+          payload: Record<string, unknown>;
+          checkpoint: Record<string, unknown>;
+          attempts: number;
+          max_attempts: number;
+          locked_by: string | null;
+          locked_at: string | null;
+          heartbeat_at: string | null;
+          last_error: string | null;
+          cancel_requested_at: string | null;
+          created_at: string;
+          updated_at: string;
+          finished_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          workspace_id: string;
+          carousel_id: string;
+          owner_id: string;
+          kind?: string;
+          status?: GenerationJobStatus;
+          stage?: GenerationJobStage;
+          payload?: Record<string, unknown>;
+          checkpoint?: Record<string, unknown>;
+          max_attempts?: number;
+        };
+        Update: {
+          status?: GenerationJobStatus;
+          stage?: GenerationJobStage;
+          checkpoint?: Record<string, unknown>;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          heartbeat_at?: string | null;
+          last_error?: string | null;
+          cancel_requested_at?: string | null;
+          finished_at?: string | null;
+        };
+        Relationships: [];
+      };
+      carousel_plans: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          carousel_id: string;
+          owner_id: string;
+          job_id: string | null;
+          source: CarouselPlanSource;
+          plan: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          workspace_id: string;
+          carousel_id: string;
+          owner_id: string;
+          job_id?: string | null;
+          source?: CarouselPlanSource;
+          plan: Record<string, unknown>;
+        };
+        Update: Record<string, never>;
+        Relationships: [];
+      };
+      carousel_messages: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          carousel_id: string;
+          owner_id: string;
+          role: CarouselMessageRole;
+          content: string;
+          slide_index: number | null;
+          patch: Record<string, unknown> | null;
+          result: CarouselMessageResult | null;
+          reply_to: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          workspace_id: string;
+          carousel_id: string;
+          owner_id: string;
+          role: CarouselMessageRole;
+          content: string;
+          slide_index?: number | null;
+          patch?: Record<string, unknown> | null;
+          result?: CarouselMessageResult | null;
+          reply_to?: string | null;
+        };
+        Update: {
+          result?: CarouselMessageResult | null;
+        };
+        Relationships: [];
+      };
+      carousel_memory: {
+        Row: {
+          carousel_id: string;
+          workspace_id: string;
+          owner_id: string;
+          summary: string;
+          turns: CarouselMemoryTurn[];
+          updated_at: string;
+        };
+        Insert: {
+          carousel_id: string;
+          workspace_id: string;
+          owner_id: string;
+          summary?: string;
+          turns?: CarouselMemoryTurn[];
+          updated_at?: string;
+        };
+        Update: {
+          summary?: string;
+          turns?: CarouselMemoryTurn[];
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      ai_usage: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          user_id: string | null;
+          carousel_id: string | null;
+          task: AiUsageTask;
+          kind: "text" | "image";
+          provider: string;
+          model: string;
+          input_tokens: number;
+          output_tokens: number;
+          image_count: number;
+          latency_ms: number;
+          ok: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          workspace_id: string;
+          user_id?: string | null;
+          carousel_id?: string | null;
+          task: AiUsageTask;
+          kind?: "text" | "image";
+          provider: string;
+          model: string;
+          input_tokens?: number;
+          output_tokens?: number;
+          image_count?: number;
+          latency_ms?: number;
+          ok?: boolean;
+        };
+        Update: Record<string, never>;
+        Relationships: [];
+      };
       carousel_templates: {
         Row: {
           id: string;
@@ -343,6 +526,56 @@ export type Database = {
         Args: { path: string };
         Returns: string | null;
       };
+      claim_generation_job: {
+        Args: { p_worker_id: string; p_job_id?: string | null };
+        Returns: Database["public"]["Tables"]["generation_jobs"]["Row"][];
+      };
+      recover_stale_generation_jobs: {
+        Args: { p_stale_after_seconds?: number };
+        Returns: Database["public"]["Tables"]["generation_jobs"]["Row"][];
+      };
+      ai_usage_month_totals: {
+        Args: { p_workspace_id: string; p_user_id: string };
+        Returns: {
+          workspace_tokens: number;
+          workspace_images: number;
+          user_tokens: number;
+          user_images: number;
+        }[];
+      };
+      record_ai_usage: {
+        Args: {
+          p_workspace_id: string;
+          p_user_id: string | null;
+          p_carousel_id: string | null;
+          p_task: AiUsageTask;
+          p_kind: "text" | "image";
+          p_provider: string;
+          p_model: string;
+          p_input_tokens: number;
+          p_output_tokens: number;
+          p_image_count: number;
+          p_latency_ms: number;
+          p_ok: boolean;
+        };
+        Returns: undefined;
+      };
+      ai_usage_summary: {
+        Args: { p_since: string };
+        Returns: {
+          workspace_id: string;
+          user_id: string | null;
+          task: AiUsageTask;
+          provider: string;
+          model: string;
+          calls: number;
+          failed_calls: number;
+          input_tokens: number;
+          output_tokens: number;
+          image_count: number;
+          avg_latency_ms: number;
+        }[];
+      };
     };
     Enums: {
       workspace_role: "owner" | "member" | "admin";
@@ -0,0 +1,108 @@
+-- Durable generation queue: one row per "generate first draft" request.
+-- Workers claim jobs, persist stage checkpoints and heartbeat while running so that a dropped
+-- request or a redeploy can be resumed instead of leaving the carousel stuck in "running".
+
+create table if not exists public.generation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  carousel_id uuid not null references public.carousels (id) on delete cascade,
+  owner_id uuid not null,
+  kind text not null default 'first_draft',
+  status text not null default 'queued', -- queued|running|succeeded|failed
+  stage text not null default 'plan', -- plan|aesthetic_review|images|editor_state|done
+  payload jsonb not null default '{}'::jsonb,
+  checkpoint jsonb not null default '{}'::jsonb,
+  attempts int not null default 0,
+  max_attempts int not null default 3,
+  locked_by text null,
+  locked_at timestamptz null,
+  heartbeat_at timestamptz null,
+  last_error text null,
+  created_at timestamptz not null default public.now_utc(),
+  updated_at timestamptz not null default public.now_utc(),
+  finished_at timestamptz null,
+  constraint generation_jobs_status_check check (
+    status in ('queued', 'running', 'succeeded', 'failed')
+  )
+);
+
+create index if not exists generation_jobs_status_created_idx
+  on public.generation_jobs (status, created_at);
+
+create index if not exists generation_jobs_carousel_id_idx
+  on public.generation_jobs (carousel_id, created_at desc);
+
+-- At most one active job per carousel.
+create unique index if not exists generation_jobs_one_active_per_carousel_uq
+  on public.generation_jobs (carousel_id)
+  where status in ('queued', 'running');
+
+drop trigger if exists set_updated_at_generation_jobs on public.generation_jobs;
+create trigger set_updated_at_generation_jobs
+before update on public.generation_jobs
+for each row execute procedure public.set_updated_at();
+
+alter table public.generation_jobs enable row level security;
+
+drop policy if exists generation_jobs_member_read on public.generation_jobs;
+create policy generation_jobs_member_read
+on public.generation_jobs
+for select
+to authenticated
+using (
+  public.is_super_admin(auth.uid())
+  or public.is_workspace_member(generation_jobs.workspace_id, auth.uid())
+);
+
+drop policy if exists generation_jobs_owner_write on public.generation_jobs;
+create policy generation_jobs_owner_write
+on public.generation_jobs
+for all
+to authenticated
+using (owner_id = auth.uid())
+with check (owner_id = auth.uid());
+
+-- Claims the oldest queued job (or a specific one) for a worker.
+-- Runs with the caller's rights: the service role sees every job, an authenticated user only their own.
+create or replace function public.claim_generation_job(p_worker_id text, p_job_id uuid default null)
+returns setof public.generation_jobs
+language sql
+volatile
+set search_path = public
+as $$
+  update public.generation_jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = public.now_utc(),
+      heartbeat_at = public.now_utc()
+  where j.id = (
+    select q.id
+    from public.generation_jobs q
+    where q.status = 'queued'
+      and (p_job_id is null or q.id = p_job_id)
+    order by q.created_at asc
+    limit 1
+    for update skip locked
+  )
+  returning j.*;
+$$;
+
+-- Re-queues running jobs whose worker stopped heartbeating; jobs out of attempts are failed.
+create or replace function public.recover_stale_generation_jobs(p_stale_after_seconds int default 180)
+returns setof public.generation_jobs
+language sql
+volatile
+set search_path = public
+as $$
+  update public.generation_jobs j
+  set status = case when j.attempts >= j.max_attempts then 'failed' else 'queued' end,
+      last_error = coalesce(j.last_error, 'Worker parou de responder.'),
+      locked_by = null,
+      locked_at = null,
+      finished_at = case when j.attempts >= j.max_attempts then public.now_utc() else null end
+  where j.status = 'running'
+    and coalesce(j.heartbeat_at, j.locked_at, j.updated_at)
+      < public.now_utc() - make_interval(secs => p_stale_after_seconds)
+  returning j.*;
+$$;
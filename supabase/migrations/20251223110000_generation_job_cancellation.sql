@@ -0,0 +1,12 @@
+-- Allow in-flight generation jobs to be cancelled by their owner.
+
+alter table public.generation_jobs
+  add column if not exists cancel_requested_at timestamptz null;
+
+alter table public.generation_jobs
+  drop constraint if exists generation_jobs_status_check;
+
+alter table public.generation_jobs
+  add constraint generation_jobs_status_check check (
+    status in ('queued', 'running', 'succeeded', 'failed', 'cancelled')
+  );
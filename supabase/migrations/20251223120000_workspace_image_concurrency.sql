@@ -0,0 +1,12 @@
+-- How many images a generation job may request in parallel for this workspace.
+
+alter table public.workspaces
+  add column if not exists image_generation_concurrency int not null default 3;
+
+alter table public.workspaces
+  drop constraint if exists workspaces_image_generation_concurrency_check;
+
+alter table public.workspaces
+  add constraint workspaces_image_generation_concurrency_check check (
+    image_generation_concurrency between 1 and 8
+  );
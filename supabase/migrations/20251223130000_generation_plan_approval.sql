@@ -0,0 +1,15 @@
+-- Two-phase generation: a job can pause after planning until the owner approves the plan.
+
+alter table public.generation_jobs
+  drop constraint if exists generation_jobs_status_check;
+
+alter table public.generation_jobs
+  add constraint generation_jobs_status_check check (
+    status in ('queued', 'running', 'awaiting_approval', 'succeeded', 'failed', 'cancelled')
+  );
+
+-- A paused job still blocks a second generation for the same carousel.
+drop index if exists public.generation_jobs_one_active_per_carousel_uq;
+create unique index if not exists generation_jobs_one_active_per_carousel_uq
+  on public.generation_jobs (carousel_id)
+  where status in ('queued', 'running', 'awaiting_approval');
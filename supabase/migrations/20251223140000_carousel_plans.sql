@@ -0,0 +1,36 @@
+-- Validated planner output (PlannerOutputV1) kept as an artifact, one row per version.
+-- The newest row is the carousel's current plan; re-rendering reads it instead of calling the LLM.
+
+create table if not exists public.carousel_plans (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  carousel_id uuid not null references public.carousels (id) on delete cascade,
+  owner_id uuid not null,
+  job_id uuid null references public.generation_jobs (id) on delete set null,
+  source text not null default 'first_draft', -- first_draft|slide_regeneration|rerender
+  plan jsonb not null,
+  created_at timestamptz not null default public.now_utc()
+);
+
+create index if not exists carousel_plans_carousel_created_idx
+  on public.carousel_plans (carousel_id, created_at desc);
+
+alter table public.carousel_plans enable row level security;
+
+drop policy if exists carousel_plans_member_read on public.carousel_plans;
+create policy carousel_plans_member_read
+on public.carousel_plans
+for select
+to authenticated
+using (
+  public.is_super_admin(auth.uid())
+  or public.is_workspace_member(carousel_plans.workspace_id, auth.uid())
+);
+
+drop policy if exists carousel_plans_owner_write on public.carousel_plans;
+create policy carousel_plans_owner_write
+on public.carousel_plans
+for all
+to authenticated
+using (owner_id = auth.uid())
+with check (owner_id = auth.uid());
@@ -0,0 +1,119 @@
+-- AI usage ledger: one row per provider call (text or image), plus monthly quotas.
+-- Quotas are nullable; null means unlimited. Per-user quotas apply to each member.
+
+create table if not exists public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid null,
+  carousel_id uuid null references public.carousels (id) on delete set null,
+  task text not null, -- planner|aesthetic_review|nl_edit|image
+  kind text not null default 'text', -- text|image
+  provider text not null,
+  model text not null,
+  input_tokens int not null default 0,
+  output_tokens int not null default 0,
+  image_count int not null default 0,
+  latency_ms int not null default 0,
+  ok boolean not null default true,
+  created_at timestamptz not null default public.now_utc()
+);
+
+create index if not exists ai_usage_workspace_created_idx
+  on public.ai_usage (workspace_id, created_at desc);
+
+create index if not exists ai_usage_user_created_idx
+  on public.ai_usage (user_id, created_at desc);
+
+alter table public.ai_usage enable row level security;
+
+drop policy if exists ai_usage_member_read on public.ai_usage;
+create policy ai_usage_member_read
+on public.ai_usage
+for select
+to authenticated
+using (
+  public.is_super_admin(auth.uid())
+  or public.is_workspace_member(ai_usage.workspace_id, auth.uid())
+);
+
+drop policy if exists ai_usage_member_insert on public.ai_usage;
+create policy ai_usage_member_insert
+on public.ai_usage
+for insert
+to authenticated
+with check (
+  user_id = auth.uid()
+  and public.is_workspace_member(ai_usage.workspace_id, auth.uid())
+);
+
+alter table public.workspaces
+  add column if not exists ai_monthly_token_quota bigint null,
+  add column if not exists ai_monthly_image_quota int null,
+  add column if not exists ai_user_monthly_token_quota bigint null,
+  add column if not exists ai_user_monthly_image_quota int null;
+
+-- Totals for the current UTC month, for the workspace and for one of its users.
+create or replace function public.ai_usage_month_totals(p_workspace_id uuid, p_user_id uuid)
+returns table (
+  workspace_tokens bigint,
+  workspace_images bigint,
+  user_tokens bigint,
+  user_images bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce(sum(u.input_tokens + u.output_tokens), 0)::bigint,
+    coalesce(sum(u.image_count), 0)::bigint,
+    coalesce(sum(u.input_tokens + u.output_tokens) filter (where u.user_id = p_user_id), 0)::bigint,
+    coalesce(sum(u.image_count) filter (where u.user_id = p_user_id), 0)::bigint
+  from public.ai_usage u
+  where u.workspace_id = p_workspace_id
+    and u.created_at >= date_trunc('month', public.now_utc())
+    and (
+      public.is_super_admin(auth.uid())
+      or public.is_workspace_member(p_workspace_id, auth.uid())
+      or auth.role() = 'service_role' -- generation worker
+    );
+$$;
+
+-- Super-admin report: usage grouped by workspace, user, task and model since p_since.
+create or replace function public.ai_usage_summary(p_since timestamptz)
+returns table (
+  workspace_id uuid,
+  user_id uuid,
+  task text,
+  provider text,
+  model text,
+  calls bigint,
+  failed_calls bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  image_count bigint,
+  avg_latency_ms bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    u.workspace_id,
+    u.user_id,
+    u.task,
+    u.provider,
+    u.model,
+    count(*)::bigint,
+    count(*) filter (where not u.ok)::bigint,
+    coalesce(sum(u.input_tokens), 0)::bigint,
+    coalesce(sum(u.output_tokens), 0)::bigint,
+    coalesce(sum(u.image_count), 0)::bigint,
+    coalesce(avg(u.latency_ms), 0)::bigint
+  from public.ai_usage u
+  where u.created_at >= p_since
+    and public.is_super_admin(auth.uid())
+  group by u.workspace_id, u.user_id, u.task, u.provider, u.model;
+$$;
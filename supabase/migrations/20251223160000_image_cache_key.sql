@@ -0,0 +1,6 @@
+-- Content-addressed image cache: generated assets carry metadata.cache_key
+-- (sha256 of provider, model, prompt and size), looked up per workspace before generating.
+
+create index if not exists carousel_assets_image_cache_idx
+  on public.carousel_assets (workspace_id, (metadata ->> 'cache_key'))
+  where asset_type = 'generated' and status = 'ready';
@@ -0,0 +1,31 @@
+-- Per-carousel AI memory: the last few user turns (instruction + outcome) plus a rolling
+-- summary of older ones. Fed to the planner and the NL editor.
+
+create table if not exists public.carousel_memory (
+  carousel_id uuid primary key references public.carousels (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  owner_id uuid not null,
+  summary text not null default '',
+  turns jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default public.now_utc()
+);
+
+alter table public.carousel_memory enable row level security;
+
+drop policy if exists carousel_memory_member_read on public.carousel_memory;
+create policy carousel_memory_member_read
+on public.carousel_memory
+for select
+to authenticated
+using (
+  public.is_super_admin(auth.uid())
+  or public.is_workspace_member(carousel_memory.workspace_id, auth.uid())
+);
+
+drop policy if exists carousel_memory_owner_write on public.carousel_memory;
+create policy carousel_memory_owner_write
+on public.carousel_memory
+for all
+to authenticated
+using (owner_id = auth.uid())
+with check (owner_id = auth.uid());
@@ -0,0 +1,41 @@
+-- Chat editing transcript: one row per user turn and per assistant reply.
+-- Assistant rows keep the patch they applied and the apply counts; reply_to links them
+-- to the user turn that produced them.
+
+create table if not exists public.carousel_messages (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  carousel_id uuid not null references public.carousels (id) on delete cascade,
+  owner_id uuid not null,
+  role text not null, -- user|assistant
+  content text not null,
+  slide_index int null,
+  patch jsonb null,
+  result jsonb null,
+  reply_to uuid null references public.carousel_messages (id) on delete set null,
+  created_at timestamptz not null default public.now_utc(),
+  constraint carousel_messages_role_check check (role in ('user', 'assistant'))
+);
+
+create index if not exists carousel_messages_carousel_created_idx
+  on public.carousel_messages (carousel_id, created_at desc);
+
+alter table public.carousel_messages enable row level security;
+
+drop policy if exists carousel_messages_member_read on public.carousel_messages;
+create policy carousel_messages_member_read
+on public.carousel_messages
+for select
+to authenticated
+using (
+  public.is_super_admin(auth.uid())
+  or public.is_workspace_member(carousel_messages.workspace_id, auth.uid())
+);
+
+drop policy if exists carousel_messages_owner_write on public.carousel_messages;
+create policy carousel_messages_owner_write
+on public.carousel_messages
+for all
+to authenticated
+using (owner_id = auth.uid())
+with check (owner_id = auth.uid());
@@ -0,0 +1,103 @@
+-- Canonical element locks (version 2):
+--   { "version": 2, "slides": { "<slideId>": { "<objectId>": ["content", "style", "position", "image"] } } }
+-- Slides are keyed by their stable editor_state id, so every slide gets one first
+-- (`slide_<n>`, the key the studio already used for id-less slides). Legacy encodings
+-- (array tokens, nested objects by id or index, dotted keys, bySlide) lock every kind.
+
+update public.carousels c
+set editor_state = jsonb_set(
+  c.editor_state,
+  '{slides}',
+  (
+    select jsonb_agg(
+      case
+        when coalesce(t.slide ->> 'id', '') = '' then t.slide || jsonb_build_object('id', 'slide_' || t.ord)
+        else t.slide
+      end
+      order by t.ord
+    )
+    from jsonb_array_elements(c.editor_state -> 'slides') with ordinality as t (slide, ord)
+  )
+)
+where jsonb_typeof(c.editor_state -> 'slides') = 'array'
+  and exists (
+    select 1
+    from jsonb_array_elements(c.editor_state -> 'slides') as s (slide)
+    where coalesce(s.slide ->> 'id', '') = ''
+  );
+
+create or replace function public.element_locks_to_v2(locks jsonb, editor_state jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  with
+  root as (
+    select case when jsonb_typeof(locks) = 'object' then locks else '{}'::jsonb end as obj,
+           case when jsonb_typeof(locks) = 'array' then locks else '[]'::jsonb end as arr
+  ),
+  pairs (slide_key, object_id) as (
+    -- ["slide_1:title", "1:title"]
+    select split_part(t.token, ':', 1), substr(t.token, length(split_part(t.token, ':', 1)) + 2)
+    from root, jsonb_array_elements_text(root.arr) as t (token)
+    where position(':' in t.token) > 1
+    union all
+    -- { "slide_1": { "title": true } }, { "1": { "title": true } } and the same under "bySlide"
+    select s.key, o.key
+    from root,
+      jsonb_each((root.obj - 'bySlide') || coalesce(
+        case when jsonb_typeof(root.obj -> 'bySlide') = 'object' then root.obj -> 'bySlide' end,
+        '{}'::jsonb
+      )) as s
+      cross join lateral jsonb_each(
+        case when jsonb_typeof(s.value) = 'object' then s.value else '{}'::jsonb end
+      ) as o
+    where o.value not in ('false'::jsonb, 'null'::jsonb)
+    union all
+    -- { "slide_1.title": true }, { "1.title": true }
+    select split_part(s.key, '.', 1), substr(s.key, length(split_part(s.key, '.', 1)) + 2)
+    from root, jsonb_each(root.obj) as s
+    where s.value = 'true'::jsonb and position('.' in s.key) > 1
+  ),
+  resolved as (
+    select distinct
+      case
+        when p.slide_key ~ '^[1-9][0-9]{0,2}$' then coalesce(
+          nullif(editor_state -> 'slides' -> (p.slide_key::int - 1) ->> 'id', ''),
+          'slide_' || p.slide_key
+        )
+        else p.slide_key
+      end as slide_id,
+      p.object_id
+    from pairs p
+    where p.object_id <> ''
+  )
+  select jsonb_build_object(
+    'version', 2,
+    'slides', coalesce(
+      (
+        select jsonb_object_agg(g.slide_id, g.objects)
+        from (
+          select r.slide_id,
+                 jsonb_object_agg(r.object_id, '["content", "style", "position", "image"]'::jsonb) as objects
+          from resolved r
+          group by r.slide_id
+        ) g
+      ),
+      '{}'::jsonb
+    )
+  );
+$$;
+
+update public.carousels
+set element_locks = public.element_locks_to_v2(element_locks, editor_state)
+where coalesce(element_locks ->> 'version', '') <> '2';
+
+alter table public.carousels
+  alter column element_locks set default '{"version": 2, "slides": {}}'::jsonb;
+
+alter table public.carousels
+  drop constraint if exists carousels_element_locks_v2_check;
+alter table public.carousels
+  add constraint carousels_element_locks_v2_check
+  check (element_locks ->> 'version' = '2' and jsonb_typeof(element_locks -> 'slides') = 'object');
@@ -0,0 +1,63 @@
+-- The AI usage ledger backs the monthly quotas, so members must not write it directly:
+-- a negative row would cancel out real usage. Rows now go through record_ai_usage
+-- (the server, as the signed-in user) or the service role (generation worker).
+
+drop policy if exists ai_usage_member_insert on public.ai_usage;
+
+update public.ai_usage
+set input_tokens = greatest(input_tokens, 0),
+    output_tokens = greatest(output_tokens, 0),
+    image_count = greatest(image_count, 0),
+    latency_ms = greatest(latency_ms, 0)
+where input_tokens < 0 or output_tokens < 0 or image_count < 0 or latency_ms < 0;
+
+alter table public.ai_usage
+  drop constraint if exists ai_usage_non_negative_check;
+alter table public.ai_usage
+  add constraint ai_usage_non_negative_check
+  check (input_tokens >= 0 and output_tokens >= 0 and image_count >= 0 and latency_ms >= 0);
+
+-- Members record their own usage in workspaces they belong to; the service role may
+-- record for any user.
+create or replace function public.record_ai_usage(
+  p_workspace_id uuid,
+  p_user_id uuid,
+  p_carousel_id uuid,
+  p_task text,
+  p_kind text,
+  p_provider text,
+  p_model text,
+  p_input_tokens int,
+  p_output_tokens int,
+  p_image_count int,
+  p_latency_ms int,
+  p_ok boolean
+)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'service_role' and (
+    p_user_id is distinct from auth.uid()
+    or not public.is_workspace_member(p_workspace_id, auth.uid())
+  ) then
+    raise exception 'not allowed to record ai usage for this workspace/user'
+      using errcode = '42501';
+  end if;
+
+  insert into public.ai_usage (
+    workspace_id, user_id, carousel_id, task, kind, provider, model,
+    input_tokens, output_tokens, image_count, latency_ms, ok
+  )
+  values (
+    p_workspace_id, p_user_id, p_carousel_id, p_task, p_kind, p_provider, p_model,
+    p_input_tokens, p_output_tokens, p_image_count, p_latency_ms, p_ok
+  );
+end;
+$$;
+
+revoke all on function public.record_ai_usage(uuid, uuid, uuid, text, text, text, text, int, int, int, int, boolean) from public, anon;
+grant execute on function public.record_ai_usage(uuid, uuid, uuid, text, text, text, text, int, int, int, int, boolean) to authenticated, service_role;